@@ -1,124 +1,160 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { createRoot } from 'react-dom/client';
-import { Language, DictEntry, ChatMessage, ViewState, Scenario, ScenarioReport } from './types';
+import {
+  Language,
+  DictEntry,
+  ChatMessage,
+  ViewState,
+  Scenario,
+  ScenarioReport,
+  ReviewGrade,
+  ReviewState,
+  LanguagePair,
+  PronunciationResult,
+  WordScore,
+  ScenarioSession,
+  ProficiencyLevel,
+  ObjectiveResult,
+  TurnCorrection,
+  ReplySuggestion,
+  UserSettings,
+  VoiceName,
+  StoryLength,
+  EntryType,
+  EditableField,
+  Example
+} from './types';
 import { 
   lookupTerm, 
+  regenerateEntryField,
   generateConceptImage, 
-  chatWithAI, 
+  chatWithAIStream, 
   generateStory, 
-  playTTS,
+  STORY_MAX_WORDS,
   generateScenarios,
-  chatInScenario,
-  evaluateScenario
+  chatInScenarioStream,
+  isAbortError,
+  ApiError,
+  ApiErrorCode,
+  assessPronunciation,
+  evaluateScenario,
+  translateLine,
+  explainLine,
+  suggestReplies
 } from './services/geminiService';
+import { getDueEntries, getNextDueDate, scheduleReview, formatInterval, isDue } from './services/srs';
+import {
+  loadNotebook,
+  syncNotebook,
+  addEntries,
+  listNotebookPairs,
+  migrateLegacyNotebook,
+  isSamePair,
+  termKey,
+  getStorageEstimate,
+  requestPersistentStorage,
+  isQuotaError,
+  StorageEstimate
+} from './services/notebookStorage';
+import {
+  exportNotebookJSON,
+  exportNotebookDelimited,
+  exportFilename,
+  downloadFile,
+  parseNotebookImport,
+  mergeEntries,
+  DelimitedFormat
+} from './services/notebookTransfer';
+import {
+  NotebookFilter,
+  NotebookSort,
+  AddedWithin,
+  ReviewStatus,
+  EMPTY_FILTER,
+  ENTRY_TYPES,
+  ADDED_WITHIN,
+  REVIEW_STATUSES,
+  NOTEBOOK_SORTS,
+  isFilterActive,
+  filterEntries,
+  sortEntries,
+  collectTags,
+  normalizeTags,
+  entryType
+} from './services/notebookFilter';
+import { reviseEntry, undoLastRevision } from './services/entryRevisions';
+import { Route, getCurrentRoute, pushRoute, onRouteChange } from './services/router';
+import { loadSettings, saveSettings, DEFAULT_SETTINGS } from './services/settingsStorage';
+import { loadSessions, addSession, deleteSession } from './services/sessionHistory';
+import { LEVELS, levelLabel } from './services/levels';
+import { loadScenarioLibrary, saveScenarioLibrary, loadGeneratedScenarios, saveGeneratedScenarios } from './services/scenarioLibrary';
+import { playTTS, setPreferredVoice, preloadSpeech } from './services/audioPlayer';
+import { QueuedLookup, loadQueuedLookups, saveQueuedLookups, enqueueLookup } from './services/offlineQueue';
+import { startRecording, isRecordingSupported, ActiveRecording } from './services/recorder';
 import { AudioButton } from './components/AudioButton';
-
-// --- Localization System ---
-
-const translations: Record<string, Record<string, string>> = {
-  [Language.English]: {
-    welcome: "LingoPop",
-    subtitle: "Your Fun AI Dictionary Companion",
-    iSpeak: "I SPEAK",
-    iLearn: "I WANT TO LEARN",
-    start: "Let's Go! 🚀",
-    searchPlaceholder: "Type a word, phrase, or grammar point...",
-    examples: "Examples",
-    vibeCheck: "The Vibe Check ✨",
-    askAI: "Ask AI about this...",
-    notebookEmpty: "Your notebook is empty. Go search and save some cool words!",
-    storyMode: "Story Mode 📖",
-    createStory: "Create Story",
-    writing: "Writing Magic...",
-    myCollection: "My Collection",
-    studyTime: "Study Time",
-    tapReveal: "Tap to reveal",
-    roleplay: "Roleplay",
-    search: "Search",
-    notebook: "Notebook",
-    learn: "Learn",
-    chooseScenario: "Choose a Scenario",
-    endSession: "End & Evaluate",
-    reportCard: "Report Card",
-    fluencyScore: "Fluency Score",
-    corrections: "Corrections",
-    backMenu: "Back to Menu",
-    aiTyping: "AI is typing...",
-    errorGeneric: "Something went wrong. Please check your connection.",
-    errorExtension: "A browser extension might be blocking the request."
-  },
-  [Language.Chinese]: {
-    welcome: "LingoPop 灵语",
-    subtitle: "你的 AI 趣味词典助手",
-    iSpeak: "我的母语",
-    iLearn: "我想学",
-    start: "开始探索! 🚀",
-    searchPlaceholder: "输入单词、短语或语法句式...",
-    examples: "例句",
-    vibeCheck: "语境 & 贴士 ✨",
-    askAI: "向 AI 提问...",
-    notebookEmpty: "笔记本是空的。快去查词并收藏吧！",
-    storyMode: "故事模式 📖",
-    createStory: "生成故事",
-    writing: "正在创作...",
-    myCollection: "我的收藏",
-    studyTime: "学习时间",
-    tapReveal: "点击翻转",
-    roleplay: "情景对话",
-    search: "查词",
-    notebook: "生词本",
-    learn: "闪卡",
-    chooseScenario: "选择一个场景",
-    endSession: "结束并评分",
-    reportCard: "对话评估",
-    fluencyScore: "流利度评分",
-    corrections: "纠错与建议",
-    backMenu: "返回菜单",
-    aiTyping: "AI 正在输入...",
-    errorGeneric: "出错了，请检查网络连接。",
-    errorExtension: "某个浏览器插件可能拦截了请求。"
-  },
+import { translate, textDirection, languageName, LOCALE_CODES, MessageKey, MessageParams } from './i18n';
+
+// Maps an API failure to the translation key shown to the user
+const errorMessageKey = (error: unknown): MessageKey => {
+  if (!(error instanceof ApiError)) return 'errorGeneric';
+  switch (error.code) {
+    case 'validation': return 'errorValidation';
+    case 'quota': return 'errorQuota';
+    case 'rate_limited': return 'errorRateLimited';
+    case 'safety': return 'errorSafety';
+    case 'timeout': return 'errorTimeout';
+    case 'network': return 'errorNetwork';
+    default: return 'errorGeneric';
+  }
 };
 
-const useText = (lang: Language, key: string): string => {
-  const t = translations[lang] || translations[Language.English];
-  return t[key] || translations[Language.English][key] || key;
-};
+// Failures an offline-queued lookup is kept for; any other would just repeat
+const QUEUE_RETRY_CODES: ApiErrorCode[] = ['network', 'timeout', 'rate_limited', 'quota'];
+
+// What a saved entry plays: the word itself and each example
+const entrySpeechTexts = (entry: DictEntry) => [entry.targetTerm || entry.term, ...entry.examples.map(ex => ex.text)];
 
 // --- Sub-components ---
 
+const appendToLastMessage = (history: ChatMessage[], delta: string): ChatMessage[] => {
+  const last = history[history.length - 1];
+  return [...history.slice(0, -1), { ...last, text: last.text + delta }];
+};
+
 // 1. Welcome Screen
 const WelcomeScreen: React.FC<{
   onStart: (native: Language, target: Language) => void;
-}> = ({ onStart }) => {
-  const [native, setNative] = useState<Language>(Language.English);
-  const [target, setTarget] = useState<Language>(Language.Spanish);
+  initialNative: Language;
+  initialTarget: Language;
+}> = ({ onStart, initialNative, initialTarget }) => {
+  const [native, setNative] = useState<Language>(initialNative);
+  const [target, setTarget] = useState<Language>(initialTarget);
 
   return (
-    <div className="min-h-screen bg-pop-yellow flex flex-col items-center justify-center p-6 text-center">
+    <div dir={textDirection(native)} className="min-h-screen bg-pop-yellow flex flex-col items-center justify-center p-6 text-center">
       <h1 className="text-5xl font-extrabold text-pop-purple mb-2 tracking-tight">LingoPop</h1>
-      <p className="text-lg text-gray-800 mb-8 font-medium">{useText(native, 'subtitle')}</p>
+      <p className="text-lg text-gray-800 mb-8 font-medium">{translate(native, 'subtitle')}</p>
       
       <div className="bg-white p-6 rounded-3xl shadow-xl w-full max-w-sm space-y-6">
         <div>
-          <label className="block text-left text-sm font-bold text-gray-500 mb-1 uppercase">{useText(native, 'iSpeak')}</label>
+          <label className="block text-start text-sm font-bold text-gray-500 mb-1 uppercase">{translate(native, 'iSpeak')}</label>
           <select 
             value={native} 
             onChange={(e) => setNative(e.target.value as Language)}
             className="w-full p-4 bg-gray-50 rounded-xl border-2 border-transparent focus:border-pop-purple outline-none font-semibold text-gray-800"
           >
-            {Object.values(Language).map(l => <option key={l} value={l}>{l}</option>)}
+            {Object.values(Language).map(l => <option key={l} value={l}>{languageName(l, native)}</option>)}
           </select>
         </div>
 
         <div>
-          <label className="block text-left text-sm font-bold text-gray-500 mb-1 uppercase">{useText(native, 'iLearn')}</label>
+          <label className="block text-start text-sm font-bold text-gray-500 mb-1 uppercase">{translate(native, 'iLearn')}</label>
           <select 
             value={target} 
             onChange={(e) => setTarget(e.target.value as Language)}
             className="w-full p-4 bg-gray-50 rounded-xl border-2 border-transparent focus:border-pop-pink outline-none font-semibold text-gray-800"
           >
-            {Object.values(Language).map(l => <option key={l} value={l}>{l}</option>)}
+            {Object.values(Language).map(l => <option key={l} value={l}>{languageName(l, native)}</option>)}
           </select>
         </div>
 
@@ -126,7 +162,7 @@ const WelcomeScreen: React.FC<{
           onClick={() => onStart(native, target)}
           className="w-full bg-pop-purple text-white font-bold py-4 rounded-xl hover:bg-purple-800 transition-transform transform active:scale-95 shadow-lg"
         >
-          {useText(native, 'start')}
+          {translate(native, 'start')}
         </button>
       </div>
     </div>
@@ -140,9 +176,12 @@ const SearchHeader: React.FC<{
   nativeLang: Language;
   targetLang: Language;
   error?: string | null;
-}> = ({ onSearch, isSearching, nativeLang, targetLang, error }) => {
+  notice?: string | null;
+  isOffline: boolean;
+  queuedTerms: string[];
+}> = ({ onSearch, isSearching, nativeLang, targetLang, error, notice, isOffline, queuedTerms }) => {
   const [input, setInput] = useState('');
-  const t = (k: string) => useText(nativeLang, k);
+  const t = (k: MessageKey, params?: MessageParams) => translate(nativeLang, k, params);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -152,9 +191,9 @@ const SearchHeader: React.FC<{
   return (
     <div className="sticky top-0 z-50 bg-white/90 backdrop-blur-md border-b border-gray-100 px-4 py-3 shadow-sm">
       <div className="flex items-center justify-between text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">
-        <span>{nativeLang}</span>
+        <span>{languageName(nativeLang, nativeLang)}</span>
         <span className="text-pop-purple">➔</span>
-        <span>{targetLang}</span>
+        <span>{languageName(targetLang, nativeLang)}</span>
       </div>
       <form onSubmit={handleSubmit} className="relative">
         <input
@@ -162,12 +201,12 @@ const SearchHeader: React.FC<{
           value={input}
           onChange={(e) => setInput(e.target.value)}
           placeholder={t('searchPlaceholder')}
-          className="w-full bg-gray-100 text-gray-900 rounded-2xl py-3 pl-4 pr-12 focus:outline-none focus:ring-2 focus:ring-pop-purple transition-all font-medium"
+          className="w-full bg-gray-100 text-gray-900 rounded-2xl py-3 ps-4 pe-12 focus:outline-none focus:ring-2 focus:ring-pop-purple transition-all font-medium"
           disabled={isSearching}
         />
         <button 
           type="submit" 
-          className="absolute right-2 top-1/2 transform -translate-y-1/2 bg-pop-purple text-white p-2 rounded-xl disabled:opacity-50"
+          className="absolute end-2 top-1/2 transform -translate-y-1/2 bg-pop-purple text-white p-2 rounded-xl disabled:opacity-50"
           disabled={isSearching}
         >
           {isSearching ? (
@@ -183,23 +222,172 @@ const SearchHeader: React.FC<{
            {error}
         </div>
       )}
+      {notice && (
+        <div className="mt-2 bg-pop-blue/10 border border-pop-blue/20 text-pop-blue px-3 py-2 rounded-xl text-xs font-bold animate-fade-in">
+           {notice}
+        </div>
+      )}
+      {isOffline && (
+        <div className="mt-2 bg-gray-100 text-gray-500 px-3 py-2 rounded-xl text-xs font-bold">📴 {t('offlineBanner')}</div>
+      )}
+      {queuedTerms.length > 0 && (
+        <div className="mt-2 flex flex-wrap items-center gap-1 text-xs">
+          <span className="font-bold text-gray-400">⏳ {t('queuedLookups')}:</span>
+          {queuedTerms.map(term => (
+            <span key={term} className="bg-pop-yellow/30 text-pop-purple font-bold px-2 py-0.5 rounded-full">{term}</span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Pronunciation practice, shown on examples and flashcards
+const MAX_RECORDING_MS = 15000;
+
+const WORD_SCORE_STYLES: Record<WordScore['status'], string> = {
+  correct: 'bg-green-100 text-green-700',
+  close: 'bg-yellow-100 text-yellow-700',
+  wrong: 'bg-red-100 text-red-600',
+  missing: 'bg-red-100 text-red-400 line-through',
+};
+
+const RepeatAfterMe: React.FC<{
+  text: string;
+  phonetic?: string;
+  nativeLang: Language;
+  targetLang: Language;
+  onDark?: boolean;
+}> = ({ text, phonetic, nativeLang, targetLang, onDark = false }) => {
+  const [status, setStatus] = useState<'idle' | 'recording' | 'scoring'>('idle');
+  const [result, setResult] = useState<PronunciationResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const recordingRef = useRef<ActiveRecording | null>(null);
+  const timerRef = useRef<number | undefined>(undefined);
+  const t = (k: MessageKey, params?: MessageParams) => translate(nativeLang, k, params);
+
+  useEffect(() => () => {
+    recordingRef.current?.cancel();
+    window.clearTimeout(timerRef.current);
+  }, []);
+
+  if (!isRecordingSupported()) return null;
+
+  const finish = async () => {
+    const recording = recordingRef.current;
+    if (!recording) return;
+    recordingRef.current = null;
+    window.clearTimeout(timerRef.current);
+    setStatus('scoring');
+    try {
+      const { audio, mimeType } = await recording.stop();
+      // A tap-and-release or a muted mic gives no audio, which the API would reject
+      if (!audio) {
+        setError(t('nothingRecorded'));
+        return;
+      }
+      setResult(await assessPronunciation(audio, mimeType, text, phonetic, nativeLang, targetLang));
+    } catch (err) {
+      console.error(err);
+      setError(t(errorMessageKey(err)));
+    } finally {
+      setStatus('idle');
+    }
+  };
+
+  const start = async () => {
+    setError(null);
+    setResult(null);
+    try {
+      recordingRef.current = await startRecording();
+      setStatus('recording');
+      timerRef.current = window.setTimeout(finish, MAX_RECORDING_MS);
+    } catch (err) {
+      console.error(err);
+      setError(t('micDenied'));
+    }
+  };
+
+  const buttonClass = onDark
+    ? 'bg-white/20 text-white hover:bg-white/30'
+    : 'bg-pop-pink/10 text-pop-pink hover:bg-pop-pink/20';
+
+  return (
+    <div className="mt-2" onClick={(e) => e.stopPropagation()}>
+      <button
+        onClick={status === 'recording' ? finish : start}
+        disabled={status === 'scoring'}
+        className={`text-xs font-bold px-3 py-1.5 rounded-full transition-colors disabled:opacity-50 ${status === 'recording' ? 'bg-red-500 text-white animate-pulse' : buttonClass}`}
+      >
+        {status === 'recording' ? `■ ${t('stop')}` : status === 'scoring' ? t('checking') : t('repeatAfterMe')}
+      </button>
+      {error && <p className={`mt-1 text-xs font-bold ${onDark ? 'text-white' : 'text-red-500'}`}>{error}</p>}
+      {result && (
+        <div className={`mt-2 p-3 rounded-xl text-sm ${onDark ? 'bg-white text-gray-700' : 'bg-gray-50'}`}>
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-xs font-bold uppercase tracking-wider text-gray-400">{t('pronunciationScore')}</span>
+            <span className="text-lg font-extrabold text-pop-purple">{result.score}</span>
+          </div>
+          <div className="flex flex-wrap gap-1">
+            {result.words.map((w, i) => (
+              <span key={i} title={w.heard || ''} className={`px-1.5 py-0.5 rounded ${WORD_SCORE_STYLES[w.status]}`}>{w.word}</span>
+            ))}
+          </div>
+          <p className="mt-2 text-xs text-gray-500">{t('weHeard')}: "{result.transcript}"</p>
+          {result.feedback && <p className="mt-1 text-xs text-gray-600">{result.feedback}</p>}
+        </div>
+      )}
     </div>
   );
 };
 
 // 3. Result View
+type EntryDraft = Pick<DictEntry, 'phonetic' | 'nativeDefinition' | 'examples' | 'usageNote'>;
+
+const toDraft = (entry: DictEntry): EntryDraft => ({
+  phonetic: entry.phonetic,
+  nativeDefinition: entry.nativeDefinition,
+  examples: entry.examples.map(ex => ({ ...ex })),
+  usageNote: entry.usageNote,
+});
+
+const RegenerateButton: React.FC<{ label: string; busy: boolean; disabled: boolean; onClick: () => void; className?: string }> = ({ label, busy, disabled, onClick, className = '' }) => (
+  <button
+    onClick={onClick}
+    disabled={disabled}
+    title={label}
+    aria-label={label}
+    className={`text-gray-400 hover:text-pop-purple disabled:opacity-40 ${busy ? 'animate-spin' : ''} ${className}`}
+  >
+    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"></path></svg>
+  </button>
+);
+
 const ResultView: React.FC<{
   entry: DictEntry;
   isSaved: boolean;
   onSave: () => void;
   nativeLang: Language;
   targetLang: Language;
-}> = ({ entry, isSaved, onSave, nativeLang, targetLang }) => {
+  // Only given for saved entries: tags live in the notebook
+  onUpdateTags?: (tags: string[]) => void;
+  knownTags?: string[];
+  onEdit: (changes: Partial<Pick<DictEntry, EditableField>>) => void;
+  onRegenerate: (field: EditableField) => Promise<void>;
+  onUndo: () => void;
+  imageGeneration: boolean;
+}> = ({ entry, isSaved, onSave, nativeLang, targetLang, onUpdateTags, knownTags = [], onEdit, onRegenerate, onUndo, imageGeneration }) => {
   const [chatHistory, setChatHistory] = useState<ChatMessage[]>([]);
   const [chatInput, setChatInput] = useState('');
+  const [tagInput, setTagInput] = useState('');
+  const [draft, setDraft] = useState<EntryDraft | null>(null);
+  const [regenerating, setRegenerating] = useState<EditableField | null>(null);
+  const [editError, setEditError] = useState<string | null>(null);
   const [isChatting, setIsChatting] = useState(false);
+  const [chatError, setChatError] = useState<string | null>(null);
   const chatContainerRef = useRef<HTMLDivElement>(null);
-  const t = (k: string) => useText(nativeLang, k);
+  const chatAbortRef = useRef<AbortController | null>(null);
+  const t = (k: MessageKey, params?: MessageParams) => translate(nativeLang, k, params);
 
   const displayTerm = entry.targetTerm || entry.term;
   const isTranslation = entry.term.toLowerCase() !== displayTerm.toLowerCase();
@@ -210,30 +398,85 @@ const ResultView: React.FC<{
     }
   }, [chatHistory]);
 
+  // Cancel any in-flight reply when leaving the entry
+  useEffect(() => () => chatAbortRef.current?.abort(), []);
+
+  // Unsaved edits belong to the entry they were started on
+  useEffect(() => {
+    setDraft(null);
+    setEditError(null);
+  }, [entry.id]);
+
   const handleChatSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!chatInput.trim() || isChatting) return;
 
     const userMsg: ChatMessage = { role: 'user', text: chatInput };
-    setChatHistory(prev => [...prev, userMsg]);
+    setChatHistory(prev => [...prev, userMsg, { role: 'model', text: '' }]);
     setChatInput('');
+    setChatError(null);
     setIsChatting(true);
 
+    const controller = new AbortController();
+    chatAbortRef.current = controller;
+
     try {
-      const aiResponseText = await chatWithAI(chatHistory, userMsg.text, displayTerm, nativeLang, targetLang);
-      const aiMsg: ChatMessage = { role: 'model', text: aiResponseText };
-      setChatHistory(prev => [...prev, aiMsg]);
+      await chatWithAIStream(chatHistory, userMsg.text, displayTerm, nativeLang, targetLang, (delta) => {
+        setChatHistory(prev => appendToLastMessage(prev, delta));
+      }, controller.signal);
     } catch (error) {
-      console.error(error);
+      if (!isAbortError(error)) {
+        console.error(error);
+        setChatError(t(errorMessageKey(error)));
+      }
     } finally {
+      // Drop the placeholder if nothing arrived before cancellation or failure
+      setChatHistory(prev => prev[prev.length - 1]?.text ? prev : prev.slice(0, -1));
+      chatAbortRef.current = null;
       setIsChatting(false);
     }
   };
 
+  const tags = entry.tags || [];
+  const revisions = entry.revisions || [];
+  const busy = regenerating !== null;
+
+  const handleRegenerate = async (field: EditableField) => {
+    setRegenerating(field);
+    setEditError(null);
+    try {
+      await onRegenerate(field);
+    } catch (error) {
+      console.error(error);
+      setEditError(t(errorMessageKey(error)));
+    } finally {
+      setRegenerating(null);
+    }
+  };
+
+  const handleSaveDraft = () => {
+    if (!draft) return;
+    // Blank example rows are dropped rather than saved as empty cards
+    onEdit({ ...draft, examples: draft.examples.filter(ex => ex.text.trim()) });
+    setDraft(null);
+  };
+
+  const updateDraftExample = (index: number, change: Partial<Example>) =>
+    setDraft(prev => prev && { ...prev, examples: prev.examples.map((ex, i) => (i === index ? { ...ex, ...change } : ex)) });
+
+  const editInputClass = 'w-full bg-gray-50 border border-gray-200 rounded-xl px-3 py-2 focus:outline-none focus:border-pop-purple';
+
+  const handleAddTag = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!onUpdateTags || !tagInput.trim()) return;
+    onUpdateTags([...tags, tagInput]);
+    setTagInput('');
+  };
+
   return (
     <div className="pb-24 px-4 pt-4 space-y-6 animate-fade-in">
       <div className="bg-white rounded-3xl p-6 shadow-lg border border-gray-100 relative overflow-hidden">
-        <div className="absolute top-0 right-0 p-4">
+        <div className="absolute top-0 end-0 p-4">
           <button onClick={onSave} className={`p-2 rounded-full transition-colors ${isSaved ? 'bg-pop-pink text-white' : 'bg-gray-100 text-gray-400'}`}>
             <svg className="w-6 h-6" fill={isSaved ? "currentColor" : "none"} stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z"></path></svg>
           </button>
@@ -247,35 +490,165 @@ const ResultView: React.FC<{
           )}
           <div className="flex flex-wrap items-baseline gap-3">
             <h2 className="text-4xl font-extrabold text-gray-800 break-words">{displayTerm}</h2>
-            <AudioButton text={displayTerm} />
+            <AudioButton text={displayTerm} showSlow />
           </div>
-          {entry.phonetic && (
-            <p className="text-pop-purple font-mono text-sm mt-1 font-bold opacity-80">[{entry.phonetic}]</p>
+          {draft ? (
+            <input
+              value={draft.phonetic}
+              onChange={e => setDraft({ ...draft, phonetic: e.target.value })}
+              aria-label={t('phonetic')}
+              className={`${editInputClass} mt-2 font-mono text-sm text-pop-purple`}
+            />
+          ) : (
+            <div className="flex items-center gap-2 mt-1">
+              {entry.phonetic && <p className="text-pop-purple font-mono text-sm font-bold opacity-80">[{entry.phonetic}]</p>}
+              {entry.level && (
+                <span className="text-[10px] font-bold bg-pop-purple/10 text-pop-purple px-2 py-0.5 rounded-full">{levelLabel(entry.level, targetLang)}</span>
+              )}
+              <RegenerateButton label={t('regeneratePhonetic')} busy={regenerating === 'phonetic'} disabled={busy} onClick={() => handleRegenerate('phonetic')} />
+            </div>
           )}
         </div>
-        <p className="text-xl text-gray-600 font-medium mt-3">{entry.nativeDefinition}</p>
+        {draft ? (
+          <textarea
+            value={draft.nativeDefinition}
+            onChange={e => setDraft({ ...draft, nativeDefinition: e.target.value })}
+            aria-label={t('definition')}
+            rows={3}
+            className={`${editInputClass} mt-3 text-gray-600`}
+          />
+        ) : (
+          <div className="flex items-start gap-2 mt-3">
+            <p className="text-xl text-gray-600 font-medium">{entry.nativeDefinition}</p>
+            <RegenerateButton label={t('regenerateDefinition')} busy={regenerating === 'nativeDefinition'} disabled={busy} onClick={() => handleRegenerate('nativeDefinition')} className="mt-1.5 shrink-0" />
+          </div>
+        )}
         
         {entry.imageUrl && (
           <div className="mt-6 rounded-2xl overflow-hidden bg-gray-50 border-2 border-gray-100">
-            <img src={entry.imageUrl} alt={displayTerm} className="w-full h-56 object-cover bg-white" />
+            <img src={entry.imageUrl} alt={displayTerm} className={`w-full h-56 object-cover bg-white ${regenerating === 'imageUrl' ? 'opacity-50 animate-pulse' : ''}`} />
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2 mt-5 text-xs font-bold">
+          {draft ? (
+            <>
+              <button onClick={handleSaveDraft} className="bg-pop-purple text-white px-4 py-1.5 rounded-full">{t('saveChanges')}</button>
+              <button onClick={() => setDraft(null)} className="bg-gray-100 text-gray-600 px-4 py-1.5 rounded-full">{t('cancel')}</button>
+            </>
+          ) : (
+            <>
+              <button onClick={() => setDraft(toDraft(entry))} disabled={busy} className="bg-gray-100 text-gray-600 px-4 py-1.5 rounded-full disabled:opacity-40">✏️ {t('edit')}</button>
+              {imageGeneration && (
+                <button onClick={() => handleRegenerate('imageUrl')} disabled={busy} className="bg-gray-100 text-gray-600 px-4 py-1.5 rounded-full disabled:opacity-40">
+                  🖼️ {regenerating === 'imageUrl' ? t('generating') : entry.imageUrl ? t('newImage') : t('addImage')}
+                </button>
+              )}
+              {revisions.length > 0 && (
+                <button onClick={onUndo} disabled={busy} className="bg-gray-100 text-gray-600 px-4 py-1.5 rounded-full disabled:opacity-40">
+                  ↶ {t(revisions[revisions.length - 1].source === 'edit' ? 'undoEdit' : 'undoRegenerate')}
+                </button>
+              )}
+            </>
+          )}
+        </div>
+        {editError && <p className="mt-2 text-xs font-bold text-red-500">{editError}</p>}
+
+        {onUpdateTags && (
+          <div className="mt-5">
+            <h3 className="text-gray-400 font-bold uppercase text-xs tracking-wider mb-2">{t('tags')}</h3>
+            <div className="flex flex-wrap items-center gap-2">
+              {tags.map(tag => (
+                <span key={tag} className="flex items-center gap-1 text-xs font-bold bg-pop-blue/10 text-pop-blue ps-3 pe-2 py-1 rounded-full">
+                  #{tag}
+                  <button onClick={() => onUpdateTags(tags.filter(other => other !== tag))} className="opacity-60 hover:opacity-100" aria-label={`${t('removeTag')} ${tag}`}>✕</button>
+                </span>
+              ))}
+              <form onSubmit={handleAddTag} className="flex-1 min-w-[8rem]">
+                <input
+                  value={tagInput}
+                  onChange={e => setTagInput(e.target.value)}
+                  placeholder={t('addTag')}
+                  list="notebook-tags"
+                  className="w-full bg-gray-100 rounded-full px-3 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-pop-blue"
+                />
+                <datalist id="notebook-tags">
+                  {knownTags.filter(tag => !tags.includes(tag)).map(tag => <option key={tag} value={tag} />)}
+                </datalist>
+              </form>
+            </div>
           </div>
         )}
       </div>
 
+      {entry.origin && (
+        <div className="bg-red-50 rounded-3xl p-6 border border-red-100">
+          <h3 className="text-red-400 font-bold uppercase text-xs tracking-wider mb-2">🎭 {t('fromRoleplay')} · {entry.origin.scenarioTitle}</h3>
+          <p className="text-sm text-gray-500">{t('youSaid')}: <span className="line-through text-red-400">{entry.origin.original}</span></p>
+          <p className="text-gray-800 font-medium leading-relaxed mt-2">{entry.origin.explanation}</p>
+        </div>
+      )}
+
       <div className="bg-pop-yellow/20 rounded-3xl p-6 border border-pop-yellow/50">
-        <h3 className="text-pop-purple font-bold uppercase text-xs tracking-wider mb-2">{t('vibeCheck')}</h3>
-        <p className="text-gray-800 font-medium leading-relaxed">{entry.usageNote}</p>
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-pop-purple font-bold uppercase text-xs tracking-wider">{t('vibeCheck')}</h3>
+          {!draft && <RegenerateButton label={t('regenerateUsageNote')} busy={regenerating === 'usageNote'} disabled={busy} onClick={() => handleRegenerate('usageNote')} />}
+        </div>
+        {draft ? (
+          <textarea
+            value={draft.usageNote}
+            onChange={e => setDraft({ ...draft, usageNote: e.target.value })}
+            aria-label={t('vibeCheck')}
+            rows={3}
+            className={`${editInputClass} text-gray-800`}
+          />
+        ) : (
+          <p className="text-gray-800 font-medium leading-relaxed">{entry.usageNote}</p>
+        )}
       </div>
 
       <div className="space-y-3">
-        <h3 className="text-gray-400 font-bold uppercase text-xs tracking-wider ml-2">{t('examples')}</h3>
-        {entry.examples.map((ex, i) => (
+        <div className="flex items-center justify-between mx-2">
+          <h3 className="text-gray-400 font-bold uppercase text-xs tracking-wider">{t('examples')}</h3>
+          {!draft && (
+            <button onClick={() => handleRegenerate('examples')} disabled={busy} className="text-xs font-bold text-pop-purple disabled:opacity-40">
+              {regenerating === 'examples' ? t('generating') : `+ ${t('moreExamples')}`}
+            </button>
+          )}
+        </div>
+        {draft && draft.examples.map((ex, i) => (
+          <div key={i} className="bg-white p-4 rounded-2xl shadow-sm border border-gray-100 space-y-2">
+            <div className="flex items-center gap-2">
+              <input value={ex.text} onChange={e => updateDraftExample(i, { text: e.target.value })} aria-label={t('exampleSentence')} className={`${editInputClass} text-gray-700`} />
+              <button
+                onClick={() => setDraft({ ...draft, examples: draft.examples.filter((_, j) => j !== i) })}
+                aria-label={t('removeExample')}
+                title={t('removeExample')}
+                className="text-gray-400 hover:text-red-500 shrink-0"
+              >
+                ✕
+              </button>
+            </div>
+            <input value={ex.phonetic} onChange={e => updateDraftExample(i, { phonetic: e.target.value })} aria-label={t('phonetic')} className={`${editInputClass} text-xs font-mono text-gray-500`} />
+            <input value={ex.translation} onChange={e => updateDraftExample(i, { translation: e.target.value })} aria-label={t('exampleTranslation')} className={`${editInputClass} text-sm italic text-gray-500`} />
+          </div>
+        ))}
+        {draft && (
+          <button
+            onClick={() => setDraft({ ...draft, examples: [...draft.examples, { text: '', phonetic: '', translation: '' }] })}
+            className="w-full border-2 border-dashed border-gray-200 text-gray-400 font-bold text-sm py-3 rounded-2xl"
+          >
+            + {t('addExample')}
+          </button>
+        )}
+        {!draft && entry.examples.map((ex, i) => (
           <div key={i} className="bg-white p-4 rounded-2xl shadow-sm border border-gray-100 flex items-start gap-3">
-            <AudioButton text={ex.text} size="sm" className="mt-1 shrink-0" />
+            <AudioButton text={ex.text} size="sm" className="mt-1 shrink-0" showSlow />
             <div>
               <p className="text-gray-700 text-lg leading-snug">{ex.text}</p>
               <p className="text-gray-400 text-xs font-mono mt-1">{ex.phonetic}</p>
               <p className="text-gray-500 text-sm mt-1 italic">{ex.translation}</p>
+              <RepeatAfterMe text={ex.text} phonetic={ex.phonetic} nativeLang={nativeLang} targetLang={targetLang} />
             </div>
           </div>
         ))}
@@ -286,14 +659,15 @@ const ResultView: React.FC<{
           <h3 className="text-pop-blue font-bold text-sm">{t('askAI')}</h3>
         </div>
         <div className="h-48 overflow-y-auto p-4 space-y-3 bg-gray-50/50" ref={chatContainerRef}>
-           {chatHistory.map((msg, idx) => (
+           {chatHistory.filter(msg => msg.text).map((msg, idx) => (
              <div key={idx} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
                <div className={`max-w-[80%] rounded-2xl px-4 py-2 text-sm ${msg.role === 'user' ? 'bg-pop-blue text-white' : 'bg-white border border-gray-200 text-gray-700'}`}>
                  {msg.text}
                </div>
              </div>
            ))}
-           {isChatting && <div className="text-gray-400 text-xs ml-4 animate-pulse">{t('aiTyping')}</div>}
+           {isChatting && !chatHistory[chatHistory.length - 1]?.text && <div className="text-gray-400 text-xs ms-4 animate-pulse">{t('aiTyping')}</div>}
+           {chatError && <div className="text-red-500 text-xs font-bold ms-4">{chatError}</div>}
         </div>
         <form onSubmit={handleChatSubmit} className="p-2 bg-white border-t border-gray-100 flex gap-2">
           <input 
@@ -301,9 +675,15 @@ const ResultView: React.FC<{
             value={chatInput}
             onChange={e => setChatInput(e.target.value)}
           />
-          <button type="submit" className="bg-pop-blue text-white p-2 rounded-xl disabled:opacity-50" disabled={isChatting}>
-            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8"></path></svg>
-          </button>
+          {isChatting ? (
+            <button type="button" onClick={() => chatAbortRef.current?.abort()} className="bg-gray-800 text-white p-2 rounded-xl" title={t('stop')}>
+              <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24"><rect x="6" y="6" width="12" height="12" rx="2"></rect></svg>
+            </button>
+          ) : (
+            <button type="submit" className="bg-pop-blue text-white p-2 rounded-xl disabled:opacity-50">
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8"></path></svg>
+            </button>
+          )}
         </form>
       </div>
     </div>
@@ -311,19 +691,151 @@ const ResultView: React.FC<{
 };
 
 // 4. Notebook View
+const TYPE_LABELS: Record<EntryType, MessageKey> = { word: 'typeWord', phrase: 'typePhrase', grammar: 'typeGrammar' };
+const ADDED_LABELS: Record<AddedWithin, MessageKey> = { any: 'addedAny', day: 'addedDay', week: 'addedWeek', month: 'addedMonth' };
+const REVIEW_LABELS: Record<ReviewStatus, MessageKey> = { any: 'reviewAny', new: 'reviewNew', due: 'reviewDue', learned: 'reviewLearned' };
+const SORT_LABELS: Record<NotebookSort, MessageKey> = {
+  newest: 'sortNewest',
+  oldest: 'sortOldest',
+  alphabetical: 'sortAlphabetical',
+  due: 'sortDue',
+  level: 'sortLevel',
+};
+
+// Past this share of the quota the notebook warns before saves start failing
+const STORAGE_WARNING_RATIO = 0.9;
+
+const formatStorageSize = (bytes: number, lang: Language) => {
+  const [value, unit] = bytes >= 1e9 ? [bytes / 1e9, 'gigabyte'] : [bytes / 1e6, 'megabyte'];
+  return new Intl.NumberFormat(LOCALE_CODES[lang], { style: 'unit', unit, maximumFractionDigits: 1 }).format(value);
+};
+
 const NotebookView: React.FC<{
   savedEntries: DictEntry[];
   sourceLang: Language;
   targetLang: Language;
-}> = ({ savedEntries, sourceLang, targetLang }) => {
+  onSwitchPair: (native: Language, target: Language) => void;
+  onImport: (entries: DictEntry[]) => Promise<{ added: number; duplicates: number }>;
+  storyLength: StoryLength;
+  level: ProficiencyLevel;
+  storageError?: string | null;
+  onOpenEntry: (entry: DictEntry) => void;
+  onStudy: (ids: string[]) => void;
+}> = ({ savedEntries, sourceLang, targetLang, onSwitchPair, onImport, storyLength, level, storageError, onOpenEntry, onStudy }) => {
   const [story, setStory] = useState<string | null>(null);
+  const [storedPairs, setStoredPairs] = useState<LanguagePair[]>([]);
+  const [storage, setStorage] = useState<StorageEstimate | null>(null);
+  const [filter, setFilter] = useState<NotebookFilter>(EMPTY_FILTER);
+  const [sort, setSort] = useState<NotebookSort>('newest');
   const [loadingStory, setLoadingStory] = useState(false);
-  const t = (k: string) => useText(sourceLang, k);
+  const [transferMessage, setTransferMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const t = (k: MessageKey, params?: MessageParams) => translate(sourceLang, k, params);
+
+  // Only offer filters for levels and tags that actually appear in the notebook
+  const entryLevels = LEVELS.filter(l => savedEntries.some(e => e.level === l));
+  const tags = useMemo(() => collectTags(savedEntries), [savedEntries]);
+  const visibleEntries = useMemo(
+    () => sortEntries(filterEntries(savedEntries, filter), sort, targetLang),
+    [savedEntries, filter, sort, targetLang]
+  );
+  const filtering = isFilterActive(filter);
+  const updateFilter = (change: Partial<NotebookFilter>) => setFilter(prev => ({ ...prev, ...change }));
+
+  const handleExport = (format: 'json' | DelimitedFormat) => {
+    const pair = { sourceLang, targetLang };
+    if (format === 'json') {
+      downloadFile(exportFilename(pair, 'json'), exportNotebookJSON(savedEntries), 'application/json');
+    } else {
+      const mimeType = format === 'tsv' ? 'text/tab-separated-values' : 'text/csv';
+      downloadFile(exportFilename(pair, format), exportNotebookDelimited(savedEntries, format), mimeType);
+    }
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const { entries, skipped } = parseNotebookImport(await file.text(), file.name, { sourceLang, targetLang });
+      const { added, duplicates } = await onImport(entries);
+      const parts = [t('importedCount', { count: added }), t('duplicatesSkipped', { count: duplicates })];
+      if (skipped > 0) parts.push(t('unreadableSkipped', { count: skipped }));
+      setTransferMessage(parts.join(' · '));
+    } catch (err) {
+      console.error(err);
+      setTransferMessage(t('importFailed'));
+    }
+  };
+
+  const transferPanel = (
+    <div className="bg-white rounded-3xl p-4 shadow-sm border border-gray-100">
+      <h3 className="font-bold text-gray-400 text-xs uppercase tracking-wider mb-3">{t('backup')}</h3>
+      <div className="grid grid-cols-2 gap-2 text-sm font-bold">
+        <button onClick={() => handleExport('json')} disabled={savedEntries.length === 0} className="bg-gray-100 text-gray-700 py-2 rounded-xl disabled:opacity-40">{t('exportBackup')}</button>
+        <button onClick={() => handleExport('tsv')} disabled={savedEntries.length === 0} className="bg-gray-100 text-gray-700 py-2 rounded-xl disabled:opacity-40">{t('exportAnki')}</button>
+        <button onClick={() => handleExport('csv')} disabled={savedEntries.length === 0} className="bg-gray-100 text-gray-700 py-2 rounded-xl disabled:opacity-40">{t('exportCsv')}</button>
+        <button onClick={() => fileInputRef.current?.click()} className="bg-pop-purple text-white py-2 rounded-xl">{t('importNotebook')}</button>
+      </div>
+      <input ref={fileInputRef} type="file" accept=".json,.tsv,.csv,.txt" className="hidden" onChange={handleImportFile} />
+      {transferMessage && <p className="mt-3 text-xs font-bold text-gray-500">{transferMessage}</p>}
+      {storage && (
+        <div className="mt-3">
+          <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+            <div
+              className={`h-full rounded-full ${storage.usage / storage.quota > STORAGE_WARNING_RATIO ? 'bg-orange-400' : 'bg-pop-blue'}`}
+              style={{ width: `${Math.max(1, Math.round(storage.usage / storage.quota * 100))}%` }}
+            />
+          </div>
+          <p className="mt-1 text-[11px] text-gray-400">
+            {t('storageUsed', { used: formatStorageSize(storage.usage, sourceLang), quota: formatStorageSize(storage.quota, sourceLang) })}
+          </p>
+          {storage.usage / storage.quota > STORAGE_WARNING_RATIO && (
+            <p className="mt-1 text-[11px] font-bold text-orange-500">{t('storageAlmostFull')}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+
+  useEffect(() => {
+    listNotebookPairs().then(setStoredPairs).catch(e => console.error('Failed to list notebooks:', e));
+    getStorageEstimate().then(setStorage).catch(() => setStorage(null));
+  }, [sourceLang, targetLang, savedEntries.length]);
+
+  const pairs = useMemo(() => {
+    const current = { sourceLang, targetLang };
+    return [current, ...storedPairs.filter(p => !isSamePair(p, current))];
+  }, [sourceLang, targetLang, storedPairs]);
+
+  const storageBanner = storageError && (
+    <div className="bg-red-100 border border-red-200 text-red-700 px-3 py-2 rounded-xl text-xs font-bold">{storageError}</div>
+  );
+
+  const pairSwitcher = pairs.length > 1 && (
+    <div className="flex items-center gap-2">
+      <span className="text-xs font-bold text-gray-400 uppercase tracking-wider shrink-0">{t('notebooks')}</span>
+      <select
+        value={`${sourceLang}|${targetLang}`}
+        onChange={(e) => {
+          const pair = pairs.find(p => `${p.sourceLang}|${p.targetLang}` === e.target.value);
+          if (pair) onSwitchPair(pair.sourceLang, pair.targetLang);
+        }}
+        className="flex-1 p-2 bg-white rounded-xl border border-gray-200 text-sm font-semibold text-gray-800 outline-none focus:border-pop-purple"
+      >
+        {pairs.map(p => (
+          <option key={`${p.sourceLang}|${p.targetLang}`} value={`${p.sourceLang}|${p.targetLang}`}>
+            {languageName(p.sourceLang, sourceLang)} ➔ {languageName(p.targetLang, sourceLang)}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
 
   const handleGenerateStory = async () => {
     setLoadingStory(true);
     try {
-      const s = await generateStory(savedEntries, sourceLang, targetLang);
+      const s = await generateStory(visibleEntries, sourceLang, targetLang, storyLength, level);
       setStory(s);
     } catch (e) {
       console.error(e);
@@ -349,21 +861,31 @@ const NotebookView: React.FC<{
 
   if (savedEntries.length === 0) {
     return (
-      <div className="flex flex-col items-center justify-center h-[60vh] text-center px-8 text-gray-400">
-        <div className="w-24 h-24 bg-gray-100 rounded-full flex items-center justify-center mb-4 text-4xl">📝</div>
-        <p>{t('notebookEmpty')}</p>
+      <div className="px-4 pt-6 pb-24 space-y-4">
+        {storageBanner}
+        {pairSwitcher}
+        <div className="flex flex-col items-center justify-center h-[60vh] text-center px-8 text-gray-400">
+          <div className="w-24 h-24 bg-gray-100 rounded-full flex items-center justify-center mb-4 text-4xl">📝</div>
+          <p>{t('notebookEmpty')}</p>
+        </div>
+        {transferPanel}
       </div>
     );
   }
 
   return (
     <div className="pb-24 px-4 pt-6 space-y-6">
+      {storageBanner}
+      {pairSwitcher}
       <div className="bg-gradient-to-r from-pop-purple to-pop-pink rounded-3xl p-6 text-white shadow-lg relative overflow-hidden">
         <h2 className="text-2xl font-bold mb-2">{t('storyMode')}</h2>
+        {filtering && (
+          <p className="text-xs font-bold opacity-80">{t('storyUsesFiltered', { count: Math.min(visibleEntries.length, STORY_MAX_WORDS) })}</p>
+        )}
         <button 
           onClick={handleGenerateStory} 
-          disabled={loadingStory}
-          className="bg-white text-pop-purple font-bold py-2 px-6 rounded-xl text-sm shadow-md active:scale-95 transition-transform w-full mt-4"
+          disabled={loadingStory || visibleEntries.length === 0}
+          className="bg-white text-pop-purple font-bold py-2 px-6 rounded-xl text-sm shadow-md active:scale-95 transition-transform w-full mt-4 disabled:opacity-60"
         >
           {loadingStory ? t('writing') : t('createStory')}
         </button>
@@ -377,51 +899,211 @@ const NotebookView: React.FC<{
         )}
       </div>
 
-      <h3 className="font-bold text-gray-400 text-sm uppercase tracking-wider ml-2">{t('myCollection')}</h3>
+      <h3 className="font-bold text-gray-400 text-sm uppercase tracking-wider ms-2">{t('myCollection')}</h3>
+      <div className="space-y-3">
+        <input
+          type="search"
+          value={filter.query}
+          onChange={e => updateFilter({ query: e.target.value })}
+          placeholder={t('searchNotebook')}
+          className="w-full p-3 bg-white rounded-xl border border-gray-200 text-sm outline-none focus:border-pop-purple"
+        />
+        <div className="grid grid-cols-2 gap-2">
+          <select
+            value={filter.type || ''}
+            onChange={e => updateFilter({ type: (e.target.value || null) as EntryType | null })}
+            className="p-2 bg-white rounded-xl border border-gray-200 text-xs font-semibold text-gray-700 outline-none focus:border-pop-purple"
+          >
+            <option value="">{t('allTypes')}</option>
+            {ENTRY_TYPES.map(type => <option key={type} value={type}>{t(TYPE_LABELS[type])}</option>)}
+          </select>
+          <select
+            value={filter.added}
+            onChange={e => updateFilter({ added: e.target.value as AddedWithin })}
+            className="p-2 bg-white rounded-xl border border-gray-200 text-xs font-semibold text-gray-700 outline-none focus:border-pop-purple"
+          >
+            {ADDED_WITHIN.map(added => (
+              <option key={added} value={added}>{t(ADDED_LABELS[added])}</option>
+            ))}
+          </select>
+          <select
+            value={filter.review}
+            onChange={e => updateFilter({ review: e.target.value as ReviewStatus })}
+            className="p-2 bg-white rounded-xl border border-gray-200 text-xs font-semibold text-gray-700 outline-none focus:border-pop-purple"
+          >
+            {REVIEW_STATUSES.map(status => (
+              <option key={status} value={status}>{t(REVIEW_LABELS[status])}</option>
+            ))}
+          </select>
+          <select
+            value={sort}
+            onChange={e => setSort(e.target.value as NotebookSort)}
+            aria-label={t('sortBy')}
+            className="p-2 bg-white rounded-xl border border-gray-200 text-xs font-semibold text-gray-700 outline-none focus:border-pop-purple"
+          >
+            {NOTEBOOK_SORTS.map(s => (
+              <option key={s} value={s}>{t(SORT_LABELS[s])}</option>
+            ))}
+          </select>
+        </div>
+        {entryLevels.length > 0 && (
+          <div className="flex flex-wrap gap-2 ms-2">
+            {[null, ...entryLevels].map(l => (
+              <button
+                key={l || 'all'}
+                onClick={() => updateFilter({ level: l })}
+                className={`text-xs font-bold px-3 py-1 rounded-full ${filter.level === l ? 'bg-pop-purple text-white' : 'bg-white text-gray-500 border border-gray-200'}`}
+              >
+                {l ? levelLabel(l, targetLang) : t('allLevels')}
+              </button>
+            ))}
+          </div>
+        )}
+        {tags.length > 0 && (
+          <div className="flex flex-wrap gap-2 ms-2">
+            {tags.map(tag => (
+              <button
+                key={tag}
+                onClick={() => updateFilter({ tag: filter.tag === tag ? null : tag })}
+                className={`text-xs font-bold px-3 py-1 rounded-full ${filter.tag === tag ? 'bg-pop-blue text-white' : 'bg-white text-gray-500 border border-gray-200'}`}
+              >
+                #{tag}
+              </button>
+            ))}
+          </div>
+        )}
+        <div className="flex items-center justify-between gap-2 ms-2 text-xs font-bold text-gray-400">
+          <span>{t('filterCount', { shown: visibleEntries.length, total: savedEntries.length })}</span>
+          <div className="flex items-center gap-3">
+            {filtering && <button onClick={() => setFilter(EMPTY_FILTER)} className="underline">{t('clearFilters')}</button>}
+            <button
+              onClick={() => onStudy(visibleEntries.map(e => e.id))}
+              disabled={visibleEntries.length === 0}
+              className="bg-pop-purple text-white px-3 py-1 rounded-full disabled:opacity-40"
+            >
+              {t('studyThese', { count: visibleEntries.length })}
+            </button>
+          </div>
+        </div>
+      </div>
       <div className="grid gap-4">
-        {savedEntries.map(entry => {
+        {visibleEntries.length === 0 && <p className="text-center text-sm text-gray-400 py-8">{t('noMatches')}</p>}
+        {visibleEntries.map(entry => {
            const displayTerm = entry.targetTerm || entry.term;
            return (
-            <div key={entry.id} className="bg-white p-4 rounded-2xl shadow-sm border border-gray-100 flex justify-between items-center">
+            <div
+              key={entry.id}
+              onClick={() => onOpenEntry(entry)}
+              className="bg-white p-4 rounded-2xl shadow-sm border border-gray-100 flex justify-between items-center cursor-pointer active:scale-[0.99] transition-transform"
+            >
                <div>
                  <div className="flex items-baseline gap-2">
                     <span className="font-bold text-gray-800 text-lg">{displayTerm}</span>
                     <span className="text-xs text-pop-purple font-mono opacity-70">{entry.phonetic}</span>
+                    {entry.level && (
+                      <span className="text-[10px] font-bold bg-pop-purple/10 text-pop-purple px-2 py-0.5 rounded-full">{levelLabel(entry.level, targetLang)}</span>
+                    )}
                  </div>
                  <div className="text-gray-500 text-sm">{entry.nativeDefinition}</div>
+                 {entry.origin && (
+                   <div className="text-xs text-red-400 mt-1">🎭 {entry.origin.scenarioTitle}</div>
+                 )}
+                 {(entry.tags?.length || entryType(entry) !== 'word') && (
+                   <div className="flex flex-wrap gap-1 mt-1">
+                     {entryType(entry) !== 'word' && (
+                       <span className="text-[10px] font-bold bg-gray-100 text-gray-500 px-2 py-0.5 rounded-full">{t(TYPE_LABELS[entryType(entry)])}</span>
+                     )}
+                     {entry.tags?.map(tag => (
+                       <span key={tag} className="text-[10px] font-bold bg-pop-blue/10 text-pop-blue px-2 py-0.5 rounded-full">#{tag}</span>
+                     ))}
+                   </div>
+                 )}
+               </div>
+               <div onClick={e => e.stopPropagation()}>
+                 <AudioButton text={displayTerm} size="sm" />
                </div>
-               <AudioButton text={displayTerm} size="sm" />
             </div>
            );
         })}
       </div>
+
+      {transferPanel}
     </div>
   );
 };
 
 // 5. Flashcards View
-const FlashcardsView: React.FC<{ savedEntries: DictEntry[]; nativeLang: Language }> = ({ savedEntries, nativeLang }) => {
-  const [currentIndex, setCurrentIndex] = useState(0);
+const GRADES: { grade: ReviewGrade; className: string }[] = [
+  { grade: 'again', className: 'bg-red-500' },
+  { grade: 'hard', className: 'bg-orange-400' },
+  { grade: 'good', className: 'bg-green-500' },
+  { grade: 'easy', className: 'bg-pop-blue' },
+];
+
+const FlashcardsView: React.FC<{
+  savedEntries: DictEntry[];
+  nativeLang: Language;
+  targetLang: Language;
+  onReview: (id: string, review: ReviewState) => void;
+  // Set when studying a subset picked in the notebook: every card is queued, due ones first
+  onExitSubset?: () => void;
+}> = ({ savedEntries, nativeLang, targetLang, onReview, onExitSubset }) => {
+  // Snapshot of card ids for this session; failed cards are re-queued at the end
+  const [queue, setQueue] = useState<string[]>(() => {
+    const due = getDueEntries(savedEntries);
+    const notDue = onExitSubset ? savedEntries.filter(e => !isDue(e)) : [];
+    return [...due, ...notDue].map(e => e.id);
+  });
+  const [sessionSize] = useState(queue.length);
+  const [reviewedCount, setReviewedCount] = useState(0);
   const [isFlipped, setIsFlipped] = useState(false);
-  const t = (k: string) => useText(nativeLang, k);
+  const t = (k: MessageKey, params?: MessageParams) => translate(nativeLang, k, params);
 
   if (savedEntries.length === 0) return null;
-  
-  const current = savedEntries[currentIndex];
+
+  const current = savedEntries.find(e => e.id === queue[0]);
+
+  const subsetBanner = onExitSubset && (
+    <div className="mx-4 mt-4 bg-pop-purple/10 text-pop-purple rounded-2xl px-4 py-2 text-xs font-bold flex items-center justify-between gap-2">
+      <span>📚 {t('studyingSubset', { count: savedEntries.length })}</span>
+      <button onClick={onExitSubset} className="underline shrink-0">{t('studyAllDue')}</button>
+    </div>
+  );
+
+  if (!current) {
+    const nextDue = getNextDueDate(savedEntries);
+    return (
+      <>
+      {subsetBanner}
+      <div className="flex flex-col items-center justify-center h-[60vh] text-center px-8 text-gray-400">
+        <div className="w-24 h-24 bg-gray-100 rounded-full flex items-center justify-center mb-4 text-4xl">🎉</div>
+        <p className="font-bold text-gray-800 text-lg">{t('allCaughtUp')}</p>
+        {nextDue && (
+          <p className="mt-2 text-sm">{t('nextReview')}: {new Date(nextDue).toLocaleString(LOCALE_CODES[nativeLang])}</p>
+        )}
+      </div>
+      </>
+    );
+  }
+
   const displayTerm = current.targetTerm || current.term;
   const primaryExample = current.examples[0];
+  const now = Date.now();
 
-  const nextCard = (e: React.MouseEvent) => {
+  const gradeCard = (e: React.MouseEvent, grade: ReviewGrade) => {
     e.stopPropagation();
+    onReview(current.id, scheduleReview(current.review, grade));
     setIsFlipped(false);
     setTimeout(() => {
-        setCurrentIndex((prev) => (prev + 1) % savedEntries.length);
+      setQueue(prev => grade === 'again' ? [...prev.slice(1), prev[0]] : prev.slice(1));
+      if (grade !== 'again') setReviewedCount(prev => prev + 1);
     }, 200);
   };
 
   return (
     <div className="pb-24 px-4 pt-8 h-screen flex flex-col">
-      <h2 className="text-center font-bold text-2xl text-gray-800 mb-8">{t('studyTime')} ({currentIndex + 1}/{savedEntries.length})</h2>
+      {onExitSubset && <div className="-mx-4 -mt-8 mb-4">{subsetBanner}</div>}
+      <h2 className="text-center font-bold text-2xl text-gray-800 mb-8">{t('studyTime', { current: reviewedCount + 1, total: sessionSize })}</h2>
       
       <div className="flex-1 flex items-center justify-center relative perspective-1000">
         <div 
@@ -430,7 +1112,7 @@ const FlashcardsView: React.FC<{ savedEntries: DictEntry[]; nativeLang: Language
         >
           <div className="absolute inset-0 bg-white rounded-[40px] shadow-2xl border-4 border-pop-blue flex flex-col items-center justify-center p-8 backface-hidden z-10">
              {current.imageUrl && (
-               <img src={current.imageUrl} alt="concept" className="w-32 h-32 object-contain mb-6" />
+               <img src={current.imageUrl} alt={displayTerm} className="w-32 h-32 object-contain mb-6" />
              )}
              <h2 className="text-4xl font-extrabold text-gray-800 text-center break-words">{displayTerm}</h2>
              <p className="text-pop-purple mt-2 font-mono">{current.phonetic}</p>
@@ -448,98 +1130,397 @@ const FlashcardsView: React.FC<{ savedEntries: DictEntry[]; nativeLang: Language
                 <p className="text-center text-white/60 text-xs font-mono">{primaryExample.phonetic}</p>
               </>
             )}
+            {current.origin && (
+              <p className="text-center text-white/70 text-xs mt-3">{t('youSaid')}: <span className="line-through">{current.origin.original}</span></p>
+            )}
             <div 
                 className="mt-4 p-3 bg-white/20 rounded-full hover:bg-white/30 transition-colors"
                 onClick={(e) => { e.stopPropagation(); playTTS(displayTerm); }}
             >
                  <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z"></path></svg>
             </div>
+            <RepeatAfterMe key={current.id} text={displayTerm} phonetic={current.phonetic} nativeLang={nativeLang} targetLang={targetLang} onDark />
           </div>
         </div>
       </div>
 
-      <div className="mt-8 mb-4 flex justify-center">
-        <button onClick={nextCard} className="bg-gray-800 text-white px-8 py-3 rounded-2xl font-bold shadow-lg">Next ➔</button>
+      <div className="mt-8 mb-4 grid grid-cols-4 gap-2">
+        {GRADES.map(({ grade, className }) => (
+          <button
+            key={grade}
+            onClick={(e) => gradeCard(e, grade)}
+            disabled={!isFlipped}
+            className={`${className} text-white py-3 rounded-2xl font-bold shadow-lg flex flex-col items-center disabled:opacity-30 transition-opacity`}
+          >
+            <span className="text-sm">{t(grade)}</span>
+            <span className="text-[10px] opacity-80">{formatInterval(now, scheduleReview(current.review, grade, now).due)}</span>
+          </button>
+        ))}
       </div>
     </div>
   );
 };
 
 // 6. Scenario Views (Roleplay)
+// The API accepts up to this many objectives per scenario, and these lengths
+const MAX_OBJECTIVES = 6;
+const MAX_OBJECTIVE_LENGTH = 200;
+const MAX_FIELD_LENGTHS: Partial<Record<keyof Scenario, number>> = { title: 200, description: 1000, persona: 500, setting: 500 };
+const EMPTY_SCENARIO: Scenario = { id: '', title: '', description: '', openingLine: '', persona: '', setting: '', custom: true };
+
+const ScenarioBuilder: React.FC<{
+  initial: Scenario;
+  nativeLang: Language;
+  targetLang: Language;
+  onSave: (scenario: Scenario) => void;
+  onCancel: () => void;
+}> = ({ initial, nativeLang, targetLang, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<Scenario>(initial);
+  const [objectivesText, setObjectivesText] = useState((initial.objectives || []).join('\n'));
+  const t = (k: MessageKey, params?: MessageParams) => translate(nativeLang, k, params);
+  const inputClass = "w-full p-3 bg-gray-50 rounded-xl border-2 border-transparent focus:border-pop-purple outline-none text-gray-800";
+  const labelClass = "block font-bold text-gray-400 text-xs uppercase tracking-wider mb-2";
+  const objectives = objectivesText.split('\n').map(o => o.trim()).filter(Boolean).slice(0, MAX_OBJECTIVES);
+  const objectiveTooLong = objectives.some(o => o.length > MAX_OBJECTIVE_LENGTH);
+  const canSave = draft.title.trim() && draft.description.trim() && draft.openingLine.trim() && !objectiveTooLong;
+
+  const field = (key: 'title' | 'description' | 'persona' | 'setting' | 'openingLine', label: string, placeholder: string, multiline = false) => (
+    <div>
+      <label className={labelClass}>{label}</label>
+      {multiline ? (
+        <textarea rows={3} maxLength={MAX_FIELD_LENGTHS[key]} className={inputClass} value={draft[key] || ''} placeholder={placeholder} onChange={e => setDraft({ ...draft, [key]: e.target.value })} />
+      ) : (
+        <input maxLength={MAX_FIELD_LENGTHS[key]} className={inputClass} value={draft[key] || ''} placeholder={placeholder} onChange={e => setDraft({ ...draft, [key]: e.target.value })} />
+      )}
+    </div>
+  );
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSave) return;
+    // The API rejects blank optional fields, so leave them out entirely
+    onSave({
+      ...draft,
+      id: draft.id || `custom-${Date.now()}`,
+      title: draft.title.trim(),
+      description: draft.description.trim(),
+      openingLine: draft.openingLine.trim(),
+      persona: draft.persona?.trim() || undefined,
+      setting: draft.setting?.trim() || undefined,
+      objectives,
+    });
+  };
+
+  return (
+    <form onSubmit={submit} className="bg-white rounded-3xl p-5 shadow-sm border border-gray-100 space-y-4 animate-fade-in">
+      <h3 className="text-xl font-extrabold text-gray-800">{initial.id ? t('editScenario') : t('createScenario')}</h3>
+      {field('title', t('scenarioTitle'), t('scenarioTitleHint'))}
+      {field('description', t('scenarioDescription'), t('scenarioDescriptionHint'), true)}
+      {field('persona', t('scenarioPersona'), t('scenarioPersonaHint'))}
+      {field('setting', t('scenarioSetting'), t('scenarioSettingHint'))}
+      {field('openingLine', `${t('scenarioOpeningLine')} (${languageName(targetLang, nativeLang)})`, t('scenarioOpeningLineHint'))}
+      <div>
+        <label className={labelClass}>{t('objectives')}</label>
+        <textarea rows={3} className={inputClass} value={objectivesText} placeholder={t('objectivesHint')} onChange={e => setObjectivesText(e.target.value)} />
+        {objectiveTooLong && <p className="mt-1 text-xs font-bold text-red-500">{t('objectiveTooLong', { max: MAX_OBJECTIVE_LENGTH })}</p>}
+      </div>
+      <div className="flex gap-2 pt-2">
+        <button type="button" onClick={onCancel} className="flex-1 py-3 rounded-xl font-bold bg-gray-100 text-gray-600">{t('cancel')}</button>
+        <button type="submit" disabled={!canSave} className="flex-1 py-3 rounded-xl font-bold bg-pop-purple text-white disabled:opacity-50">{t('saveScenario')}</button>
+      </div>
+    </form>
+  );
+};
+
+const ScenarioCard: React.FC<{
+  scenario: Scenario;
+  onSelect: () => void;
+  actions: React.ReactNode;
+}> = ({ scenario, onSelect, actions }) => (
+  <div onClick={onSelect} className="bg-white p-5 rounded-2xl shadow-md border border-gray-100 cursor-pointer hover:border-pop-purple transition-colors">
+    <div className="flex justify-between items-start">
+      <div className="text-4xl mb-2">{scenario.custom ? '✍️' : '🎭'}</div>
+      <div className="flex gap-2" onClick={e => e.stopPropagation()}>{actions}</div>
+    </div>
+    <h3 className="font-bold text-xl text-gray-800">{scenario.title}</h3>
+    <p className="text-gray-500 text-sm mt-1">{scenario.description}</p>
+    {(scenario.persona || scenario.setting) && (
+      <p className="text-xs text-gray-400 mt-2">{[scenario.persona, scenario.setting].filter(Boolean).join(' · ')}</p>
+    )}
+    {scenario.objectives && scenario.objectives.length > 0 && (
+      <ul className="mt-3 space-y-1">
+        {scenario.objectives.map((o, i) => <li key={i} className="text-xs text-gray-500">🎯 {o}</li>)}
+      </ul>
+    )}
+  </div>
+);
+
 const ScenarioMenu: React.FC<{
   nativeLang: Language;
   targetLang: Language;
   onSelect: (s: Scenario) => void;
-}> = ({ nativeLang, targetLang, onSelect }) => {
+  onOpenHistory: () => void;
+  level: ProficiencyLevel;
+}> = ({ nativeLang, targetLang, onSelect, onOpenHistory, level }) => {
+  const pair = { sourceLang: nativeLang, targetLang };
   const [scenarios, setScenarios] = useState<Scenario[]>([]);
+  const [library, setLibrary] = useState<Scenario[]>(() => loadScenarioLibrary(pair));
+  const [theme, setTheme] = useState('');
+  const [editing, setEditing] = useState<Scenario | null>(null);
   const [loading, setLoading] = useState(false);
-  const t = (k: string) => useText(nativeLang, k);
+  const t = (k: MessageKey, params?: MessageParams) => translate(nativeLang, k, params);
 
   useEffect(() => {
-    loadScenarios();
-  }, [targetLang]);
+    setLibrary(loadScenarioLibrary(pair));
+  }, [nativeLang, targetLang]);
+
+  // Reuse this tab's last batch rather than re-rolling on every visit
+  useEffect(() => {
+    const cached = loadGeneratedScenarios(pair, level);
+    if (cached) setScenarios(cached);
+    else loadScenarios();
+  }, [nativeLang, targetLang, level]);
 
   const loadScenarios = async () => {
     setLoading(true);
     try {
-      const list = await generateScenarios(targetLang, nativeLang);
-      setScenarios(list);
+      const list = await generateScenarios(targetLang, nativeLang, level, theme.trim());
+      // Model-chosen ids repeat across batches; the library and URLs need them unique
+      const stamped = list.map((s, i) => ({ ...s, id: `gen-${Date.now()}-${i}` }));
+      setScenarios(stamped);
+      saveGeneratedScenarios(pair, level, stamped);
     } catch(e) { console.error(e); }
     finally { setLoading(false); }
   };
 
+  const updateLibrary = (next: Scenario[]) => {
+    setLibrary(next);
+    saveScenarioLibrary(pair, next);
+  };
+
+  const saveToLibrary = (scenario: Scenario) => {
+    const exists = library.some(s => s.id === scenario.id);
+    updateLibrary(exists ? library.map(s => s.id === scenario.id ? scenario : s) : [scenario, ...library]);
+  };
+
+  const removeFromLibrary = (id: string) => updateLibrary(library.filter(s => s.id !== id));
+
+  const actionClass = "text-xs font-bold px-2 py-1 rounded-lg bg-gray-100 text-gray-500 hover:text-pop-purple";
+
+  if (editing) {
+    return (
+      <div className="p-6 pb-24 pt-8">
+        <ScenarioBuilder
+          initial={editing}
+          nativeLang={nativeLang}
+          targetLang={targetLang}
+          onSave={(scenario) => { saveToLibrary(scenario); setEditing(null); }}
+          onCancel={() => setEditing(null)}
+        />
+      </div>
+    );
+  }
+
   return (
     <div className="p-6 pb-24 pt-8">
-      <h2 className="text-3xl font-extrabold text-gray-800 mb-6">{t('chooseScenario')}</h2>
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-3xl font-extrabold text-gray-800">{t('chooseScenario')}</h2>
+        <button onClick={onOpenHistory} className="text-sm font-bold text-pop-purple bg-pop-purple/10 px-3 py-1.5 rounded-lg shrink-0">
+          📈 {t('history')}
+        </button>
+      </div>
+
+      <button onClick={() => setEditing(EMPTY_SCENARIO)} className="w-full py-3 mb-6 rounded-2xl border-2 border-dashed border-pop-purple/40 text-pop-purple font-bold">
+        + {t('createScenario')}
+      </button>
+
+      {library.length > 0 && (
+        <>
+          <h3 className="font-bold text-gray-400 text-sm uppercase tracking-wider mb-3">{t('myScenarios')}</h3>
+          <div className="space-y-4 mb-8">
+            {library.map(s => (
+              <ScenarioCard key={s.id} scenario={s} onSelect={() => onSelect(s)} actions={<>
+                <button onClick={() => setEditing(s)} className={actionClass}>{t('edit')}</button>
+                <button onClick={() => removeFromLibrary(s.id)} className={actionClass}>{t('deleteScenario')}</button>
+              </>} />
+            ))}
+          </div>
+        </>
+      )}
+
+      <h3 className="font-bold text-gray-400 text-sm uppercase tracking-wider mb-3">{t('suggestedScenarios')}</h3>
       {loading ? (
         <div className="text-center py-10 text-gray-400">{t('writing')}</div>
       ) : (
         <div className="space-y-4">
-          {scenarios.map(s => (
-            <div key={s.id} onClick={() => onSelect(s)} className="bg-white p-5 rounded-2xl shadow-md border border-gray-100 cursor-pointer hover:border-pop-purple transition-colors">
-              <div className="text-4xl mb-2">🎭</div>
-              <h3 className="font-bold text-xl text-gray-800">{s.title}</h3>
-              <p className="text-gray-500 text-sm mt-1">{s.description}</p>
-            </div>
-          ))}
-          <button onClick={loadScenarios} className="w-full py-3 text-center text-pop-blue font-bold mt-4 text-sm">Refresh Scenarios</button>
+          {scenarios.map(s => {
+            const saved = library.some(l => l.id === s.id);
+            return (
+              <ScenarioCard key={s.id} scenario={s} onSelect={() => onSelect(s)} actions={
+                <button onClick={() => saved ? removeFromLibrary(s.id) : saveToLibrary(s)} className={actionClass}>
+                  {saved ? `★ ${t('savedScenario')}` : `☆ ${t('saveScenario')}`}
+                </button>
+              } />
+            );
+          })}
         </div>
       )}
+
+      <form onSubmit={(e) => { e.preventDefault(); loadScenarios(); }} className="flex gap-2 mt-4">
+        <input
+          className="flex-1 bg-white border border-gray-200 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-pop-blue"
+          value={theme}
+          onChange={e => setTheme(e.target.value)}
+          placeholder={t('scenarioTheme')}
+        />
+        <button type="submit" disabled={loading} className="px-4 rounded-xl bg-pop-blue text-white font-bold text-sm disabled:opacity-50">
+          🎲 {t('regenerate')}
+        </button>
+      </form>
     </div>
   );
 };
 
+// Feedback under a learner's roleplay message; collapsed so it doesn't interrupt the scene
+const TurnCorrectionNote: React.FC<{
+  correction: TurnCorrection;
+  nativeLang: Language;
+}> = ({ correction, nativeLang }) => {
+  const [open, setOpen] = useState(false);
+  const t = (k: MessageKey, params?: MessageParams) => translate(nativeLang, k, params);
+
+  if (correction.isCorrect) {
+    return <div className="text-[11px] text-green-600 mt-1 me-1">✓ {t('looksGood')}</div>;
+  }
+
+  return (
+    <div className="max-w-[85%] mt-1 text-end">
+      <button onClick={() => setOpen(!open)} className="text-[11px] font-bold text-orange-500">
+        ✏️ {open ? t('hideCorrection') : t('showCorrection')}
+      </button>
+      {open && (
+        <div className="mt-1 bg-orange-50 border border-orange-100 rounded-xl p-3 text-start text-sm animate-fade-in">
+          <div className="text-green-700 font-bold">→ {correction.corrected}</div>
+          {correction.explanation && <div className="text-gray-600 text-xs mt-1">{correction.explanation}</div>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface LineHelp {
+  translation?: string;
+  explanation?: string;
+  loading?: 'translation' | 'explanation';
+  open?: 'translation' | 'explanation';
+}
+
 const ScenarioChat: React.FC<{
   scenario: Scenario;
   nativeLang: Language;
   targetLang: Language;
-  onEnd: (history: ChatMessage[]) => void;
-}> = ({ scenario, nativeLang, targetLang, onEnd }) => {
+  onEnd: (history: ChatMessage[], objectives?: ObjectiveResult[]) => void;
+  level: ProficiencyLevel;
+  inlineCorrections: boolean;
+  onToggleCorrections: () => void;
+}> = ({ scenario, nativeLang, targetLang, onEnd, level, inlineCorrections, onToggleCorrections }) => {
   const [history, setHistory] = useState<ChatMessage[]>([{ role: 'model', text: scenario.openingLine }]);
+  const [completed, setCompleted] = useState<number[]>([]);
   const [input, setInput] = useState('');
   const [loading, setLoading] = useState(false);
+  const [sendError, setSendError] = useState<string | null>(null);
+  // Translations and explanations for model messages, by history index
+  const [lineHelp, setLineHelp] = useState<Record<number, LineHelp>>({});
+  const [suggestions, setSuggestions] = useState<ReplySuggestion[] | null>(null);
+  const [suggesting, setSuggesting] = useState(false);
   const scrollRef = useRef<HTMLDivElement>(null);
-  const t = (k: string) => useText(nativeLang, k);
+  const abortRef = useRef<AbortController | null>(null);
+  const t = (k: MessageKey, params?: MessageParams) => translate(nativeLang, k, params);
 
   useEffect(() => {
     if (scrollRef.current) scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
   }, [history]);
 
+  useEffect(() => () => abortRef.current?.abort(), []);
+
   const send = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!input.trim() || loading) return;
     const newHistory = [...history, { role: 'user' as const, text: input }];
-    setHistory(newHistory);
+    setHistory([...newHistory, { role: 'model', text: '' }]);
     setInput('');
+    setSuggestions(null);
+    setSendError(null);
     setLoading(true);
+
+    const controller = new AbortController();
+    abortRef.current = controller;
     
     try {
-      const resp = await chatInScenario(newHistory, scenario, targetLang);
-      setHistory([...newHistory, { role: 'model', text: resp }]);
-    } catch(e) { console.error(e); }
-    finally { setLoading(false); }
+      const userIndex = newHistory.length - 1;
+      const options = { level, completedObjectives: completed, correctIn: inlineCorrections ? nativeLang : undefined };
+      await chatInScenarioStream(newHistory, scenario, targetLang, options, (delta) => {
+        setHistory(prev => appendToLastMessage(prev, delta));
+      }, controller.signal, ({ completedObjectives, correction }) => {
+        if (completedObjectives) setCompleted(completedObjectives);
+        if (correction) setHistory(prev => prev.map((m, i) => i === userIndex ? { ...m, correction } : m));
+      });
+    } catch (e) {
+      if (!isAbortError(e)) {
+        console.error(e);
+        setSendError(t(errorMessageKey(e)));
+      }
+    } finally {
+      setHistory(prev => prev[prev.length - 1]?.text ? prev : prev.slice(0, -1));
+      abortRef.current = null;
+      setLoading(false);
+    }
+  };
+
+  const updateLineHelp = (index: number, changes: LineHelp) =>
+    setLineHelp(prev => ({ ...prev, [index]: { ...prev[index], ...changes } }));
+
+  const helpWithLine = async (index: number, kind: 'translation' | 'explanation') => {
+    const current = lineHelp[index];
+    // Already fetched: the button just shows or hides it
+    if (current?.[kind]) {
+      updateLineHelp(index, { open: current.open === kind ? undefined : kind });
+      return;
+    }
+    updateLineHelp(index, { loading: kind, open: kind });
+    try {
+      const text = history[index].text;
+      const result = kind === 'translation'
+        ? await translateLine(text, nativeLang, targetLang)
+        : await explainLine(text, history.slice(0, index), nativeLang, targetLang, level);
+      updateLineHelp(index, { [kind]: result, loading: undefined });
+    } catch (e) {
+      console.error(e);
+      updateLineHelp(index, { loading: undefined, open: undefined });
+    }
+  };
+
+  const suggest = async () => {
+    if (suggestions) {
+      setSuggestions(null);
+      return;
+    }
+    setSuggesting(true);
+    try {
+      setSuggestions(await suggestReplies(history.filter(m => m.text), scenario, nativeLang, targetLang, level));
+    } catch (e) { console.error(e); }
+    finally { setSuggesting(false); }
   };
 
+  // Ending mid-reply keeps whatever has streamed in so far
+  const end = () => {
+    abortRef.current?.abort();
+    const objectives = scenario.objectives?.map((text, i) => ({ text, completed: completed.includes(i) }));
+    onEnd(history.filter(m => m.text), objectives);
+  };
+
+  const objectives = scenario.objectives || [];
+
   return (
     <div className="flex flex-col h-screen bg-gray-50 pb-safe">
        <div className="bg-white p-4 border-b shadow-sm flex justify-between items-center pt-10 md:pt-4 sticky top-0 z-10">
@@ -547,82 +1528,426 @@ const ScenarioChat: React.FC<{
             <h3 className="font-bold text-gray-800">{scenario.title}</h3>
             <p className="text-xs text-gray-500">{t('roleplay')}</p>
          </div>
-         <button onClick={() => onEnd(history)} className="text-xs bg-red-100 text-red-600 px-3 py-1.5 rounded-lg font-bold">
-           {t('endSession')}
-         </button>
+         <div className="flex gap-2">
+           <button
+             onClick={onToggleCorrections}
+             className={`text-xs px-3 py-1.5 rounded-lg font-bold ${inlineCorrections ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-500'}`}
+             title={t('inlineCorrectionsHint')}
+           >
+             ✏️ {t('inlineCorrections')}
+           </button>
+           <button onClick={end} className="text-xs bg-red-100 text-red-600 px-3 py-1.5 rounded-lg font-bold">
+             {t('endSession')}
+           </button>
+         </div>
        </div>
+
+       {objectives.length > 0 && (
+         <div className="bg-white border-b px-4 py-3">
+           <div className="text-[10px] font-bold uppercase tracking-wider text-gray-400 mb-1">
+             {t('objectives')} · {completed.length}/{objectives.length}
+           </div>
+           <ul className="space-y-1">
+             {objectives.map((o, i) => (
+               <li key={i} className={`text-sm flex items-center gap-2 transition-colors ${completed.includes(i) ? 'text-green-600 line-through' : 'text-gray-700'}`}>
+                 <span>{completed.includes(i) ? '✅' : '⬜'}</span>{o}
+               </li>
+             ))}
+           </ul>
+         </div>
+       )}
        
        <div className="flex-1 overflow-y-auto p-4 space-y-4" ref={scrollRef}>
-          {history.map((m, i) => (
-            <div key={i} className={`flex ${m.role === 'user' ? 'justify-end' : 'justify-start'}`}>
-              <div className={`max-w-[85%] p-3 rounded-2xl text-sm ${m.role === 'user' ? 'bg-pop-blue text-white rounded-tr-none' : 'bg-white text-gray-800 border border-gray-200 rounded-tl-none shadow-sm'}`}>
+          {/* Indexed by position in `history`, which the line helpers also use */}
+          {history.map((m, i) => m.text && (
+            <div key={i} className={`flex flex-col ${m.role === 'user' ? 'items-end' : 'items-start'}`}>
+              <div className={`max-w-[85%] p-3 rounded-2xl text-sm ${m.role === 'user' ? 'bg-pop-blue text-white rounded-se-none' : 'bg-white text-gray-800 border border-gray-200 rounded-ss-none shadow-sm'}`}>
                 {m.text}
-                {m.role === 'model' && (
-                  <div className="mt-1 flex justify-end opacity-50 hover:opacity-100">
-                    <AudioButton text={m.text} size="sm" className="!p-1 !w-5 !h-5 text-current" />
+                {m.role === 'model' && !(loading && i === history.length - 1) && (
+                  <div className="mt-1 flex justify-end items-center gap-1">
+                    <button onClick={() => helpWithLine(i, 'translation')} className="text-[11px] font-bold text-gray-400 hover:text-pop-blue px-1" title={t('translateLine')}>🌐</button>
+                    <button onClick={() => helpWithLine(i, 'explanation')} className="text-[11px] font-bold text-gray-400 hover:text-pop-blue px-1" title={t('explainLine')}>💡</button>
+                    <div className="opacity-50 hover:opacity-100">
+                      <AudioButton text={m.text} size="sm" className="!p-1 !w-5 !h-5 text-current" />
+                    </div>
                   </div>
                 )}
               </div>
+              {lineHelp[i]?.open && (
+                <div className="max-w-[85%] mt-1 bg-blue-50 border border-blue-100 rounded-xl p-3 text-sm text-gray-700 animate-fade-in">
+                  {lineHelp[i].loading ? <span className="text-gray-400 animate-pulse">...</span> : lineHelp[i][lineHelp[i].open!]}
+                </div>
+              )}
+              {m.correction && <TurnCorrectionNote correction={m.correction} nativeLang={nativeLang} />}
             </div>
           ))}
-          {loading && <div className="text-center text-xs text-gray-400 animate-pulse">...</div>}
+          {loading && !history[history.length - 1]?.text && <div className="text-center text-xs text-gray-400 animate-pulse">...</div>}
+          {sendError && <div className="text-center text-xs font-bold text-red-500">{sendError}</div>}
        </div>
 
        <form onSubmit={send} className="p-4 bg-white border-t">
+         {suggestions && (
+           <div className="space-y-2 mb-3 animate-fade-in">
+             {suggestions.map((s, i) => (
+               <button
+                 key={i}
+                 type="button"
+                 onClick={() => { setInput(s.text); setSuggestions(null); }}
+                 className="w-full text-start bg-pop-blue/5 border border-pop-blue/20 rounded-xl px-3 py-2 hover:bg-pop-blue/10"
+               >
+                 <div className="text-sm text-gray-800">{s.text}</div>
+                 <div className="text-xs text-gray-500">{s.translation}</div>
+               </button>
+             ))}
+           </div>
+         )}
          <div className="flex gap-2">
+           <button
+             type="button"
+             onClick={suggest}
+             disabled={loading || suggesting}
+             className={`p-3 rounded-xl disabled:opacity-50 ${suggestions ? 'bg-pop-blue text-white' : 'bg-gray-100'} ${suggesting ? 'animate-pulse' : ''}`}
+             title={t('suggestReply')}
+           >
+             💬
+           </button>
            <input 
              className="flex-1 bg-gray-100 rounded-xl px-4 py-3 focus:outline-none focus:ring-2 focus:ring-pop-blue"
              value={input}
              onChange={e => setInput(e.target.value)}
-             placeholder="Type here..."
+             placeholder={t('typeHere')}
            />
-           <button type="submit" className="bg-pop-blue text-white p-3 rounded-xl" disabled={loading}>➤</button>
+           {loading ? (
+             <button type="button" onClick={() => abortRef.current?.abort()} className="bg-gray-800 text-white p-3 rounded-xl" title={t('stop')}>■</button>
+           ) : (
+             <button type="submit" className="bg-pop-blue text-white p-3 rounded-xl">➤</button>
+           )}
          </div>
        </form>
     </div>
   );
 };
 
+type Correction = ScenarioReport['corrections'][number];
+
 const ScenarioReportView: React.FC<{
   report: ScenarioReport;
   nativeLang: Language;
   onClose: () => void;
-}> = ({ report, nativeLang, onClose }) => {
-  const t = (k: string) => useText(nativeLang, k);
+  // Set when reopening a past session from history
+  session?: ScenarioSession;
+  // Shown above the report, e.g. when the session couldn't be added to history
+  warning?: string | null;
+  isCorrectionSaved: (correction: Correction) => boolean;
+  onSaveCorrection: (correction: Correction, index: number) => Promise<void>;
+}> = ({ report, nativeLang, onClose, session, warning, isCorrectionSaved, onSaveCorrection }) => {
+  const [saveStatus, setSaveStatus] = useState<Record<number, 'saving' | 'error'>>({});
+  const t = (k: MessageKey, params?: MessageParams) => translate(nativeLang, k, params);
+
+  const save = async (index: number) => {
+    setSaveStatus(prev => ({ ...prev, [index]: 'saving' }));
+    try {
+      await onSaveCorrection(report.corrections[index], index);
+      setSaveStatus(({ [index]: _, ...rest }) => rest);
+    } catch (e) {
+      console.error(e);
+      setSaveStatus(prev => ({ ...prev, [index]: 'error' }));
+    }
+  };
+
+  // One at a time, to stay well inside the lookup rate limit
+  const saveAll = async () => {
+    for (let i = 0; i < report.corrections.length; i++) {
+      if (!isCorrectionSaved(report.corrections[i])) await save(i);
+    }
+  };
+
+  const unsavedCount = report.corrections.filter(c => !isCorrectionSaved(c)).length;
+  const isBusy = Object.values(saveStatus).includes('saving');
   
   return (
     <div className="p-6 pb-24 pt-8 animate-fade-in">
       <h2 className="text-3xl font-extrabold text-gray-800 mb-6 text-center">{t('reportCard')}</h2>
+      {session && (
+        <p className="text-center text-sm text-gray-500 -mt-4 mb-6">
+          {session.scenario.title} · {new Date(session.completedAt).toLocaleDateString(LOCALE_CODES[nativeLang])}
+        </p>
+      )}
+      {warning && (
+        <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-3 py-2 rounded-xl text-xs font-bold mb-6">{warning}</div>
+      )}
       
       <div className="bg-white rounded-3xl p-6 shadow-lg border-2 border-pop-purple text-center mb-6">
         <div className="text-gray-500 uppercase text-xs font-bold tracking-widest mb-2">{t('fluencyScore')}</div>
         <div className="text-6xl font-extrabold text-pop-purple">{report.score}</div>
       </div>
 
+      {report.objectives && report.objectives.length > 0 && (
+        <div className="bg-white rounded-2xl p-5 shadow-sm border border-gray-100 mb-6">
+          <h3 className="font-bold text-gray-600 uppercase text-xs tracking-widest mb-3">
+            {t('objectives')} · {report.objectives.filter(o => o.completed).length}/{report.objectives.length}
+          </h3>
+          <ul className="space-y-2">
+            {report.objectives.map((o, i) => (
+              <li key={i} className={`text-sm flex items-center gap-2 ${o.completed ? 'text-green-600' : 'text-gray-400'}`}>
+                <span>{o.completed ? '✅' : '❌'}</span>{o.text}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       <div className="bg-pop-yellow/20 p-6 rounded-2xl mb-6">
         <p className="text-gray-800 font-medium">{report.feedback}</p>
       </div>
 
-      <h3 className="font-bold text-gray-600 uppercase text-xs tracking-widest mb-4">{t('corrections')}</h3>
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="font-bold text-gray-600 uppercase text-xs tracking-widest">{t('corrections')}</h3>
+        {unsavedCount > 1 && (
+          <button onClick={saveAll} disabled={isBusy} className="text-xs font-bold text-pop-purple disabled:opacity-50">
+            + {t('saveAllCorrections')}
+          </button>
+        )}
+      </div>
       <div className="space-y-4">
-        {report.corrections.map((c, i) => (
-          <div key={i} className="bg-white p-4 rounded-xl border border-gray-100 shadow-sm">
-            <div className="text-red-400 line-through text-sm mb-1">{c.original}</div>
-            <div className="text-green-600 font-bold text-lg mb-2">→ {c.correction}</div>
-            <div className="text-gray-500 text-xs bg-gray-50 p-2 rounded">{c.explanation}</div>
-          </div>
-        ))}
+        {report.corrections.map((c, i) => {
+          const saved = isCorrectionSaved(c);
+          const status = saveStatus[i];
+          return (
+            <div key={i} className="bg-white p-4 rounded-xl border border-gray-100 shadow-sm">
+              <div className="text-red-400 line-through text-sm mb-1">{c.original}</div>
+              <div className="text-green-600 font-bold text-lg mb-2">→ {c.correction}</div>
+              <div className="text-gray-500 text-xs bg-gray-50 p-2 rounded">{c.explanation}</div>
+              <div className="flex justify-end items-center gap-2 mt-3">
+                {status === 'error' && <span className="text-xs text-red-500">{t('errorGeneric')}</span>}
+                <button
+                  onClick={() => save(i)}
+                  disabled={saved || status === 'saving'}
+                  className={`text-xs font-bold px-3 py-1.5 rounded-lg ${saved ? 'bg-green-100 text-green-700' : 'bg-pop-purple/10 text-pop-purple'} disabled:cursor-default`}
+                >
+                  {saved ? `✓ ${t('savedCorrection')}` : status === 'saving' ? t('savingCorrection') : `+ ${t('saveCorrection')}`}
+                </button>
+              </div>
+            </div>
+          );
+        })}
       </div>
 
+      {session && (
+        <>
+          <h3 className="font-bold text-gray-600 uppercase text-xs tracking-widest mt-8 mb-4">{t('transcript')}</h3>
+          <div className="space-y-3">
+            {session.transcript.map((m, i) => (
+              <div key={i} className={`flex flex-col ${m.role === 'user' ? 'items-end' : 'items-start'}`}>
+                <div className={`max-w-[85%] p-3 rounded-2xl text-sm ${m.role === 'user' ? 'bg-pop-blue text-white rounded-se-none' : 'bg-white text-gray-800 border border-gray-200 rounded-ss-none shadow-sm'}`}>
+                  {m.text}
+                </div>
+                {m.correction && <TurnCorrectionNote correction={m.correction} nativeLang={nativeLang} />}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
       <button onClick={onClose} className="w-full bg-gray-800 text-white font-bold py-4 rounded-xl mt-8 shadow-lg">
-        {t('backMenu')}
+        {session ? t('backHistory') : t('backMenu')}
       </button>
     </div>
   );
 };
 
+// Oldest-to-newest scores as a sparkline, scaled to the fixed 0-100 range
+const ScoreTrend: React.FC<{ scores: number[] }> = ({ scores }) => {
+  const width = 280;
+  const height = 80;
+  const step = scores.length > 1 ? width / (scores.length - 1) : 0;
+  const points = scores.map((score, i) => `${i * step},${height - (score / 100) * height}`);
+
+  return (
+    <svg viewBox={`-4 -4 ${width + 8} ${height + 8}`} className="w-full h-20 text-pop-purple">
+      <polyline points={points.join(' ')} fill="none" stroke="currentColor" strokeWidth="3" strokeLinecap="round" strokeLinejoin="round" />
+      {points.map((point, i) => {
+        const [x, y] = point.split(',');
+        return <circle key={i} cx={x} cy={y} r="4" fill="currentColor" />;
+      })}
+    </svg>
+  );
+};
+
+const ScenarioHistoryView: React.FC<{
+  sessions: ScenarioSession[];
+  nativeLang: Language;
+  onOpen: (session: ScenarioSession) => void;
+  onDelete: (id: string) => void;
+  onBack: () => void;
+}> = ({ sessions, nativeLang, onOpen, onDelete, onBack }) => {
+  const t = (k: MessageKey, params?: MessageParams) => translate(nativeLang, k, params);
+  const scores = sessions.map(s => s.report.score);
+  const average = scores.length ? Math.round(scores.reduce((sum, s) => sum + s, 0) / scores.length) : 0;
+  const best = scores.length ? Math.max(...scores) : 0;
+  // Sessions are stored newest first; the chart reads left to right
+  const trend = scores.slice(0, 20).reverse();
+
+  return (
+    <div className="p-6 pb-24 pt-8 animate-fade-in">
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-3xl font-extrabold text-gray-800">{t('sessionHistory')}</h2>
+        <button onClick={onBack} className="text-sm font-bold text-gray-500">{t('backMenu')}</button>
+      </div>
+
+      {sessions.length === 0 ? (
+        <div className="text-center py-20 text-gray-400">
+          <div className="text-6xl mb-4">🎭</div>
+          <p>{t('noSessions')}</p>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-3 gap-3 mb-4">
+            {[
+              { label: t('sessionsCount'), value: sessions.length },
+              { label: t('averageScore'), value: average },
+              { label: t('bestScore'), value: best },
+            ].map(stat => (
+              <div key={stat.label} className="bg-white rounded-2xl p-3 text-center shadow-sm border border-gray-100">
+                <div className="text-2xl font-extrabold text-pop-purple">{stat.value}</div>
+                <div className="text-[10px] font-bold uppercase tracking-wider text-gray-400">{stat.label}</div>
+              </div>
+            ))}
+          </div>
+
+          {trend.length > 1 && (
+            <div className="bg-white rounded-2xl p-4 shadow-sm border border-gray-100 mb-6">
+              <div className="text-xs font-bold uppercase tracking-wider text-gray-400 mb-2">{t('scoreTrend')}</div>
+              <ScoreTrend scores={trend} />
+            </div>
+          )}
+
+          <div className="space-y-3">
+            {sessions.map(session => (
+              <div key={session.id} onClick={() => onOpen(session)} className="bg-white p-4 rounded-2xl shadow-sm border border-gray-100 cursor-pointer hover:border-pop-purple transition-colors flex items-center gap-4">
+                <div className="text-2xl font-extrabold text-pop-purple w-12 text-center">{session.report.score}</div>
+                <div className="flex-1 min-w-0">
+                  <h3 className="font-bold text-gray-800 truncate">{session.scenario.title}</h3>
+                  <p className="text-xs text-gray-500">{new Date(session.completedAt).toLocaleString(LOCALE_CODES[nativeLang])}</p>
+                </div>
+                <button
+                  onClick={(e) => { e.stopPropagation(); onDelete(session.id); }}
+                  className="text-xs text-gray-400 hover:text-red-500 font-bold"
+                >
+                  {t('deleteSession')}
+                </button>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+// 7. Settings View
+const VOICES: VoiceName[] = ['Kore', 'Puck', 'Charon'];
+const STORY_LENGTHS: StoryLength[] = ['short', 'medium', 'long'];
+
+const SettingsView: React.FC<{
+  settings: UserSettings;
+  nativeLang: Language;
+  targetLang: Language;
+  onChange: (changes: Partial<UserSettings>) => void;
+  onSwitchPair: (native: Language, target: Language) => void;
+}> = ({ settings, nativeLang, targetLang, onChange, onSwitchPair }) => {
+  const t = (k: MessageKey, params?: MessageParams) => translate(nativeLang, k, params);
+  const sectionTitle = "font-bold text-gray-400 text-xs uppercase tracking-wider mb-3";
+  const selectClass = "w-full p-3 bg-gray-50 rounded-xl border-2 border-transparent focus:border-pop-purple outline-none font-semibold text-gray-800";
+  const optionClass = (active: boolean) =>
+    `flex-1 py-2 rounded-xl text-sm font-bold transition-colors ${active ? 'bg-pop-purple text-white' : 'bg-gray-100 text-gray-600'}`;
+
+  return (
+    <div className="pb-24 px-4 pt-8 space-y-6 animate-fade-in">
+      <h2 className="text-3xl font-extrabold text-gray-800">{t('settings')}</h2>
+
+      <div className="bg-white rounded-3xl p-5 shadow-sm border border-gray-100 space-y-4">
+        <div>
+          <label className={`block ${sectionTitle}`}>{t('iSpeak')}</label>
+          <select value={nativeLang} onChange={(e) => onSwitchPair(e.target.value as Language, targetLang)} className={selectClass}>
+            {Object.values(Language).map(l => <option key={l} value={l}>{languageName(l, nativeLang)}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={`block ${sectionTitle}`}>{t('iLearn')}</label>
+          <select value={targetLang} onChange={(e) => onSwitchPair(nativeLang, e.target.value as Language)} className={selectClass}>
+            {Object.values(Language).map(l => <option key={l} value={l}>{languageName(l, nativeLang)}</option>)}
+          </select>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-3xl p-5 shadow-sm border border-gray-100">
+        <h3 className={sectionTitle}>{t('level')}</h3>
+        <div className="grid grid-cols-3 gap-2">
+          {LEVELS.map(level => (
+            <button key={level} onClick={() => onChange({ level })} className={optionClass(settings.level === level)}>
+              {level}
+              {levelLabel(level, targetLang) !== level && <span className="opacity-70 font-normal"> · {levelLabel(level, targetLang)}</span>}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-3xl p-5 shadow-sm border border-gray-100">
+        <h3 className={sectionTitle}>{t('voice')}</h3>
+        <div className="space-y-2">
+          {VOICES.map(voice => (
+            <div key={voice} className="flex items-center gap-2">
+              <button onClick={() => onChange({ voiceName: voice })} className={optionClass(settings.voiceName === voice)}>{voice}</button>
+              <AudioButton text="LingoPop!" voiceName={voice} size="sm" />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-3xl p-5 shadow-sm border border-gray-100">
+        <label className="flex items-center justify-between gap-4 cursor-pointer">
+          <div>
+            <h3 className="font-bold text-gray-800">{t('imageGeneration')}</h3>
+            <p className="text-xs text-gray-500 mt-1">{t('imageGenerationHint')}</p>
+          </div>
+          <input
+            type="checkbox"
+            checked={settings.imageGeneration}
+            onChange={(e) => onChange({ imageGeneration: e.target.checked })}
+            className="w-6 h-6 accent-pop-purple shrink-0"
+          />
+        </label>
+      </div>
+
+      <div className="bg-white rounded-3xl p-5 shadow-sm border border-gray-100">
+        <h3 className={sectionTitle}>{t('storyLength')}</h3>
+        <div className="flex gap-2">
+          {STORY_LENGTHS.map(length => (
+            <button key={length} onClick={() => onChange({ storyLength: length })} className={optionClass(settings.storyLength === length)}>
+              {t(length)}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
 // --- Main App ---
 
+// The scenario being played, kept for the tab's lifetime so /roleplay/:id survives a reload
+const ACTIVE_SCENARIO_KEY = 'lingopop-active-scenario';
+
+const loadSessionScenario = (id?: string): Scenario | null => {
+  try {
+    const scenario: Scenario | null = JSON.parse(sessionStorage.getItem(ACTIVE_SCENARIO_KEY) || 'null');
+    return scenario && scenario.id === id ? scenario : null;
+  } catch (e) {
+    return null;
+  }
+};
+
 const App: React.FC = () => {
   const [view, setView] = useState<ViewState>('onboarding');
   const [nativeLang, setNativeLang] = useState<Language>(Language.English);
@@ -632,73 +1957,417 @@ const App: React.FC = () => {
   const [savedEntries, setSavedEntries] = useState<DictEntry[]>([]);
   const [isSearching, setIsSearching] = useState(false);
   const [searchError, setSearchError] = useState<string | null>(null);
+  const [searchNotice, setSearchNotice] = useState<string | null>(null);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [queuedLookups, setQueuedLookups] = useState<QueuedLookup[]>(loadQueuedLookups);
+  // Ids of the notebook entries picked for a flashcard session; null reviews whatever is due
+  const [studySet, setStudySet] = useState<string[] | null>(null);
 
   // Scenario State
   const [activeScenario, setActiveScenario] = useState<Scenario | null>(null);
   const [scenarioReport, setScenarioReport] = useState<ScenarioReport | null>(null);
   const [reportLoading, setReportLoading] = useState(false);
+  const [sessionSaveError, setSessionSaveError] = useState<string | null>(null);
+  // A finished roleplay whose grading failed, kept so it can be graded again
+  const [ungradedSession, setUngradedSession] = useState<{ history: ChatMessage[]; objectives?: ObjectiveResult[]; error: string } | null>(null);
+  const [sessions, setSessions] = useState<ScenarioSession[]>([]);
+  const [openSession, setOpenSession] = useState<ScenarioSession | null>(null);
+
+  // Language pair that savedEntries belongs to; null until a pair is chosen
+  const [notebookPair, setNotebookPair] = useState<LanguagePair | null>(null);
+
+  const [settings, setSettings] = useState<UserSettings>(() => {
+    const initial = loadSettings() || DEFAULT_SETTINGS;
+    setPreferredVoice(initial.voiceName);
+    return initial;
+  });
+
+  // A route from the URL that hasn't been applied yet (waiting for onboarding or a lookup).
+  // While set, the address bar already shows where we're going and is left alone.
+  const pendingRouteRef = useRef<Route | null>(null);
+
+  // The entries IndexedDB holds for notebookPair, so each save writes only what changed
+  const persistedRef = useRef<{ pair: LanguagePair; entries: DictEntry[] } | null>(null);
+  // Bumped on every pair switch so a slow load can't land after a newer one
+  const notebookLoadRef = useRef(0);
+  const [storageError, setStorageError] = useState<string | null>(null);
 
   useEffect(() => {
-    const saved = localStorage.getItem('lingopop-notebook');
-    if (saved) setSavedEntries(JSON.parse(saved));
+    const persisted = persistedRef.current;
+    if (!notebookPair || !persisted || !isSamePair(persisted.pair, notebookPair) || persisted.entries === savedEntries) return;
+    persistedRef.current = { pair: notebookPair, entries: savedEntries };
+    syncNotebook(persisted.entries, savedEntries)
+      .then(() => setStorageError(null))
+      .catch(reportStorageError);
+  }, [savedEntries, notebookPair]);
+
+  // Settings are only worth keeping once onboarding has picked a language pair
+  useEffect(() => {
+    if (notebookPair) saveSettings(settings);
+  }, [settings, notebookPair]);
+
+  useEffect(() => {
+    if (activeScenario) sessionStorage.setItem(ACTIVE_SCENARIO_KEY, JSON.stringify(activeScenario));
+  }, [activeScenario]);
+
+  useEffect(() => {
+    saveQueuedLookups(queuedLookups);
+  }, [queuedLookups]);
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
   }, []);
 
+  // Lay the whole page out in the learner's language, right-to-left for Arabic
   useEffect(() => {
-    localStorage.setItem('lingopop-notebook', JSON.stringify(savedEntries));
-  }, [savedEntries]);
+    document.documentElement.lang = LOCALE_CODES[nativeLang];
+    document.documentElement.dir = textDirection(nativeLang);
+  }, [nativeLang]);
 
-  const t = (k: string) => useText(nativeLang, k);
+  // Keep the address bar in sync with what's on screen
+  useEffect(() => {
+    if (pendingRouteRef.current) return;
+    pushRoute({
+      view,
+      pair: currentEntry ? { sourceLang: currentEntry.sourceLang, targetLang: currentEntry.targetLang } : undefined,
+      term: currentEntry?.term,
+      scenarioId: activeScenario?.id,
+      sessionId: openSession?.id,
+    });
+  }, [view, currentEntry, activeScenario, openSession]);
 
-  const handleStart = (native: Language, target: Language) => {
+  const t = (k: MessageKey, params?: MessageParams) => translate(nativeLang, k, params);
+
+  const updateSettings = (changes: Partial<UserSettings>) => {
+    if (changes.voiceName) setPreferredVoice(changes.voiceName);
+    setSettings(prev => ({ ...prev, ...changes }));
+  };
+
+  const reportStorageError = (error: unknown) => {
+    console.error('Notebook storage failed:', error);
+    setStorageError(t(isQuotaError(error) ? 'storageFull' : 'storageFailed'));
+  };
+
+  const switchLanguagePair = (native: Language, target: Language) => {
+    const pair = { sourceLang: native, targetLang: target };
     setNativeLang(native);
     setTargetLang(target);
-    setView('search');
+    updateSettings(pair);
+    setSessions(loadSessions(pair));
+    setOpenSession(null);
+    setStudySet(null);
+    if (currentEntry && !isSamePair(currentEntry, pair)) setCurrentEntry(null);
+
+    // The notebook and its pair are swapped together once loaded, so a save never mixes pairs
+    const load = ++notebookLoadRef.current;
+    migrateLegacyNotebook(pair)
+      .catch(e => console.error('Notebook migration failed:', e))
+      .then(() => loadNotebook(pair))
+      .catch(error => {
+        reportStorageError(error);
+        return [] as DictEntry[];
+      })
+      .then(entries => {
+        if (load !== notebookLoadRef.current) return;
+        persistedRef.current = { pair, entries };
+        setNotebookPair(pair);
+        setSavedEntries(entries);
+      });
   };
 
-  const handleSearch = async (term: string) => {
+  const handleStart = (native: Language, target: Language) => {
+    switchLanguagePair(native, target);
+    const pending = pendingRouteRef.current;
+    if (pending) applyRoute(pending, { sourceLang: native, targetLang: target });
+    else setView('search');
+  };
+
+  // A fresh entry for `term`, with a concept image when those are switched on
+  const fetchEntry = async (term: string, pair: LanguagePair): Promise<DictEntry> => {
+    const [textData, imageUrl] = await Promise.all([
+      lookupTerm(term, pair.sourceLang, pair.targetLang, settings.level),
+      settings.imageGeneration ? generateConceptImage(term) : Promise.resolve(undefined)
+    ]);
+
+    return {
+      id: Date.now().toString(),
+      term, 
+      targetTerm: textData.targetTerm,
+      phonetic: textData.phonetic,
+      nativeDefinition: textData.nativeDefinition,
+      examples: textData.examples,
+      usageNote: textData.usageNote,
+      level: textData.level,
+      type: textData.type,
+      imageUrl,
+      createdAt: Date.now(),
+      sourceLang: pair.sourceLang,
+      targetLang: pair.targetLang
+    };
+  };
+
+  /**
+   * Looks up `term` in `pair` (the current pair by default). Resolves to
+   * whether an entry was found, so restored deep links can fall back.
+   * Without a connection the lookup is queued for when one comes back.
+   */
+  const handleSearch = async (term: string, pair: LanguagePair = { sourceLang: nativeLang, targetLang }): Promise<boolean> => {
     setIsSearching(true);
     setSearchError(null);
-    const existing = savedEntries.find(e => e.term.toLowerCase() === term.toLowerCase());
+    setSearchNotice(null);
+    // The pair may have just been switched, before savedEntries caught up
+    const entries = notebookPair && isSamePair(pair, notebookPair) ? savedEntries : await loadNotebook(pair).catch(() => []);
+    const existing = entries.find(e => termKey(e.term) === termKey(term));
     if (existing) {
       setCurrentEntry(existing);
       setView('result');
       setIsSearching(false);
-      return;
+      return true;
     }
 
     try {
-      const [textData, imageUrl] = await Promise.all([
-        lookupTerm(term, nativeLang, targetLang),
-        generateConceptImage(term)
-      ]);
-
-      const newEntry: DictEntry = {
-        id: Date.now().toString(),
-        term, 
-        targetTerm: textData.targetTerm,
-        phonetic: textData.phonetic,
-        nativeDefinition: textData.nativeDefinition,
-        examples: textData.examples,
-        usageNote: textData.usageNote,
-        imageUrl,
-        createdAt: Date.now()
-      };
-
-      setCurrentEntry(newEntry);
+      setCurrentEntry(await fetchEntry(term, pair));
       setView('result');
-    } catch (error: any) {
+      return true;
+    } catch (error) {
       console.error(error);
-      // Friendly UI error handling
-      if (error?.message?.includes('permission') || error?.code === 403) {
-        setSearchError(t('errorExtension'));
+      if (error instanceof ApiError && error.code === 'network' && !navigator.onLine) {
+        setQueuedLookups(prev => enqueueLookup(prev, term, pair));
+        setSearchNotice(t('lookupQueued', { term }));
       } else {
-        setSearchError(t('errorGeneric'));
+        setSearchError(t(errorMessageKey(error)));
       }
+      return false;
     } finally {
       setIsSearching(false);
     }
   };
 
+  /**
+   * Shows the screen for a route from the URL (initial load or back/forward).
+   * `pair` is the language pair in effect when it was just chosen this render.
+   */
+  const applyRoute = (route: Route, pair: LanguagePair | null = notebookPair) => {
+    pendingRouteRef.current = null;
+
+    if (route.view === 'onboarding') {
+      setView('onboarding');
+      return;
+    }
+
+    if (route.view === 'result' && route.pair && route.term) {
+      if (currentEntry && currentEntry.term === route.term && isSamePair(currentEntry, route.pair)) {
+        setView('result');
+        return;
+      }
+      if (!pair || !isSamePair(pair, route.pair)) {
+        switchLanguagePair(route.pair.sourceLang, route.pair.targetLang);
+      }
+      pendingRouteRef.current = route;
+      if (view === 'onboarding') setView('search');
+      handleSearch(route.term, route.pair).then(found => {
+        pendingRouteRef.current = null;
+        if (!found) pushRoute({ view: 'search' }, { replace: true });
+      });
+      return;
+    }
+
+    // Everything else needs a language pair; ask for one first
+    if (!pair) {
+      pendingRouteRef.current = route;
+      setView('onboarding');
+      return;
+    }
+
+    if (route.view === 'scenario-chat' || route.view === 'scenario-report') {
+      const scenario = activeScenario?.id === route.scenarioId
+        ? activeScenario
+        : loadSessionScenario(route.scenarioId) || loadScenarioLibrary(pair).find(s => s.id === route.scenarioId) || null;
+      const canShow = scenario && (route.view === 'scenario-chat' || scenarioReport || reportLoading || ungradedSession);
+      if (!canShow) {
+        setView('scenario-menu');
+        pushRoute({ view: 'scenario-menu' }, { replace: true });
+        return;
+      }
+      setActiveScenario(scenario);
+    }
+
+    if (route.view === 'scenario-session') {
+      const session = loadSessions(pair).find(s => s.id === route.sessionId);
+      if (!session) {
+        setView('scenario-history');
+        pushRoute({ view: 'scenario-history' }, { replace: true });
+        return;
+      }
+      setOpenSession(session);
+    }
+
+    setView(route.view);
+  };
+
+  // Restore the screen from the URL on load, and follow back/forward
+  const applyRouteRef = useRef(applyRoute);
+  applyRouteRef.current = applyRoute;
+  useEffect(() => {
+    // Returning users skip onboarding and land in their saved language pair
+    const stored = loadSettings();
+    const pair = stored ? { sourceLang: stored.sourceLang, targetLang: stored.targetLang } : null;
+    if (pair) switchLanguagePair(pair.sourceLang, pair.targetLang);
+
+    const initial = getCurrentRoute();
+    if (initial.view !== 'onboarding') applyRouteRef.current(initial, pair);
+    else if (pair) setView('search');
+    return onRouteChange(route => applyRouteRef.current(route));
+  }, []);
+
+  const handleImport = async (entries: DictEntry[]) => {
+    const current = { sourceLang: nativeLang, targetLang };
+    const result = mergeEntries(savedEntries, entries.filter(e => isSamePair(e, current)));
+    setSavedEntries(result.entries);
+    let added = result.added;
+    let duplicates = result.duplicates;
+
+    // Backups may hold entries from other language pairs; merge those into their own notebooks
+    const otherPairs = new Map<string, DictEntry[]>();
+    for (const entry of entries) {
+      if (isSamePair(entry, current)) continue;
+      const key = `${entry.sourceLang}|${entry.targetLang}`;
+      otherPairs.set(key, [...(otherPairs.get(key) || []), entry]);
+    }
+    for (const pairEntries of otherPairs.values()) {
+      const pair = { sourceLang: pairEntries[0].sourceLang, targetLang: pairEntries[0].targetLang };
+      const pairResult = mergeEntries(await loadNotebook(pair), pairEntries);
+      // mergeEntries puts the new entries first
+      await addEntries(pairResult.entries.slice(0, pairResult.added));
+      added += pairResult.added;
+      duplicates += pairResult.duplicates;
+    }
+
+    return { added, duplicates };
+  };
+
+  /**
+   * Runs lookups queued while offline, oldest first, and saves the results to
+   * their pair's notebook. Stops at the first failure that looks transient so
+   * the rest wait for the next reconnect.
+   */
+  const resolveQueuedLookups = async () => {
+    const resolved: DictEntry[] = [];
+    const finished = new Set<string>();
+    for (const queued of queuedLookups) {
+      try {
+        resolved.push(await fetchEntry(queued.term, queued));
+      } catch (error) {
+        if (error instanceof ApiError && QUEUE_RETRY_CODES.includes(error.code)) break;
+        console.error(`Dropping queued lookup "${queued.term}":`, error);
+      }
+      finished.add(queued.id);
+    }
+
+    setQueuedLookups(prev => prev.filter(l => !finished.has(l.id)));
+    if (resolved.length === 0) return;
+    // The pair may have changed while the lookups ran; merge with the latest state
+    importEntriesRef.current(resolved).catch(reportStorageError);
+    resolved.forEach(entry => preloadSpeech(entrySpeechTexts(entry)));
+    setSearchNotice(t('offlineLookupsResolved', { count: resolved.length }));
+  };
+
+  const importEntriesRef = useRef(handleImport);
+  importEntriesRef.current = handleImport;
+  const resolvingQueueRef = useRef(false);
+  useEffect(() => {
+    if (!isOnline || queuedLookups.length === 0 || resolvingQueueRef.current) return;
+    resolvingQueueRef.current = true;
+    resolveQueuedLookups().finally(() => { resolvingQueueRef.current = false; });
+  }, [isOnline]);
+
+  /**
+   * Grades a finished roleplay and adds it to the session history. If grading
+   * fails the transcript is kept, so the report screen can offer a retry.
+   */
+  const gradeScenario = async (hist: ChatMessage[], objectives?: ObjectiveResult[]) => {
+    if (!activeScenario) return;
+    setReportLoading(true);
+    setUngradedSession(null);
+    setScenarioReport(null);
+    setSessionSaveError(null);
+    setView('scenario-report');
+    let rep: ScenarioReport;
+    try {
+      rep = await evaluateScenario(hist, nativeLang, targetLang, objectives);
+      setScenarioReport(rep);
+    } catch (e) {
+      console.error(e);
+      setUngradedSession({ history: hist, objectives, error: t(errorMessageKey(e)) });
+      return;
+    } finally {
+      setReportLoading(false);
+    }
+    // The report is already on screen; a full history (e.g. out of storage) shouldn't take it away
+    try {
+      setSessions(addSession({
+        id: Date.now().toString(),
+        scenario: activeScenario,
+        sourceLang: nativeLang,
+        targetLang,
+        transcript: hist,
+        report: rep,
+        completedAt: Date.now(),
+      }));
+    } catch (e) {
+      console.error('Failed to save session:', e);
+      setSessionSaveError(t('sessionNotSaved'));
+    }
+  };
+
+  const isCorrectionSaved = (correction: Correction) =>
+    savedEntries.some(e => termKey(e.term) === termKey(correction.correction));
+
+  /**
+   * Adds a roleplay correction to the notebook. The corrected phrase goes through
+   * the normal lookup so it gets a definition and examples for flashcard review.
+   */
+  const saveCorrection = async (scenario: Scenario, correction: Correction, index: number) => {
+    const term = correction.correction.trim();
+    const textData = await lookupTerm(term, nativeLang, targetLang, settings.level);
+    const entry: DictEntry = {
+      id: `${Date.now()}-${index}`,
+      term,
+      targetTerm: textData.targetTerm,
+      phonetic: textData.phonetic,
+      nativeDefinition: textData.nativeDefinition,
+      examples: textData.examples,
+      usageNote: textData.usageNote,
+      level: textData.level,
+      type: textData.type,
+      createdAt: Date.now(),
+      sourceLang: nativeLang,
+      targetLang,
+      origin: {
+        kind: 'scenario',
+        scenarioId: scenario.id,
+        scenarioTitle: scenario.title,
+        original: correction.original,
+        explanation: correction.explanation,
+      },
+    };
+    setSavedEntries(prev => prev.some(e => termKey(e.term) === termKey(term)) ? prev : [entry, ...prev]);
+  };
+
+  const handleDeleteSession = (id: string) => {
+    setSessions(deleteSession({ sourceLang: nativeLang, targetLang }, id));
+  };
+
+  const handleReview = (id: string, review: ReviewState) => {
+    setSavedEntries(prev => prev.map(e => e.id === id ? { ...e, review } : e));
+  };
+
   const toggleSave = () => {
     if (!currentEntry) return;
     const exists = savedEntries.some(e => e.id === currentEntry.id);
@@ -706,7 +2375,66 @@ const App: React.FC = () => {
       setSavedEntries(prev => prev.filter(e => e.id !== currentEntry.id));
     } else {
       setSavedEntries(prev => [currentEntry, ...prev]);
+      requestPersistentStorage();
+      // So the word and its examples can be heard offline later
+      preloadSpeech(entrySpeechTexts(currentEntry));
+    }
+  };
+
+  // Applies `update` to the entry wherever it's held: on screen, in the notebook, or both
+  const updateEntry = (id: string, update: (entry: DictEntry) => DictEntry) => {
+    setCurrentEntry(prev => (prev?.id === id ? update(prev) : prev));
+    setSavedEntries(prev => (prev.some(e => e.id === id) ? prev.map(e => (e.id === id ? update(e) : e)) : prev));
+  };
+
+  const updateEntryTags = (tags: string[]) => {
+    if (currentEntry) updateEntry(currentEntry.id, e => ({ ...e, tags: normalizeTags(tags) }));
+  };
+
+  const editEntry = (changes: Partial<Pick<DictEntry, EditableField>>) => {
+    if (!currentEntry) return;
+    const now = Date.now();
+    updateEntry(currentEntry.id, e => reviseEntry(e, changes, 'edit', now));
+  };
+
+  const regenerateField = async (field: EditableField) => {
+    const entry = currentEntry;
+    if (!entry) return;
+    const now = Date.now();
+
+    if (field === 'imageUrl') {
+      const imageUrl = await generateConceptImage(entry.term, true);
+      if (!imageUrl) throw new Error('Image generation failed');
+      updateEntry(entry.id, e => reviseEntry(e, { imageUrl }, 'regenerate', now));
+      return;
     }
+
+    const result = await regenerateEntryField(entry, field, settings.level);
+    // New examples are added to the old ones; other fields are replaced
+    updateEntry(entry.id, e => reviseEntry(
+      e,
+      field === 'examples' ? { examples: [...e.examples, ...result.examples] } : result,
+      'regenerate',
+      now
+    ));
+    if (field === 'examples' && savedEntries.some(e => e.id === entry.id)) {
+      preloadSpeech(result.examples.map(ex => ex.text));
+    }
+  };
+
+  const undoEntryRevision = () => {
+    if (currentEntry) updateEntry(currentEntry.id, undoLastRevision);
+  };
+
+  const studyEntries = useMemo(() => {
+    if (!studySet) return savedEntries;
+    const ids = new Set(studySet);
+    return savedEntries.filter(e => ids.has(e.id));
+  }, [savedEntries, studySet]);
+
+  const startStudySet = (ids: string[]) => {
+    setStudySet(ids);
+    setView('flashcards');
   };
 
   // Nav handling
@@ -721,7 +2449,7 @@ const App: React.FC = () => {
   );
 
   if (view === 'onboarding') {
-    return <WelcomeScreen onStart={handleStart} />;
+    return <WelcomeScreen onStart={handleStart} initialNative={settings.sourceLang} initialTarget={settings.targetLang} />;
   }
 
   // Handling Full Screen Roleplay Views
@@ -730,21 +2458,42 @@ const App: React.FC = () => {
       scenario={activeScenario} 
       nativeLang={nativeLang} 
       targetLang={targetLang} 
-      onEnd={async (hist) => {
-        setReportLoading(true);
-        setView('scenario-report');
-        try {
-          const rep = await evaluateScenario(hist, nativeLang, targetLang);
-          setScenarioReport(rep);
-        } catch(e) { console.error(e); setView('scenario-menu'); }
-        finally { setReportLoading(false); }
-      }} 
+      level={settings.level}
+      inlineCorrections={settings.inlineCorrections}
+      onToggleCorrections={() => updateSettings({ inlineCorrections: !settings.inlineCorrections })}
+      onEnd={gradeScenario}
     />;
   }
 
   if (view === 'scenario-report') {
-    if (reportLoading) return <div className="flex items-center justify-center h-screen bg-pop-yellow"><h1 className="text-2xl font-bold text-white animate-pulse">Grading...</h1></div>;
-    if (scenarioReport) return <ScenarioReportView report={scenarioReport} nativeLang={nativeLang} onClose={() => setView('scenario-menu')} />;
+    if (reportLoading) return <div className="flex items-center justify-center h-screen bg-pop-yellow"><h1 className="text-2xl font-bold text-white animate-pulse">{t('grading')}</h1></div>;
+    if (ungradedSession) return (
+      <div className="flex flex-col items-center justify-center h-screen px-6 text-center gap-4 animate-fade-in">
+        <h2 className="text-2xl font-extrabold text-gray-800">{t('gradingFailed')}</h2>
+        <p className="text-sm font-bold text-red-500">{ungradedSession.error}</p>
+        <button onClick={() => gradeScenario(ungradedSession.history, ungradedSession.objectives)} className="w-full max-w-xs py-3 rounded-xl font-bold bg-pop-purple text-white">{t('retryGrading')}</button>
+        <button onClick={() => { setUngradedSession(null); setView('scenario-menu'); }} className="w-full max-w-xs py-3 rounded-xl font-bold bg-gray-100 text-gray-600">{t('backMenu')}</button>
+      </div>
+    );
+    if (scenarioReport && activeScenario) return <ScenarioReportView
+      report={scenarioReport}
+      nativeLang={nativeLang}
+      warning={sessionSaveError}
+      onClose={() => setView('scenario-menu')}
+      isCorrectionSaved={isCorrectionSaved}
+      onSaveCorrection={(c, i) => saveCorrection(activeScenario, c, i)}
+    />;
+  }
+
+  if (view === 'scenario-session' && openSession) {
+    return <ScenarioReportView
+      report={openSession.report}
+      session={openSession}
+      nativeLang={nativeLang}
+      onClose={() => setView('scenario-history')}
+      isCorrectionSaved={isCorrectionSaved}
+      onSaveCorrection={(c, i) => saveCorrection(openSession.scenario, c, i)}
+    />;
   }
 
   return (
@@ -758,6 +2507,9 @@ const App: React.FC = () => {
           nativeLang={nativeLang} 
           targetLang={targetLang}
           error={searchError}
+          notice={searchNotice}
+          isOffline={!isOnline}
+          queuedTerms={queuedLookups.filter(l => isSamePair(l, { sourceLang: nativeLang, targetLang })).map(l => l.term)}
         />
       )}
 
@@ -779,15 +2531,54 @@ const App: React.FC = () => {
             onSave={toggleSave}
             nativeLang={nativeLang}
             targetLang={targetLang}
+            onUpdateTags={savedEntries.some(e => e.id === currentEntry.id) ? updateEntryTags : undefined}
+            knownTags={collectTags(savedEntries)}
+            onEdit={editEntry}
+            onRegenerate={regenerateField}
+            onUndo={undoEntryRevision}
+            imageGeneration={settings.imageGeneration}
           />
         )}
 
         {view === 'notebook' && (
-          <NotebookView savedEntries={savedEntries} sourceLang={nativeLang} targetLang={targetLang} />
+          <NotebookView 
+            key={`${nativeLang}|${targetLang}`}
+            savedEntries={savedEntries} 
+            sourceLang={nativeLang} 
+            targetLang={targetLang} 
+            onSwitchPair={switchLanguagePair} 
+            onImport={handleImport}
+            storyLength={settings.storyLength}
+            level={settings.level}
+            storageError={storageError}
+            onOpenEntry={(entry) => {
+              setCurrentEntry(entry);
+              setView('result');
+            }}
+            onStudy={startStudySet}
+          />
         )}
 
-        {view === 'flashcards' && (
-          <FlashcardsView savedEntries={savedEntries} nativeLang={nativeLang} />
+        {/* Waits for the notebook to load: the session's queue is taken from the entries on mount */}
+        {view === 'flashcards' && notebookPair && (
+          <FlashcardsView
+            key={`${notebookPair.sourceLang}|${notebookPair.targetLang}|${studySet ? 'subset' : 'due'}`}
+            savedEntries={studyEntries}
+            nativeLang={nativeLang}
+            targetLang={targetLang}
+            onReview={handleReview}
+            onExitSubset={studySet ? () => setStudySet(null) : undefined}
+          />
+        )}
+
+        {view === 'settings' && (
+          <SettingsView
+            settings={settings}
+            nativeLang={nativeLang}
+            targetLang={targetLang}
+            onChange={updateSettings}
+            onSwitchPair={switchLanguagePair}
+          />
         )}
 
         {view === 'scenario-menu' && (
@@ -795,6 +2586,18 @@ const App: React.FC = () => {
             nativeLang={nativeLang} 
             targetLang={targetLang} 
             onSelect={(s) => { setActiveScenario(s); setView('scenario-chat'); }} 
+            onOpenHistory={() => setView('scenario-history')}
+            level={settings.level}
+          />
+        )}
+
+        {view === 'scenario-history' && (
+          <ScenarioHistoryView
+            sessions={sessions}
+            nativeLang={nativeLang}
+            onOpen={(session) => { setOpenSession(session); setView('scenario-session'); }}
+            onDelete={handleDeleteSession}
+            onBack={() => setView('scenario-menu')}
           />
         )}
       </main>
@@ -808,7 +2611,7 @@ const App: React.FC = () => {
           icon={<svg className="w-6 h-6" fill={view === 'search' || view === 'result' ? "currentColor" : "none"} stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"></path></svg>}
         />
         <NavIcon 
-          active={view === 'scenario-menu'} 
+          active={view === 'scenario-menu' || view === 'scenario-history'} 
           label={t('roleplay')} 
           onClick={() => setView('scenario-menu')}
           icon={<svg className="w-6 h-6" fill={view === 'scenario-menu' ? "currentColor" : "none"} stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M17 8h2a2 2 0 012 2v6a2 2 0 01-2 2h-2v4l-4-4H9a1.994 1.994 0 01-1.414-.586m0 0L11 14h4a2 2 0 002-2V6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2v4l.586-.586z"></path></svg>}
@@ -822,9 +2625,18 @@ const App: React.FC = () => {
         <NavIcon 
           active={view === 'flashcards'} 
           label={t('learn')} 
-          onClick={() => setView('flashcards')}
+          onClick={() => {
+            setStudySet(null);
+            setView('flashcards');
+          }}
           icon={<svg className="w-6 h-6" fill={view === 'flashcards' ? "currentColor" : "none"} stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13 10V3L4 14h7v7l9-11h-7z"></path></svg>}
         />
+        <NavIcon 
+          active={view === 'settings'} 
+          label={t('settings')} 
+          onClick={() => setView('settings')}
+          icon={<svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z"></path><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 12a3 3 0 11-6 0 3 3 0 016 0z"></path></svg>}
+        />
       </div>
     </div>
   );
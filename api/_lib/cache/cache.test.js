@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { createMemoryStore } from './memoryStore.js';
+import { createFileStore } from './fileStore.js';
+import { cacheKey } from './index.js';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('cacheKey', () => {
+  const key = (input, extra = {}) => cacheKey('lookup', { input, sourceLang: 'English', targetLang: 'German', ...extra });
+
+  it('ignores surrounding whitespace and Unicode form', () => {
+    expect(key('  guten   Tag ')).toBe(key('guten Tag'));
+    expect(key('Cafe\u0301')).toBe(key('Caf\u00e9'));
+  });
+
+  it('keeps case, and changes with every other input', () => {
+    expect(key('Essen')).not.toBe(key('essen'));
+    expect(key('Essen', { level: 'A1' })).not.toBe(key('Essen', { level: 'B2' }));
+    expect(key('Essen', { targetLang: 'Spanish' })).not.toBe(key('Essen'));
+    expect(cacheKey('tts', { input: 'Essen', voice: 'Kore' })).not.toBe(cacheKey('tts', { input: 'Essen', voice: 'Puck' }));
+  });
+});
+
+describe('memory store', () => {
+  it('evicts the least recently used entries past the entry limit', async () => {
+    const store = createMemoryStore({ maxEntries: 2, maxBytes: 1000 });
+    await store.set('a', 1, HOUR);
+    await store.set('b', 2, HOUR);
+    await store.get('a');
+    await store.set('c', 3, HOUR);
+    expect([await store.get('a'), await store.get('b'), await store.get('c')]).toEqual([1, undefined, 3]);
+  });
+
+  it('evicts past the size limit and skips values that could never fit', async () => {
+    const store = createMemoryStore({ maxEntries: 10, maxBytes: 10 });
+    await store.set('a', 'xxxx', HOUR);
+    await store.set('b', 'yyyy', HOUR);
+    await store.set('huge', 'z'.repeat(20), HOUR);
+    expect([await store.get('a'), await store.get('b'), await store.get('huge')]).toEqual([undefined, 'yyyy', undefined]);
+  });
+
+  it('expires entries after their ttl', async () => {
+    const store = createMemoryStore({ maxEntries: 10, maxBytes: 1000 });
+    await store.set('a', 1, -1);
+    expect(await store.get('a')).toBeUndefined();
+  });
+});
+
+describe('file store', () => {
+  let dir;
+  beforeEach(async () => { dir = await fs.mkdtemp(path.join(os.tmpdir(), 'lingopop-cache-test-')); });
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const files = async () => (await fs.readdir(dir)).sort();
+
+  it('reads back values until they expire', async () => {
+    const store = createFileStore({ dir, maxEntries: 10, maxBytes: 10000 });
+    await store.set('a', { text: 'hola' }, HOUR);
+    await store.set('b', 'old', -1);
+    expect(await store.get('a')).toEqual({ text: 'hola' });
+    expect(await store.get('b')).toBeUndefined();
+    expect(await files()).toEqual(['a.json']);
+  });
+
+  it('prunes the oldest files past the entry limit', async () => {
+    const store = createFileStore({ dir, maxEntries: 2, maxBytes: 10000 });
+    for (const key of ['a', 'b', 'c']) {
+      await store.set(key, key, HOUR);
+      await new Promise(r => setTimeout(r, 5)); // Distinct modification times
+    }
+    expect(await files()).toEqual(['b.json', 'c.json']);
+  });
+
+  it('prunes past the size limit', async () => {
+    const store = createFileStore({ dir, maxEntries: 10, maxBytes: 100 });
+    await store.set('a', 'x'.repeat(40), HOUR);
+    await new Promise(r => setTimeout(r, 5));
+    await store.set('b', 'y'.repeat(40), HOUR);
+    expect(await files()).toEqual(['b.json']);
+  });
+
+  it('only scans the directory on first use and when over a limit', async () => {
+    const store = createFileStore({ dir, maxEntries: 3, maxBytes: 10000 });
+    const readdir = vi.spyOn(fs, 'readdir');
+    for (const key of ['a', 'b', 'c']) await store.set(key, key, HOUR);
+    await store.set('a', 'again', HOUR); // Rewrites don't add to the count
+    expect(readdir).toHaveBeenCalledTimes(1);
+    await store.set('d', 'd', HOUR);
+    expect(readdir).toHaveBeenCalledTimes(2);
+    expect(await files()).toHaveLength(3);
+  });
+
+  it('picks up files written before it started', async () => {
+    await createFileStore({ dir, maxEntries: 10, maxBytes: 10000 }).set('a', 'a', HOUR);
+    await new Promise(r => setTimeout(r, 5));
+    const store = createFileStore({ dir, maxEntries: 1, maxBytes: 10000 });
+    expect(await store.get('a')).toBe('a');
+    await store.set('b', 'b', HOUR);
+    expect(await files()).toEqual(['b.json']);
+  });
+});
+
+describe('cached', () => {
+  afterEach(() => { vi.unstubAllEnvs(); vi.resetModules(); });
+
+  it('computes once per key and reports hits', async () => {
+    vi.stubEnv('CACHE_STORE', 'memory');
+    vi.resetModules();
+    const { cached } = await import('./index.js');
+    const compute = vi.fn(async () => 'value');
+    expect(await cached('k', compute)).toEqual({ value: 'value', hit: false });
+    expect(await cached('k', compute)).toEqual({ value: 'value', hit: true });
+    expect(compute).toHaveBeenCalledTimes(1);
+  });
+
+  it('always computes with caching off', async () => {
+    const { cached } = await import('./index.js');
+    const compute = vi.fn(async () => 'value');
+    await cached('k', compute);
+    expect(await cached('k', compute)).toEqual({ value: 'value', hit: false });
+    expect(compute).toHaveBeenCalledTimes(2);
+  });
+});
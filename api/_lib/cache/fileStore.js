@@ -0,0 +1,88 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+/**
+ * Stores one JSON file per key under `dir`, so cached responses survive
+ * restarts. An in-memory index of file sizes, built from one directory scan,
+ * tells when a write goes over the limits; only then is the directory scanned
+ * again and the least recently written files pruned.
+ */
+export function createFileStore({ dir, maxEntries, maxBytes }) {
+  const fileFor = (key) => path.join(dir, `${key}.json`);
+  let ready = null;
+  const ensureDir = () => (ready ??= fs.mkdir(dir, { recursive: true }));
+
+  // File name -> size, oldest write first
+  let index = null;
+  let indexedBytes = 0;
+
+  const scan = async () => {
+    const names = (await fs.readdir(dir)).filter(n => n.endsWith('.json'));
+    const files = await Promise.all(names.map(async name => {
+      const stat = await fs.stat(path.join(dir, name)).catch(() => null);
+      return stat && { name, size: stat.size, mtime: stat.mtimeMs };
+    }));
+    return files.filter(Boolean).sort((a, b) => a.mtime - b.mtime);
+  };
+
+  const track = (name, size) => {
+    untrack(name);
+    index.set(name, size);
+    indexedBytes += size;
+  };
+
+  const untrack = (name) => {
+    if (!index?.has(name)) return;
+    indexedBytes -= index.get(name);
+    index.delete(name);
+  };
+
+  // Rebuilds the index from disk too, since other instances may share `dir`
+  const prune = async () => {
+    const live = await scan();
+    index = new Map();
+    indexedBytes = 0;
+    let count = live.length;
+    let bytes = live.reduce((sum, f) => sum + f.size, 0);
+    for (const file of live) {
+      if (count > maxEntries || bytes > maxBytes) {
+        await fs.unlink(path.join(dir, file.name)).catch(() => {});
+        count--;
+        bytes -= file.size;
+      } else {
+        track(file.name, file.size);
+      }
+    }
+  };
+
+  const overLimit = () => index.size > maxEntries || indexedBytes > maxBytes;
+
+  return {
+    async get(key) {
+      try {
+        const { value, expiresAt } = JSON.parse(await fs.readFile(fileFor(key), 'utf8'));
+        if (expiresAt > Date.now()) return value;
+        await fs.unlink(fileFor(key)).catch(() => {});
+        untrack(`${key}.json`);
+      } catch (e) {
+        // Missing or unreadable entries are cache misses
+      }
+      return undefined;
+    },
+
+    async set(key, value, ttlMs) {
+      await ensureDir();
+      const body = JSON.stringify({ value, expiresAt: Date.now() + ttlMs });
+      if (Buffer.byteLength(body) > maxBytes) return;
+      if (!index) await prune();
+      await fs.writeFile(fileFor(key), body);
+      track(`${key}.json`, Buffer.byteLength(body));
+      if (overLimit()) await prune();
+    },
+
+    async delete(key) {
+      await fs.unlink(fileFor(key)).catch(() => {});
+      untrack(`${key}.json`);
+    },
+  };
+}
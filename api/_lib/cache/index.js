@@ -0,0 +1,81 @@
+import crypto from "crypto";
+import os from "os";
+import path from "path";
+import { createMemoryStore } from "./memoryStore.js";
+import { createFileStore } from "./fileStore.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const config = {
+  store: (process.env.CACHE_STORE || 'memory').toLowerCase(),
+  dir: process.env.CACHE_DIR || path.join(os.tmpdir(), 'lingopop-cache'),
+  ttlMs: Number(process.env.CACHE_TTL_SECONDS) * 1000 || 7 * DAY_MS,
+  maxEntries: Number(process.env.CACHE_MAX_ENTRIES) || 500,
+  maxBytes: Number(process.env.CACHE_MAX_MB) * 1024 * 1024 || 100 * 1024 * 1024,
+};
+
+const STORES = {
+  memory: createMemoryStore,
+  file: createFileStore,
+};
+
+let store;
+
+/**
+ * Returns the store selected by CACHE_STORE ("memory" by default, "file", or
+ * "none" to disable caching).
+ */
+function getStore() {
+  if (store === undefined) {
+    if (config.store === 'none') {
+      store = null;
+    } else {
+      const factory = STORES[config.store];
+      if (!factory) throw new Error(`Unknown CACHE_STORE "${config.store}"`);
+      store = factory(config);
+    }
+  }
+  return store;
+}
+
+// Surrounding whitespace and Unicode form don't change the answer. Case can
+// ("Essen" is food, "essen" is to eat), so it is kept
+const normalizeInput = (text) =>
+  String(text ?? '').normalize('NFC').trim().replace(/\s+/g, ' ');
+
+/**
+ * Builds a cache key from the endpoint and every input that affects the response.
+ */
+export function cacheKey(endpoint, { input, sourceLang, targetLang, voice, level }) {
+  const material = JSON.stringify([endpoint, normalizeInput(input), sourceLang || '', targetLang || '', voice || '', level || '']);
+  return crypto.createHash('sha256').update(material).digest('hex');
+}
+
+/**
+ * Returns `{ value, hit }`: the cached value for `key`, or a freshly computed
+ * and stored one. Cache failures never fail the caller.
+ */
+export async function cached(key, compute, ttlMs = config.ttlMs) {
+  const cache = getStore();
+  if (!cache) return { value: await compute(), hit: false };
+
+  const existing = await cache.get(key).catch((e) => {
+    console.error('Cache read failed:', e);
+    return undefined;
+  });
+  if (existing !== undefined) return { value: existing, hit: true };
+
+  const value = await compute();
+  await cache.set(key, value, ttlMs).catch((e) => console.error('Cache write failed:', e));
+  return { value, hit: false };
+}
+
+/**
+ * Like `cached`, for a whole route response: returns the value and sets
+ * `X-Cache: HIT | MISS` on the response.
+ */
+export async function withCache(res, key, compute, ttlMs = config.ttlMs) {
+  const { value, hit } = await cached(key, compute, ttlMs);
+  if (getStore()) res.setHeader('X-Cache', hit ? 'HIT' : 'MISS');
+  return value;
+}
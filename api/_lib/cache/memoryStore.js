@@ -0,0 +1,47 @@
+/**
+ * In-process LRU store. Survives only as long as the server (or warm
+ * serverless instance) does.
+ */
+export function createMemoryStore({ maxEntries, maxBytes }) {
+  // Map iteration order doubles as recency order: oldest first
+  const entries = new Map();
+  let totalBytes = 0;
+
+  const remove = (key) => {
+    const entry = entries.get(key);
+    if (!entry) return;
+    totalBytes -= entry.size;
+    entries.delete(key);
+  };
+
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      if (entry.expiresAt <= Date.now()) {
+        remove(key);
+        return undefined;
+      }
+      entries.delete(key);
+      entries.set(key, entry);
+      return entry.value;
+    },
+
+    async set(key, value, ttlMs) {
+      const size = Buffer.byteLength(JSON.stringify(value));
+      if (size > maxBytes) return;
+      remove(key);
+      entries.set(key, { value, size, expiresAt: Date.now() + ttlMs });
+      totalBytes += size;
+
+      for (const oldest of entries.keys()) {
+        if (entries.size <= maxEntries && totalBytes <= maxBytes) break;
+        remove(oldest);
+      }
+    },
+
+    async delete(key) {
+      remove(key);
+    },
+  };
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { estimateTokens, windowHistory, buildConversation } from './conversation.js';
+import { getProvider } from './providers/index.js';
+import { textFixtures } from './providers/fixtures.js';
+
+// 40 characters, so 10 tokens each
+const message = (i) => ({ role: i % 2 ? 'model' : 'user', text: `message ${String(i).padStart(2, '0')} `.padEnd(40, '.') });
+const history = (n) => Array.from({ length: n }, (_, i) => message(i));
+
+describe('estimateTokens', () => {
+  it('counts four characters per token, and one per CJK character', () => {
+    expect(estimateTokens('abcdefgh')).toBe(2);
+    expect(estimateTokens('abcde')).toBe(2);
+    expect(estimateTokens('我喜欢猫')).toBe(4);
+    expect(estimateTokens('猫 cat')).toBe(2);
+  });
+});
+
+describe('windowHistory', () => {
+  it('keeps a history that fits in the budget', () => {
+    const messages = history(5);
+    expect(windowHistory(messages, 100)).toEqual({ older: [], recent: messages });
+  });
+
+  it('moves the boundary forward to a multiple of ten messages', () => {
+    // 25 messages at 10 tokens fit from index 13 on; the boundary rounds up to 20
+    const { older, recent } = windowHistory(history(25), 120);
+    expect(older).toHaveLength(20);
+    expect(recent).toHaveLength(5);
+    expect(recent[0]).toEqual(message(20));
+  });
+
+  it('always keeps the latest message, even over budget', () => {
+    const { older, recent } = windowHistory(history(3), 1);
+    expect(older).toHaveLength(2);
+    expect(recent).toEqual([message(2)]);
+  });
+});
+
+describe('buildConversation', () => {
+  it('passes short histories through unchanged', async () => {
+    const messages = history(4);
+    expect(await buildConversation(getProvider(), { system: 'Be nice.', messages, budget: 100 })).toEqual({ system: 'Be nice.', messages });
+  });
+
+  it('folds a summary of older turns into the system instruction', async () => {
+    const { system, messages } = await buildConversation(getProvider(), { system: 'Be nice.', messages: history(25), budget: 120 });
+    expect(system).toBe(`Be nice.\n\nSummary of the earlier conversation:\n${textFixtures.summarize}`);
+    expect(messages).toHaveLength(5);
+  });
+
+  it('drops older turns without a summary when summarising fails', async () => {
+    const provider = { generateText: async () => { throw new Error('boom'); } };
+    const quiet = console.error;
+    console.error = () => {};
+    try {
+      const { system, messages } = await buildConversation(provider, { system: 'Be nice.', messages: history(12), budget: 30 });
+      expect(system).toBe('Be nice.');
+      expect(messages.length).toBeLessThan(12);
+    } finally {
+      console.error = quiet;
+    }
+  });
+});
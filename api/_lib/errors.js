@@ -0,0 +1,69 @@
+/**
+ * Error contract shared by every route. Failures are sent as
+ * `{ error, code, details? }` with the status for that code, and mirrored on
+ * the client by ApiError in services/geminiService.ts.
+ */
+export const ERROR_STATUS = {
+  validation: 400,
+  method_not_allowed: 405,
+  safety: 422,
+  quota: 429,
+  rate_limited: 429,
+  upstream: 502,
+  timeout: 504,
+  internal: 500,
+};
+
+export class ApiError extends Error {
+  constructor(code, message, details, retryAfter) {
+    super(message);
+    this.name = 'ApiError';
+    this.code = code;
+    this.status = ERROR_STATUS[code] || 500;
+    this.details = details;
+    this.retryAfter = retryAfter; // Seconds, sent as the Retry-After header
+  }
+}
+
+/**
+ * Maps provider and runtime failures onto the error contract.
+ */
+export function toApiError(error) {
+  if (error instanceof ApiError) return error;
+
+  const message = error?.message || 'Unknown error';
+  const status = error?.status ?? error?.code;
+  const text = `${status ?? ''} ${message}`;
+
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(text)) {
+    return new ApiError('quota', 'The AI service quota has been exceeded. Please try again later.');
+  }
+  if (/SAFETY|blocked|PROHIBITED_CONTENT/i.test(text)) {
+    return new ApiError('safety', 'The request was blocked by the AI safety filters.');
+  }
+  if (error?.name === 'AbortError' || error?.name === 'TimeoutError' || status === 504 || /DEADLINE_EXCEEDED|timed? ?out/i.test(text)) {
+    return new ApiError('timeout', 'The AI service took too long to respond.');
+  }
+  if (typeof status === 'number' && status >= 500) {
+    return new ApiError('upstream', 'The AI service is temporarily unavailable.');
+  }
+  return new ApiError('internal', message);
+}
+
+export function errorBody(error) {
+  const apiError = toApiError(error);
+  const body = { error: apiError.message, code: apiError.code };
+  if (apiError.details) body.details = apiError.details;
+  return body;
+}
+
+export function sendError(res, error) {
+  const apiError = toApiError(error);
+  if (apiError.code === 'internal') console.error(error);
+  if (apiError.retryAfter) res.setHeader('Retry-After', String(apiError.retryAfter));
+  return res.status(apiError.status).json(errorBody(apiError));
+}
+
+export function methodNotAllowed(res) {
+  return sendError(res, new ApiError('method_not_allowed', 'Method Not Allowed'));
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import lookup from '../lookup.js';
+import { jsonFixtures } from './providers/fixtures.js';
+
+// Just enough of Vercel's response object for the handlers
+const call = async (handler, body, method = 'POST') => {
+  const res = {
+    statusCode: 200,
+    headers: {},
+    body: undefined,
+    status(code) { this.statusCode = code; return this; },
+    json(data) { this.body = data; return this; },
+    setHeader(name, value) { this.headers[name] = value; },
+  };
+  await handler({ method, body, headers: {}, socket: {} }, res);
+  return res;
+};
+
+describe('POST /api/lookup', () => {
+  const body = { term: 'gato', sourceLang: 'English', targetLang: 'Spanish' };
+
+  it('returns a full entry', async () => {
+    const res = await call(lookup, body);
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toEqual(jsonFixtures.lookup);
+  });
+
+  it('regenerates a single field', async () => {
+    const res = await call(lookup, { ...body, field: 'examples', current: 'El gato duerme en el sofá.' });
+    expect(res.statusCode).toBe(200);
+    expect(Object.keys(res.body)).toEqual(['examples']);
+    expect(res.body.examples).toHaveLength(2);
+  });
+
+  it('rejects invalid input with the validation details', async () => {
+    const res = await call(lookup, { ...body, term: '', field: 'translation' });
+    expect(res.statusCode).toBe(400);
+    expect(res.body.code).toBe('validation');
+    expect(res.body.details.map(d => d.path)).toEqual(['term', 'field']);
+  });
+
+  it('only accepts POST', async () => {
+    expect((await call(lookup, undefined, 'GET')).statusCode).toBe(405);
+  });
+});
@@ -0,0 +1,20 @@
+// Rough equivalents on the scales learners of Japanese and Chinese actually use
+const JLPT = { A1: 'N5', A2: 'N4', B1: 'N3', B2: 'N2', C1: 'N1', C2: 'N1' };
+const HSK = { A1: 'HSK 1', A2: 'HSK 2', B1: 'HSK 3', B2: 'HSK 4', C1: 'HSK 5', C2: 'HSK 6' };
+
+/**
+ * Human-readable level for prompts, e.g. "CEFR B1 (about JLPT N3)".
+ */
+export const describeLevel = (level, targetLang) => {
+  if (targetLang === 'Japanese') return `CEFR ${level} (about JLPT ${JLPT[level]})`;
+  if (targetLang === 'Chinese (Simplified)') return `CEFR ${level} (about ${HSK[level]})`;
+  return `CEFR ${level}`;
+};
+
+/**
+ * Prompt line that keeps vocabulary and grammar within the learner's level.
+ * Empty when no level was sent.
+ */
+export const levelInstruction = (level, targetLang) => level
+  ? `The learner's ${targetLang} level is ${describeLevel(level, targetLang)}. Use vocabulary and grammar a learner at that level can follow.`
+  : '';
@@ -0,0 +1,90 @@
+// Languages written without spaces are compared character by character
+const CHARACTER_LANGUAGES = ['Chinese (Simplified)', 'Japanese'];
+
+const normalize = (token) =>
+  token.normalize('NFKC').toLowerCase().replace(/[\p{P}\p{S}]/gu, '');
+
+const tokenize = (text, language) => {
+  const raw = CHARACTER_LANGUAGES.includes(language)
+    ? Array.from(text).filter(ch => !/\s/.test(ch))
+    : text.split(/\s+/);
+  return raw
+    .map(display => ({ display, norm: normalize(display) }))
+    .filter(t => t.norm);
+};
+
+const levenshtein = (a, b) => {
+  const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let prev = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, prev + (a[i - 1] === b[j - 1] ? 0 : 1));
+      prev = current;
+    }
+  }
+  return row[b.length];
+};
+
+const similarity = (a, b) => 1 - levenshtein(a, b) / Math.max(a.length, b.length, 1);
+
+// A completely different word costs as much as one missing plus one extra word
+const substitutionCost = (a, b) => 2 * (1 - similarity(a, b));
+
+const statusFor = (accuracy) =>
+  accuracy >= 0.99 ? 'correct' : accuracy >= 0.6 ? 'close' : 'wrong';
+
+/**
+ * Aligns the transcript against the expected sentence (edit distance over
+ * words, or characters for CJK) and scores each expected word 0-1 by how
+ * closely the heard word matches. Returns the overall score out of 100.
+ */
+export function scorePronunciation(expectedText, transcript, language) {
+  const expected = tokenize(expectedText, language);
+  const heard = tokenize(transcript, language);
+  const n = expected.length;
+  const m = heard.length;
+
+  // cost[i][j]: cheapest alignment of the first i expected and j heard tokens
+  const cost = Array.from({ length: n + 1 }, (_, i) => Array.from({ length: m + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0)));
+  for (let i = 1; i <= n; i++) {
+    for (let j = 1; j <= m; j++) {
+      cost[i][j] = Math.min(
+        cost[i - 1][j] + 1,
+        cost[i][j - 1] + 1,
+        cost[i - 1][j - 1] + substitutionCost(expected[i - 1].norm, heard[j - 1].norm)
+      );
+    }
+  }
+
+  const words = [];
+  const extra = [];
+  let i = n;
+  let j = m;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0) {
+      const sim = similarity(expected[i - 1].norm, heard[j - 1].norm);
+      if (Math.abs(cost[i][j] - (cost[i - 1][j - 1] + substitutionCost(expected[i - 1].norm, heard[j - 1].norm))) < 1e-9) {
+        words.unshift({ word: expected[i - 1].display, heard: heard[j - 1].display, accuracy: sim, status: statusFor(sim) });
+        i--; j--;
+        continue;
+      }
+    }
+    if (i > 0 && (j === 0 || Math.abs(cost[i][j] - (cost[i - 1][j] + 1)) < 1e-9)) {
+      words.unshift({ word: expected[i - 1].display, heard: null, accuracy: 0, status: 'missing' });
+      i--;
+    } else {
+      extra.unshift(heard[j - 1].display);
+      j--;
+    }
+  }
+
+  const total = words.reduce((sum, w) => sum + w.accuracy, 0);
+  const score = n > 0 ? Math.round((100 * total) / n) : 0;
+  return {
+    score,
+    words: words.map(w => ({ ...w, accuracy: Math.round(w.accuracy * 100) / 100 })),
+    extra,
+  };
+}
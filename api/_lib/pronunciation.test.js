@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { scorePronunciation } from './pronunciation.js';
+
+describe('scorePronunciation', () => {
+  it('gives a perfect score when the transcript matches, ignoring case and punctuation', () => {
+    const result = scorePronunciation('El gato duerme.', 'el Gato duerme', 'Spanish');
+    expect(result.score).toBe(100);
+    expect(result.words.map(w => w.status)).toEqual(['correct', 'correct', 'correct']);
+    expect(result.extra).toEqual([]);
+  });
+
+  it('marks near misses as close and unrelated words as wrong', () => {
+    const result = scorePronunciation('el gato duerme', 'el gata xyz', 'Spanish');
+    expect(result.words.map(w => [w.word, w.heard, w.status])).toEqual([
+      ['el', 'el', 'correct'],
+      ['gato', 'gata', 'close'],
+      ['duerme', 'xyz', 'wrong'],
+    ]);
+    expect(result.score).toBeGreaterThan(33);
+    expect(result.score).toBeLessThan(100);
+  });
+
+  it('reports missing and extra words', () => {
+    const result = scorePronunciation('mi gato se llama Luna', 'mi gato um se llama', 'Spanish');
+    expect(result.words.find(w => w.word === 'Luna')).toMatchObject({ heard: null, status: 'missing', accuracy: 0 });
+    expect(result.extra).toEqual(['um']);
+    expect(result.score).toBe(80);
+  });
+
+  it('compares Chinese and Japanese character by character', () => {
+    const result = scorePronunciation('我喜欢猫', '我喜欢狗', 'Chinese (Simplified)');
+    expect(result.words).toHaveLength(4);
+    expect(result.words[3]).toMatchObject({ word: '猫', heard: '狗', status: 'wrong' });
+    expect(result.score).toBe(75);
+  });
+
+  it('scores zero for an empty sentence', () => {
+    expect(scorePronunciation('', 'hola', 'Spanish').score).toBe(0);
+  });
+});
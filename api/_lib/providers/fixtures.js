@@ -0,0 +1,75 @@
+/**
+ * Canned responses for the mock provider, keyed by the `task` each handler
+ * passes. JSON fixtures may be functions of the request `context`. Tasks
+ * without a fixture fall back to values derived from the schema.
+ */
+export const textFixtures = {
+  chat: "Great question! This term is used in everyday conversation, usually in a casual tone. Try using it in a sentence of your own.",
+  'scenario-chat': "¡Hola! Claro, con mucho gusto. ¿Qué le gustaría pedir?",
+  summarize: "The learner has been practising greetings and ordering food, and is getting more confident.",
+  story: "On a sunny morning, a curious *gato* found a tiny *libro* under the table and decided to read it aloud to the *perro*.",
+};
+
+export const jsonFixtures = {
+  lookup: {
+    targetTerm: "gato",
+    phonetic: "ˈɡa.to",
+    nativeDefinition: "Cat; a small domesticated feline.",
+    examples: [
+      { text: "El gato duerme en el sofá.", phonetic: "el ˈɡa.to ˈdweɾ.me en el soˈfa", translation: "The cat sleeps on the sofa." },
+      { text: "Mi gato se llama Luna.", phonetic: "mi ˈɡa.to se ˈʎa.ma ˈlu.na", translation: "My cat is called Luna." },
+    ],
+    usageNote: "Use \"gata\" for a female cat. \"Dar gato por liebre\" means to rip someone off!",
+    level: "A1",
+    type: "word",
+  },
+  // The requested part of the lookup fixture, with fresh examples so "more examples" visibly adds some
+  'lookup-field': ({ field }) => ({
+    [field]: field === 'examples'
+      ? [
+          { text: "El gato de mi vecina es muy curioso.", phonetic: "el ˈɡa.to ðe mi βeˈθi.na es ˈmuj kuˈɾjo.so", translation: "My neighbour's cat is very curious." },
+          { text: "¿Has visto al gato?", phonetic: "as ˈβis.to al ˈɡa.to", translation: "Have you seen the cat?" },
+        ]
+      : jsonFixtures.lookup[field],
+  }),
+  'scenario-generate': {
+    scenarios: [
+      { id: "mock-office", title: "Coffee with your new boss", description: "It's your first day and your manager invites you for a coffee.", openingLine: "¡Bienvenido! ¿Qué tal tu primer día?", persona: "Your cheerful new manager", setting: "An office café on a Monday morning", objectives: ["Introduce yourself", "Order a drink", "Ask about the team"] },
+      { id: "mock-travel", title: "Lost at the train station", description: "Your train was cancelled and you need to find another way to the city.", openingLine: "Buenos días, ¿en qué puedo ayudarle?", persona: "A patient ticket-office clerk", setting: "A busy train station at rush hour", objectives: ["Explain your problem", "Ask for another route"] },
+      { id: "mock-funny", title: "The wrong order", description: "The waiter brought you a giant octopus instead of a salad.", openingLine: "¡Aquí tiene su pulpo gigante! ¡Buen provecho!", persona: "An overly proud waiter", setting: "A seaside restaurant at lunchtime", objectives: ["Politely refuse the octopus", "Ask for the salad", "Ask for the bill"] },
+    ],
+  },
+  // Hears the expected sentence perfectly, so scoring can be exercised offline
+  pronounce: ({ expectedText = '' }) => ({
+    transcript: expectedText,
+    feedback: "Sounds great! Keep your vowels short and crisp.",
+  }),
+  // Each learner turn ticks off the next objective, so the checklist can be watched filling up
+  'scenario-objectives': ({ history = [], objectives = [] }) => ({
+    completed: objectives.map((_, i) => i).slice(0, history.filter(h => h.role === 'user').length),
+  }),
+  // Flags messages that don't start with a capital and end with punctuation
+  'scenario-correction': ({ message = '' }) => {
+    const corrected = message.charAt(0).toUpperCase() + message.slice(1) + (/[.!?]$/.test(message) ? '' : '.');
+    const isCorrect = corrected === message;
+    return {
+      isCorrect,
+      corrected,
+      explanation: isCorrect ? '' : "Start the sentence with a capital letter and end it with punctuation.",
+    };
+  },
+  'scenario-suggest': {
+    suggestions: [
+      { text: "Un café con leche, por favor.", translation: "A latte, please." },
+      { text: "¿Qué me recomienda?", translation: "What do you recommend?" },
+      { text: "Solo un vaso de agua, gracias.", translation: "Just a glass of water, thanks." },
+    ],
+  },
+  'scenario-evaluate': {
+    score: 78,
+    feedback: "Nice job keeping the conversation going! Watch your verb endings.",
+    corrections: [
+      { original: "Yo quiero un café, por favor, gracias", correction: "Quisiera un café, por favor.", explanation: "\"Quisiera\" sounds more polite when ordering." },
+    ],
+  },
+};
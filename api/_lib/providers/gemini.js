@@ -0,0 +1,111 @@
+import { GoogleGenAI, Modality } from "@google/genai";
+import { ApiError } from "../errors.js";
+
+const MODELS = {
+  text: process.env.GEMINI_TEXT_MODEL || "gemini-2.5-flash",
+  image: process.env.GEMINI_IMAGE_MODEL || "gemini-2.5-flash-image",
+  tts: process.env.GEMINI_TTS_MODEL || "gemini-2.5-flash-preview-tts",
+};
+
+const TIMEOUT_MS = Number(process.env.GEMINI_TIMEOUT_MS) || 30000;
+
+// Blocked prompts and responses come back as empty successes rather than errors
+const assertNotBlocked = (response) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII'].includes(finishReason)) {
+    throw new ApiError('safety', 'The request was blocked by the AI safety filters.', { reason: blockReason || finishReason });
+  }
+  return response;
+};
+
+// Gemini wants alternating turns that open with the user; roleplays open with the model
+const toContents = (messages) => {
+  const contents = [];
+  for (const { role, text } of messages) {
+    const last = contents[contents.length - 1];
+    if (last?.role === role) last.parts.push({ text });
+    else contents.push({ role, parts: [{ text }] });
+  }
+  if (contents[0]?.role === 'model') contents.unshift({ role: 'user', parts: [{ text: '(The conversation begins.)' }] });
+  return contents;
+};
+
+// Either a single `prompt`, or a `system` instruction plus multi-turn `messages`
+const textRequest = ({ prompt, system, messages }) => ({
+  model: MODELS.text,
+  contents: messages ? toContents(messages) : { parts: [{ text: prompt }] },
+  ...(system ? { config: { systemInstruction: system } } : {}),
+});
+
+export function createGeminiProvider() {
+  const ai = new GoogleGenAI({
+    apiKey: process.env.GEMINI_API_KEY,
+    httpOptions: { timeout: TIMEOUT_MS },
+  });
+
+  return {
+    name: 'gemini',
+
+    async generateText(request) {
+      const response = assertNotBlocked(await ai.models.generateContent(textRequest(request)));
+      return response.text;
+    },
+
+    // Resolves once the model has accepted the request, so setup errors surface before streaming starts
+    async streamText(request) {
+      const stream = await ai.models.generateContentStream(textRequest(request));
+      return (async function* () {
+        for await (const chunk of stream) {
+          assertNotBlocked(chunk);
+          if (chunk.text) yield chunk.text;
+        }
+      })();
+    },
+
+    async generateJSON({ prompt, schema, media = [] }) {
+      const response = assertNotBlocked(await ai.models.generateContent({
+        model: MODELS.text,
+        contents: { parts: [...media.map(inlineData => ({ inlineData })), { text: prompt }] },
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: schema,
+        },
+      }));
+      return JSON.parse(response.text);
+    },
+
+    async generateImage({ prompt }) {
+      const response = assertNotBlocked(await ai.models.generateContent({
+        model: MODELS.image,
+        contents: { parts: [{ text: prompt }] },
+      }));
+
+      const parts = response.candidates?.[0]?.content?.parts || [];
+      const image = parts.find(part => part.inlineData);
+      if (!image) throw new Error("No image generated");
+
+      return { mimeType: image.inlineData.mimeType, data: image.inlineData.data };
+    },
+
+    // Returns base64 16-bit mono PCM at 24kHz
+    async generateSpeech({ text, voiceName }) {
+      const response = assertNotBlocked(await ai.models.generateContent({
+        model: MODELS.tts,
+        contents: [{ parts: [{ text }] }],
+        config: {
+          responseModalities: [Modality.AUDIO],
+          speechConfig: {
+            voiceConfig: {
+              prebuiltVoiceConfig: { voiceName },
+            },
+          },
+        },
+      }));
+
+      const audioData = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+      if (!audioData) throw new Error("No audio returned");
+      return audioData;
+    },
+  };
+}
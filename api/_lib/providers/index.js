@@ -0,0 +1,40 @@
+import { createGeminiProvider } from "./gemini.js";
+import { createMockProvider } from "./mock.js";
+import { meterProvider } from "../rateLimit.js";
+
+/**
+ * A provider exposes:
+ *   generateText({ task, prompt })          -> string
+ *   generateText({ task, system, messages })
+ *   streamText(same as generateText)        -> async iterable of text deltas
+ *   generateJSON({ task, prompt, schema, media?, context? })
+ *                                           -> parsed object matching schema
+ *   generateImage({ task, prompt })         -> { mimeType, data } (base64)
+ *   generateSpeech({ text, voiceName })     -> base64 16-bit PCM, 24kHz mono
+ * `task` names the calling feature (e.g. "lookup") so providers can route or mock per use.
+ * `messages` is a multi-turn conversation of `{ role: 'user' | 'model', text }`, with
+ * `system` as the instruction that frames it; use it instead of pasting user text into a prompt.
+ * `media` is a list of `{ mimeType, data }` (base64) attachments such as recorded audio.
+ * `context` carries the structured request fields behind the prompt, for providers
+ * (like the mock) that answer without reading it.
+ */
+const PROVIDERS = {
+  gemini: createGeminiProvider,
+  mock: createMockProvider,
+};
+
+let provider = null;
+
+/**
+ * Returns the provider selected by LLM_PROVIDER ("gemini" by default), with
+ * each call charged to the daily cost ceiling.
+ */
+export function getProvider() {
+  if (!provider) {
+    const name = (process.env.LLM_PROVIDER || 'gemini').toLowerCase();
+    const factory = PROVIDERS[name];
+    if (!factory) throw new Error(`Unknown LLM_PROVIDER "${name}"`);
+    provider = meterProvider(factory());
+  }
+  return provider;
+}
@@ -0,0 +1,89 @@
+import { Type } from "../schema.js";
+import { textFixtures, jsonFixtures } from "./fixtures.js";
+
+const SAMPLE_RATE = 24000;
+
+// Small stable hash so the same input always yields the same output
+const hash = (text) => {
+  let h = 0;
+  for (let i = 0; i < text.length; i++) h = (h * 31 + text.charCodeAt(i)) | 0;
+  return Math.abs(h);
+};
+
+const fromSchema = (schema, key = 'value') => {
+  switch (schema?.type) {
+    case Type.OBJECT:
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([k, s]) => [k, fromSchema(s, k)])
+      );
+    case Type.ARRAY:
+      return [fromSchema(schema.items, key), fromSchema(schema.items, key)];
+    case Type.NUMBER:
+    case Type.INTEGER:
+      return 50;
+    case Type.BOOLEAN:
+      return false;
+    default:
+      return `mock ${key}`;
+  }
+};
+
+const placeholderSvg = (seed) => {
+  const hue = seed % 360;
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="512" height="512" viewBox="0 0 512 512">` +
+    `<rect width="512" height="512" fill="hsl(${hue},80%,85%)"/>` +
+    `<circle cx="256" cy="256" r="140" fill="hsl(${(hue + 180) % 360},70%,60%)"/>` +
+    `</svg>`;
+};
+
+// A short sine tone whose length grows with the text, as base64 16-bit PCM
+const toneFor = (text) => {
+  const seconds = Math.min(3, 0.3 + text.length * 0.04);
+  const samples = Math.floor(SAMPLE_RATE * seconds);
+  const pcm = Buffer.alloc(samples * 2);
+  const freq = 330 + (hash(text) % 220);
+  for (let i = 0; i < samples; i++) {
+    pcm.writeInt16LE(Math.round(Math.sin((2 * Math.PI * freq * i) / SAMPLE_RATE) * 8000), i * 2);
+  }
+  return pcm.toString('base64');
+};
+
+/**
+ * Deterministic offline provider for development and tests. Needs no network
+ * or API key; responses come from fixtures.js or are derived from the request.
+ */
+export function createMockProvider() {
+  const textFor = (task) => textFixtures[task] || `Mock response for ${task || 'text'}.`;
+
+  return {
+    name: 'mock',
+
+    async generateText({ task }) {
+      return textFor(task);
+    },
+
+    async streamText({ task }) {
+      const words = textFor(task).split(/(?<= )/);
+      return (async function* () {
+        for (const word of words) yield word;
+      })();
+    },
+
+    async generateJSON({ task, schema, context = {} }) {
+      const fixture = jsonFixtures[task];
+      if (typeof fixture === 'function') return fixture(context);
+      return fixture ? structuredClone(fixture) : fromSchema(schema);
+    },
+
+    async generateImage({ prompt }) {
+      return {
+        mimeType: 'image/svg+xml',
+        data: Buffer.from(placeholderSvg(hash(prompt))).toString('base64'),
+      };
+    },
+
+    async generateSpeech({ text }) {
+      return toneFor(text);
+    },
+  };
+}
@@ -0,0 +1,135 @@
+import { ApiError } from "./errors.js";
+
+const MINUTE_MS = 60 * 1000;
+
+// Requests per client per minute, by route
+const DEFAULT_LIMITS = {
+  lookup: 30,
+  image: 10,
+  tts: 40,
+  chat: 20,
+  scenario: 30,
+  story: 5,
+  pronounce: 20,
+};
+
+// Relative cost of one model call, counted against the daily ceiling. Calls
+// with attached media (recorded audio) cost double
+const CALL_COST = {
+  generateText: 1,
+  streamText: 1,
+  generateJSON: 1,
+  generateImage: 5,
+  generateSpeech: 1,
+};
+
+const parseLimits = () => {
+  try {
+    return { ...DEFAULT_LIMITS, ...JSON.parse(process.env.RATE_LIMITS || '{}') };
+  } catch (e) {
+    console.error('Ignoring invalid RATE_LIMITS:', e);
+    return DEFAULT_LIMITS;
+  }
+};
+
+const limits = parseLimits();
+const dailyCeiling = Number(process.env.DAILY_COST_CEILING) || 5000;
+const enabled = process.env.RATE_LIMIT !== 'off';
+
+// Counters live in memory, so each server instance enforces its own budget and
+// a cold start resets it. The daily ceiling is therefore best effort: N warm
+// instances allow N times the ceiling. A hard cap on spend belongs with the
+// model provider's own budget or quota settings
+const windows = new Map();
+let daily = { day: '', cost: 0 };
+
+const clientIp = (req) => {
+  const forwarded = req.headers?.['x-forwarded-for'];
+  if (forwarded) return String(forwarded).split(',')[0].trim();
+  return req.socket?.remoteAddress || 'unknown';
+};
+
+// Fixed one-minute windows; returns seconds until the window resets if over budget
+const consume = (key, limit, now) => {
+  let window = windows.get(key);
+  if (!window || window.resetAt <= now) {
+    window = { count: 0, resetAt: now + MINUTE_MS };
+    windows.set(key, window);
+  }
+  if (window.count >= limit) return Math.ceil((window.resetAt - now) / 1000);
+  window.count++;
+  return 0;
+};
+
+const pruneWindows = (now) => {
+  if (windows.size < 10000) return;
+  for (const [key, window] of windows) {
+    if (window.resetAt <= now) windows.delete(key);
+  }
+};
+
+const secondsUntilUtcMidnight = (now) => {
+  const midnight = new Date(now);
+  midnight.setUTCHours(24, 0, 0, 0);
+  return Math.ceil((midnight.getTime() - now) / 1000);
+};
+
+const spentToday = (now) => {
+  const today = new Date(now).toISOString().slice(0, 10);
+  if (daily.day !== today) daily = { day: today, cost: 0 };
+  return daily.cost;
+};
+
+const dailyLimitError = (now) =>
+  new ApiError('quota', 'The daily usage limit has been reached. Please come back tomorrow.', undefined, secondsUntilUtcMidnight(now));
+
+// Charges `cost` to today's budget, or throws if it would go over the ceiling
+const chargeDaily = (cost, now) => {
+  if (spentToday(now) + cost > dailyCeiling) throw dailyLimitError(now);
+  daily.cost += cost;
+};
+
+/**
+ * Counts one request on `route` against the caller, throwing a 429 ApiError
+ * with `retryAfter` (seconds) when the client's per-minute budget or this
+ * instance's daily cost ceiling is exhausted. Clients are limited by IP, and
+ * also by the `X-Client-Id` session header when sent; the header can only
+ * narrow the limit, since anyone can make up a new one.
+ */
+export function enforceRateLimit(req, route) {
+  if (!enabled) return;
+  const now = Date.now();
+  pruneWindows(now);
+  if (spentToday(now) >= dailyCeiling) throw dailyLimitError(now);
+
+  const limit = limits[route] || 30;
+  const ip = clientIp(req);
+  const token = req.headers?.['x-client-id'];
+
+  const retryAfter = Math.max(
+    consume(`ip:${ip}:${route}`, limit, now),
+    token ? consume(`token:${token}:${route}`, limit, now) : 0
+  );
+  if (retryAfter > 0) {
+    throw new ApiError('rate_limited', 'Too many requests. Please slow down.', undefined, retryAfter);
+  }
+}
+
+/**
+ * Wraps a provider so each model call is charged to the daily ceiling before
+ * it is made. One request can make several calls (a roleplay turn may also
+ * correct the message, check objectives and summarise history), and cached
+ * responses make none.
+ */
+export function meterProvider(provider) {
+  if (!enabled) return provider;
+  const metered = { ...provider };
+  for (const [method, cost] of Object.entries(CALL_COST)) {
+    if (typeof provider[method] !== 'function') continue;
+    metered[method] = (options) => {
+      chargeDaily(options?.media?.length ? cost * 2 : cost, Date.now());
+      return provider[method](options);
+    };
+  }
+  return metered;
+}
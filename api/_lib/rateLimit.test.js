@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+// Limits are read when the module loads, so each test loads a fresh copy
+const load = async (env = {}) => {
+  vi.stubEnv('RATE_LIMIT', '');
+  for (const [name, value] of Object.entries(env)) vi.stubEnv(name, value);
+  vi.resetModules();
+  return import('./rateLimit.js');
+};
+
+const request = (ip, clientId) => ({ headers: { 'x-forwarded-for': ip, ...(clientId && { 'x-client-id': clientId }) } });
+
+const errorOf = (fn) => {
+  try {
+    fn();
+  } catch (error) {
+    return error;
+  }
+  return undefined;
+};
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.resetModules();
+});
+
+describe('enforceRateLimit', () => {
+  it('limits each address per route and says when to retry', async () => {
+    const { enforceRateLimit } = await load({ RATE_LIMITS: '{"lookup": 2}' });
+    enforceRateLimit(request('1.1.1.1'), 'lookup');
+    enforceRateLimit(request('1.1.1.1'), 'lookup');
+    const error = errorOf(() => enforceRateLimit(request('1.1.1.1'), 'lookup'));
+    expect(error).toMatchObject({ code: 'rate_limited', status: 429 });
+    expect(error.retryAfter).toBeGreaterThan(0);
+    expect(error.retryAfter).toBeLessThanOrEqual(60);
+
+    expect(errorOf(() => enforceRateLimit(request('2.2.2.2'), 'lookup'))).toBeUndefined();
+    expect(errorOf(() => enforceRateLimit(request('1.1.1.1'), 'chat'))).toBeUndefined();
+  });
+
+  it('does not raise the address limit for made-up client ids', async () => {
+    const { enforceRateLimit } = await load({ RATE_LIMITS: '{"lookup": 2}' });
+    enforceRateLimit(request('1.1.1.1', 'a'), 'lookup');
+    enforceRateLimit(request('1.1.1.1', 'b'), 'lookup');
+    expect(errorOf(() => enforceRateLimit(request('1.1.1.1', 'c'), 'lookup'))).toMatchObject({ code: 'rate_limited' });
+  });
+
+  it('also limits a client id across addresses', async () => {
+    const { enforceRateLimit } = await load({ RATE_LIMITS: '{"lookup": 2}' });
+    enforceRateLimit(request('1.1.1.1', 'a'), 'lookup');
+    enforceRateLimit(request('2.2.2.2', 'a'), 'lookup');
+    expect(errorOf(() => enforceRateLimit(request('3.3.3.3', 'a'), 'lookup'))).toMatchObject({ code: 'rate_limited' });
+  });
+
+  it('does nothing when turned off', async () => {
+    const { enforceRateLimit, meterProvider } = await load({ RATE_LIMIT: 'off', RATE_LIMITS: '{"lookup": 1}' });
+    enforceRateLimit(request('1.1.1.1'), 'lookup');
+    expect(errorOf(() => enforceRateLimit(request('1.1.1.1'), 'lookup'))).toBeUndefined();
+    const provider = { generateText: async () => 'hi' };
+    expect(meterProvider(provider)).toBe(provider);
+  });
+});
+
+describe('daily cost ceiling', () => {
+  const provider = {
+    generateText: async () => 'text',
+    generateJSON: async () => ({}),
+    generateImage: async () => ({ mimeType: 'image/png', data: '' }),
+  };
+
+  it('charges each model call by its cost', async () => {
+    const { meterProvider, enforceRateLimit } = await load({ DAILY_COST_CEILING: '8' });
+    const metered = meterProvider(provider);
+    await metered.generateImage({ prompt: 'cat' }); // 5
+    await metered.generateJSON({ media: [{ mimeType: 'audio/webm', data: 'AA' }] }); // 2
+    await metered.generateText({}); // 1
+    const error = errorOf(() => metered.generateText({}));
+    expect(error).toMatchObject({ code: 'quota', status: 429 });
+    expect(error.retryAfter).toBeGreaterThan(0);
+    expect(errorOf(() => enforceRateLimit(request('9.9.9.9'), 'lookup'))).toMatchObject({ code: 'quota' });
+  });
+
+  it('refuses a call that would go over, but allows cheaper ones', async () => {
+    const { meterProvider } = await load({ DAILY_COST_CEILING: '4' });
+    const metered = meterProvider(provider);
+    expect(errorOf(() => metered.generateImage({}))).toMatchObject({ code: 'quota' });
+    await expect(metered.generateText({})).resolves.toBe('text');
+  });
+
+  it('charges every call a roleplay turn makes', async () => {
+    const { enforceRateLimit } = await load({ DAILY_COST_CEILING: '3' });
+    const { default: scenario } = await import('../scenario.js');
+    const body = {
+      action: 'chat',
+      history: [{ role: 'user', text: 'Quiero un café' }],
+      scenario: { title: 'Café', description: 'Order a coffee', objectives: ['Order a drink'] },
+      targetLang: 'Spanish',
+      correctIn: 'English',
+    };
+    const res = { status() { return this; }, json(data) { this.body = data; return this; }, setHeader() {} };
+    await scenario({ method: 'POST', body, headers: {}, socket: { remoteAddress: '1.1.1.1' } }, res);
+    expect(res.body.reply).toBeTruthy();
+
+    // Reply, correction and objective check used up the ceiling
+    expect(errorOf(() => enforceRateLimit(request('2.2.2.2'), 'scenario'))).toMatchObject({ code: 'quota' });
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import scenario from '../scenario.js';
+import { getProvider } from './providers/index.js';
+import { jsonFixtures } from './providers/fixtures.js';
+
+const call = async (body) => {
+  const res = {
+    statusCode: 200,
+    status(code) { this.statusCode = code; return this; },
+    json(data) { this.body = data; return this; },
+    setHeader() {},
+  };
+  await scenario({ method: 'POST', body, headers: {}, socket: {} }, res);
+  return res;
+};
+
+const generate = () => call({ action: 'generate', sourceLang: 'English', targetLang: 'Spanish' });
+
+afterEach(() => { vi.restoreAllMocks(); });
+
+describe('scenario generation', () => {
+  it('returns the generated scenarios', async () => {
+    const res = await generate();
+    expect(res.statusCode).toBe(200);
+    expect(res.body.scenarios).toEqual(jsonFixtures['scenario-generate'].scenarios);
+  });
+
+  it('cuts generated scenarios to what chat accepts', async () => {
+    vi.spyOn(getProvider(), 'generateJSON').mockResolvedValueOnce({
+      scenarios: [
+        {
+          id: 'long', title: 'T'.repeat(250), description: ' A café. ', openingLine: '¡Hola!', persona: '  ', setting: 42,
+          objectives: ['one', ' ', 'x'.repeat(300), 'four', 'five', 'six', 'seven', 'eight'],
+        },
+        { id: 'untitled', title: '', description: 'No title', openingLine: '¡Hola!', objectives: [] },
+      ],
+    });
+    const { scenarios } = (await generate()).body;
+    expect(scenarios).toHaveLength(1);
+    const [fitted] = scenarios;
+    expect(fitted.title).toHaveLength(200);
+    expect(fitted.description).toBe('A café.');
+    expect(fitted).not.toHaveProperty('persona');
+    expect(fitted).not.toHaveProperty('setting');
+    expect(fitted.objectives).toEqual(['one', 'x'.repeat(200), 'four', 'five', 'six', 'seven']);
+
+    // The fitted scenario passes the chat schema
+    const res = await call({ action: 'chat', history: [{ role: 'user', text: 'Hola' }], scenario: fitted, targetLang: 'Spanish' });
+    expect(res.statusCode).toBe(200);
+  });
+});
@@ -0,0 +1,13 @@
+/**
+ * Provider-neutral names for response schema types. The values match the
+ * Gemini SDK's `Type` enum, so schemas pass through to Gemini unchanged and
+ * other providers can walk them without depending on @google/genai.
+ */
+export const Type = {
+  OBJECT: 'OBJECT',
+  ARRAY: 'ARRAY',
+  STRING: 'STRING',
+  NUMBER: 'NUMBER',
+  INTEGER: 'INTEGER',
+  BOOLEAN: 'BOOLEAN',
+};
@@ -0,0 +1,36 @@
+import { errorBody } from "./errors.js";
+
+/**
+ * Writes a provider text stream to the response as server-sent events.
+ * Each event carries `{ text }` with the next delta; the stream ends with
+ * `{ done: true }`, or `{ error, code }` if generation fails part-way.
+ * `finish(fullText)` may return extra fields to send with the done event.
+ */
+export async function pipeTextStream(res, stream, { finish } = {}) {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+  });
+
+  // Stop pulling from the model once the client has gone away
+  let closed = false;
+  res.on('close', () => { closed = true; });
+
+  const send = (payload) => res.write(`data: ${JSON.stringify(payload)}\n\n`);
+
+  let fullText = '';
+  try {
+    for await (const text of stream) {
+      if (closed) break;
+      if (text) {
+        fullText += text;
+        send({ text });
+      }
+    }
+    if (!closed) send({ done: true, ...(finish ? await finish(fullText) : {}) });
+  } catch (error) {
+    if (!closed) send(errorBody(error));
+  }
+  res.end();
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { EventEmitter } from 'events';
+import { pipeTextStream } from './sse.js';
+
+// A response that records what was written and parses the events back
+const fakeResponse = () => {
+  const res = new EventEmitter();
+  res.chunks = [];
+  res.ended = false;
+  res.writeHead = (status, headers) => { res.status = status; res.headers = headers; };
+  res.write = (chunk) => { res.chunks.push(chunk); };
+  res.end = () => { res.ended = true; };
+  res.events = () => res.chunks.map(chunk => {
+    expect(chunk).toMatch(/^data: .*\n\n$/);
+    return JSON.parse(chunk.slice(6));
+  });
+  return res;
+};
+
+async function* streamOf(parts, { onPull, failAfter } = {}) {
+  for (const [i, part] of parts.entries()) {
+    onPull?.(i);
+    if (i === failAfter) throw new Error('RESOURCE_EXHAUSTED');
+    yield part;
+  }
+}
+
+describe('pipeTextStream', () => {
+  it('sends each delta, then a done event', async () => {
+    const res = fakeResponse();
+    await pipeTextStream(res, streamOf(['Hola', '', ' mundo']));
+    expect(res.status).toBe(200);
+    expect(res.headers['Content-Type']).toMatch(/^text\/event-stream/);
+    expect(res.events()).toEqual([{ text: 'Hola' }, { text: ' mundo' }, { done: true }]);
+    expect(res.ended).toBe(true);
+  });
+
+  it('adds the fields from finish to the done event', async () => {
+    const res = fakeResponse();
+    let seen;
+    await pipeTextStream(res, streamOf(['Hola', ' mundo']), { finish: async (text) => { seen = text; return { completedObjectives: [0] }; } });
+    expect(seen).toBe('Hola mundo');
+    expect(res.events().at(-1)).toEqual({ done: true, completedObjectives: [0] });
+  });
+
+  it('ends with an error event when generation fails part-way', async () => {
+    const res = fakeResponse();
+    await pipeTextStream(res, streamOf(['Hola', ' mundo'], { failAfter: 1 }));
+    expect(res.events()).toEqual([
+      { text: 'Hola' },
+      { error: 'The AI service quota has been exceeded. Please try again later.', code: 'quota' },
+    ]);
+    expect(res.ended).toBe(true);
+  });
+
+  it('stops pulling from the model once the client disconnects', async () => {
+    const res = fakeResponse();
+    const pulled = [];
+    let finished = false;
+    await pipeTextStream(res, streamOf(['a', 'b', 'c', 'd'], {
+      onPull: (i) => { pulled.push(i); if (i === 1) res.emit('close'); },
+    }), { finish: () => { finished = true; return {}; } });
+    expect(pulled).toEqual([0, 1]);
+    expect(res.events()).toEqual([{ text: 'a' }]);
+    expect(finished).toBe(false);
+    expect(res.ended).toBe(true);
+  });
+});
@@ -0,0 +1,115 @@
+import { ApiError } from "./errors.js";
+
+// Mirrors the Language enum in types.ts
+export const LANGUAGES = [
+  'English',
+  'Chinese (Simplified)',
+  'Spanish',
+  'French',
+  'German',
+  'Japanese',
+  'Korean',
+  'Portuguese',
+  'Russian',
+  'Arabic',
+];
+
+export const VOICES = ['Kore', 'Puck', 'Charon'];
+
+// CEFR levels; mirrors ProficiencyLevel in types.ts
+export const LEVELS = ['A1', 'A2', 'B1', 'B2', 'C1', 'C2'];
+
+/**
+ * Tiny schema builders. Each returns a checker `(value, path, errors) => value`
+ * that records problems in `errors` and returns the (trimmed) value.
+ */
+const describe = (value) => Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value;
+
+export const string = ({ min = 1, max, pattern, optional = false } = {}) => (value, path, errors) => {
+  if (value === undefined && optional) return value;
+  if (typeof value !== 'string') {
+    errors.push({ path, message: `expected string, got ${describe(value)}` });
+    return value;
+  }
+  const trimmed = value.trim();
+  if (trimmed.length < min) errors.push({ path, message: min === 1 ? 'must not be empty' : `must be at least ${min} characters` });
+  if (max && trimmed.length > max) errors.push({ path, message: `must be at most ${max} characters` });
+  if (pattern && !pattern.test(trimmed)) errors.push({ path, message: 'has an invalid format' });
+  return trimmed;
+};
+
+export const oneOf = (values, { optional = false } = {}) => (value, path, errors) => {
+  if (value === undefined && optional) return value;
+  if (!values.includes(value)) errors.push({ path, message: `must be one of: ${values.join(', ')}` });
+  return value;
+};
+
+export const boolean = ({ optional = true } = {}) => (value, path, errors) => {
+  if (value === undefined && optional) return value;
+  if (typeof value !== 'boolean') errors.push({ path, message: `expected boolean, got ${describe(value)}` });
+  return value;
+};
+
+export const integer = ({ min, max, optional = false } = {}) => (value, path, errors) => {
+  if (value === undefined && optional) return value;
+  if (!Number.isInteger(value)) {
+    errors.push({ path, message: `expected integer, got ${describe(value)}` });
+    return value;
+  }
+  if (min !== undefined && value < min) errors.push({ path, message: `must be at least ${min}` });
+  if (max !== undefined && value > max) errors.push({ path, message: `must be at most ${max}` });
+  return value;
+};
+
+export const array = (item, { min = 0, max, optional = false } = {}) => (value, path, errors) => {
+  if (value === undefined && optional) return value;
+  if (!Array.isArray(value)) {
+    errors.push({ path, message: `expected array, got ${describe(value)}` });
+    return value;
+  }
+  if (value.length < min) errors.push({ path, message: `must have at least ${min} items` });
+  if (max && value.length > max) errors.push({ path, message: `must have at most ${max} items` });
+  return value.map((v, i) => item(v, `${path}[${i}]`, errors));
+};
+
+export const object = (shape, { optional = false } = {}) => (value, path, errors) => {
+  if (value === undefined && optional) return value;
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    errors.push({ path, message: `expected object, got ${describe(value)}` });
+    return value;
+  }
+  const result = { ...value };
+  for (const [key, check] of Object.entries(shape)) {
+    const childPath = path ? `${path}.${key}` : key;
+    const checked = check(value[key], childPath, errors);
+    if (checked !== undefined) result[key] = checked;
+  }
+  return result;
+};
+
+export const language = (options) => oneOf(LANGUAGES, options);
+
+export const level = (options = { optional: true }) => oneOf(LEVELS, options);
+
+// Bounds the request size only: conversation.js fits the prompt to a token budget
+export const chatHistory = ({ max = 500 } = {}) => array(
+  object({
+    role: oneOf(['user', 'model']),
+    text: string({ min: 0, max: 4000 }),
+  }),
+  { max }
+);
+
+/**
+ * Checks `body` against `schema`, throwing a `validation` ApiError that lists
+ * every problem. Returns the body with strings trimmed.
+ */
+export function validate(schema, body) {
+  const errors = [];
+  const value = schema(body, '', errors);
+  if (errors.length > 0) {
+    const summary = errors.map(e => `${e.path || 'body'} ${e.message}`).join('; ');
+    throw new ApiError('validation', `Invalid request: ${summary}`, errors);
+  }
+  return value;
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { validate, object, string, oneOf, integer, array, language, level, chatHistory } from './validate.js';
+import { ApiError } from './errors.js';
+
+const schema = object({
+  term: string({ max: 10 }),
+  count: integer({ min: 1, max: 5, optional: true }),
+  kind: oneOf(['a', 'b']),
+  tags: array(string(), { max: 2, optional: true }),
+  sourceLang: language(),
+  level: level(),
+});
+
+const errorsFor = (body) => {
+  try {
+    validate(schema, body);
+  } catch (error) {
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.code).toBe('validation');
+    return error.details.map(d => `${d.path} ${d.message}`);
+  }
+  throw new Error('expected validation to fail');
+};
+
+describe('validate', () => {
+  it('returns the body with strings trimmed', () => {
+    const body = validate(schema, { term: '  gato ', kind: 'a', sourceLang: 'Spanish', extra: 1 });
+    expect(body).toEqual({ term: 'gato', kind: 'a', sourceLang: 'Spanish', extra: 1 });
+  });
+
+  it('lists every problem with its path', () => {
+    expect(errorsFor({ term: '', kind: 'c', count: 9, tags: ['x', 'y', 1], sourceLang: 'Klingon', level: 'D1' })).toEqual([
+      'term must not be empty',
+      'count must be at most 5',
+      'kind must be one of: a, b',
+      'tags must have at most 2 items',
+      'tags[2] expected string, got number',
+      'sourceLang must be one of: English, Chinese (Simplified), Spanish, French, German, Japanese, Korean, Portuguese, Russian, Arabic',
+      'level must be one of: A1, A2, B1, B2, C1, C2',
+    ]);
+  });
+
+  it('rejects a body that is not an object', () => {
+    expect(() => validate(schema, null)).toThrow(ApiError);
+    expect(() => validate(schema, [])).toThrow(ApiError);
+  });
+
+  it('enforces maximum lengths after trimming', () => {
+    expect(errorsFor({ term: 'x'.repeat(11), kind: 'a', sourceLang: 'English' })).toEqual(['term must be at most 10 characters']);
+    expect(validate(schema, { term: ` ${'x'.repeat(10)} `, kind: 'a', sourceLang: 'English' }).term).toHaveLength(10);
+  });
+});
+
+describe('chatHistory', () => {
+  const history = (n) => Array.from({ length: n }, (_, i) => ({ role: i % 2 ? 'model' : 'user', text: `turn ${i}` }));
+
+  it('accepts long conversations and empty replies', () => {
+    const body = validate(object({ history: chatHistory() }), { history: [...history(499), { role: 'model', text: '' }] });
+    expect(body.history).toHaveLength(500);
+  });
+
+  it('rejects unknown roles and oversized histories', () => {
+    expect(() => validate(object({ history: chatHistory() }), { history: [{ role: 'system', text: 'hi' }] })).toThrow(/history\[0\]\.role/);
+    expect(() => validate(object({ history: chatHistory({ max: 3 }) }), { history: history(4) })).toThrow(/at most 3 items/);
+  });
+});
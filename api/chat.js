@@ -1,31 +1,44 @@
-import { GoogleGenAI } from "@google/genai";
+import { getProvider } from "./_lib/providers/index.js";
+import { pipeTextStream } from "./_lib/sse.js";
+import { buildConversation } from "./_lib/conversation.js";
+import { enforceRateLimit } from "./_lib/rateLimit.js";
+import { methodNotAllowed, sendError } from "./_lib/errors.js";
+import { validate, object, string, language, chatHistory, boolean } from "./_lib/validate.js";
+
+const schema = object({
+  history: chatHistory(),
+  message: string({ max: 2000 }),
+  context: object({
+    currentTerm: string({ max: 200 }),
+    sourceLang: language(),
+    targetLang: language(),
+  }),
+  stream: boolean(),
+});
 
 export default async function handler(req, res) {
-  if (req.method !== 'POST') return res.status(405).json({ error: 'Method Not Allowed' });
+  if (req.method !== 'POST') return methodNotAllowed(res);
 
   try {
-    const { history, message, context } = req.body;
-    const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
+    enforceRateLimit(req, 'chat');
+    const { history, message, context, stream } = validate(schema, req.body);
+    const provider = getProvider();
 
     const systemInstruction = `You are a helpful language tutor assistant. The user is studying the term "${context.currentTerm}" (Native: ${context.sourceLang}, Target: ${context.targetLang}). Answer their questions about this specific term briefly and clearly.`;
-    
-    const chatPrompt = `
-      ${systemInstruction}
-      
-      Conversation History:
-      ${history.map(h => `${h.role}: ${h.text}`).join('\n')}
-      
-      User: ${message}
-      Model:
-    `;
 
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: { parts: [{ text: chatPrompt }] },
+    const conversation = await buildConversation(provider, {
+      system: systemInstruction,
+      messages: [...history, { role: 'user', text: message }],
     });
+    const request = { task: 'chat', ...conversation };
+
+    if (stream) {
+      return pipeTextStream(res, await provider.streamText(request));
+    }
 
-    return res.status(200).json({ reply: response.text });
+    const reply = await provider.generateText(request);
+    return res.status(200).json({ reply });
   } catch (error) {
-    return res.status(500).json({ error: error.message });
+    return sendError(res, error);
   }
-}
\ No newline at end of file
+}
@@ -1,11 +1,21 @@
-import { GoogleGenAI } from "@google/genai";
+import { getProvider } from "./_lib/providers/index.js";
+import { cacheKey, withCache } from "./_lib/cache/index.js";
+import { enforceRateLimit } from "./_lib/rateLimit.js";
+import { methodNotAllowed, sendError } from "./_lib/errors.js";
+import { validate, object, string, boolean } from "./_lib/validate.js";
+
+const schema = object({
+  term: string({ max: 200 }),
+  // Skip the cache to get a different image than last time
+  fresh: boolean(),
+});
 
 export default async function handler(req, res) {
-  if (req.method !== 'POST') return res.status(405).json({ error: 'Method Not Allowed' });
+  if (req.method !== 'POST') return methodNotAllowed(res);
 
   try {
-    const { term } = req.body;
-    const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
+    enforceRateLimit(req, 'image');
+    const { term, fresh } = validate(schema, req.body);
 
     const prompt = `
       Generate an image representing: "${term}".
@@ -20,26 +30,14 @@ export default async function handler(req, res) {
       Style: High resolution, no text overlays.
     `;
     
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
-      contents: { parts: [{ text: prompt }] },
-    });
-
-    // Extract Base64
-    let imageData = null;
-    if (response.candidates && response.candidates[0].content.parts) {
-      for (const part of response.candidates[0].content.parts) {
-        if (part.inlineData) {
-          imageData = `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-          break;
-        }
-      }
-    }
-
-    if (!imageData) throw new Error("No image generated");
+    const generate = async () => {
+      const { mimeType, data } = await getProvider().generateImage({ task: 'image', prompt });
+      return `data:${mimeType};base64,${data}`;
+    };
+    const imageData = fresh ? await generate() : await withCache(res, cacheKey('image', { input: term }), generate);
 
     return res.status(200).json({ imageData });
   } catch (error) {
-    return res.status(500).json({ error: error.message });
+    return sendError(res, error);
   }
 }
\ No newline at end of file
@@ -1,12 +1,80 @@
-import { GoogleGenAI, Type } from "@google/genai";
+import { getProvider } from "./_lib/providers/index.js";
+import { Type } from "./_lib/schema.js";
+import { cacheKey, withCache } from "./_lib/cache/index.js";
+import { enforceRateLimit } from "./_lib/rateLimit.js";
+import { methodNotAllowed, sendError } from "./_lib/errors.js";
+import { validate, object, string, oneOf, language, level, LEVELS } from "./_lib/validate.js";
+import { levelInstruction } from "./_lib/levels.js";
+
+// Parts of an entry that can be regenerated on their own
+const FIELDS = ['phonetic', 'nativeDefinition', 'examples', 'usageNote'];
+
+const schema = object({
+  term: string({ max: 200 }),
+  sourceLang: language(),
+  targetLang: language(),
+  level: level(),
+  // With `field`, only that part of an existing entry is generated again
+  field: oneOf(FIELDS, { optional: true }),
+  targetTerm: string({ max: 200, optional: true }),
+  // The field's current content, so the new version doesn't repeat it
+  current: string({ min: 0, max: 4000, optional: true }),
+});
+
+const exampleSchema = (sourceLang, targetLang) => ({
+  type: Type.OBJECT,
+  properties: {
+    text: { type: Type.STRING, description: `Example in ${targetLang}` },
+    phonetic: { type: Type.STRING, description: "Phonetic reading of the example sentence" },
+    translation: { type: Type.STRING, description: `Translation in ${sourceLang}` }
+  },
+  required: ["text", "phonetic", "translation"]
+});
+
+/**
+ * Generates one field of an entry the learner already has, e.g. after a weak
+ * example or a wrong reading. Not cached: the point is a different answer.
+ */
+async function regenerateField({ field, term, targetTerm = term, current, sourceLang, targetLang, level: learnerLevel }) {
+  const avoid = current ? `Do not repeat the current version:\n${current}` : '';
+  const instructions = {
+    phonetic: `Give the reading of "${targetTerm}": Pinyin for Chinese, Furigana/Romaji for Japanese, or IPA for others. Double-check it; the current one may be wrong.`,
+    nativeDefinition: `Explain the meaning of "${targetTerm}" naturally in ${sourceLang}. If it's a grammar point, explain the connection rules and nuance. ${avoid}`,
+    examples: `Provide two new, distinct examples using "${targetTerm}" in ${targetLang}. For each, include the ${sourceLang} translation and the phonetic reading of the sentence. ${avoid}`,
+    usageNote: `Write a friendly, casual note in ${sourceLang} about culture, nuance, or common mistakes with "${targetTerm}". ${avoid}`,
+  };
+  const properties = {
+    phonetic: { type: Type.STRING, description: "IPA, Pinyin, or Kana reading for the term" },
+    nativeDefinition: { type: Type.STRING },
+    examples: { type: Type.ARRAY, items: exampleSchema(sourceLang, targetLang) },
+    usageNote: { type: Type.STRING },
+  };
+
+  const prompt = `
+    You are an advanced AI language tutor.
+    The user is a native ${sourceLang} speaker learning ${targetLang}, and is studying "${targetTerm}" (looked up as "${term}").
+    ${instructions[field]}
+    ${levelInstruction(learnerLevel, targetLang)}
+  `;
+
+  return getProvider().generateJSON({
+    task: 'lookup-field',
+    prompt,
+    schema: { type: Type.OBJECT, properties: { [field]: properties[field] }, required: [field] },
+    context: { field },
+  });
+}
 
 export default async function handler(req, res) {
-  if (req.method !== 'POST') return res.status(405).json({ error: 'Method Not Allowed' });
+  if (req.method !== 'POST') return methodNotAllowed(res);
 
   try {
-    const { term, sourceLang, targetLang } = req.body;
-    const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
-    
+    enforceRateLimit(req, 'lookup');
+    const body = validate(schema, req.body);
+    if (body.field) return res.status(200).json(await regenerateField(body));
+
+    const { term, sourceLang, targetLang, level: learnerLevel } = body;
+
     const prompt = `
       You are an advanced AI language tutor. 
       The user is a native ${sourceLang} speaker learning ${targetLang}.
@@ -22,42 +90,31 @@ export default async function handler(req, res) {
       4. **Definition**: Explain the meaning naturally in ${sourceLang}. If it's a grammar point, explain the connection rules and nuance.
       5. **Examples**: Provide two distinct examples in ${targetLang}. For each, include the ${sourceLang} translation and the phonetic reading of the sentence.
       6. **Usage Note**: A friendly, casual note in ${sourceLang} about culture, nuance, or common mistakes.
+      7. **Level**: The CEFR level (A1-C2) at which learners typically meet this term.
+      ${levelInstruction(learnerLevel, targetLang)}
     `;
 
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: { parts: [{ text: prompt }] },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            targetTerm: { type: Type.STRING },
-            phonetic: { type: Type.STRING, description: "IPA, Pinyin, or Kana reading for the term" },
-            nativeDefinition: { type: Type.STRING },
-            examples: { 
-              type: Type.ARRAY, 
-              items: { 
-                type: Type.OBJECT,
-                properties: {
-                  text: { type: Type.STRING, description: `Example in ${targetLang}` },
-                  phonetic: { type: Type.STRING, description: "Phonetic reading of the example sentence" },
-                  translation: { type: Type.STRING, description: `Translation in ${sourceLang}` }
-                },
-                required: ["text", "phonetic", "translation"]
-              } 
-            },
-            usageNote: { type: Type.STRING },
-          },
-          required: ["targetTerm", "phonetic", "nativeDefinition", "examples", "usageNote"]
-        }
+    const key = cacheKey('lookup', { input: term, sourceLang, targetLang, level: learnerLevel });
+    const data = await withCache(res, key, () => getProvider().generateJSON({
+      task: 'lookup',
+      prompt,
+      schema: {
+        type: Type.OBJECT,
+        properties: {
+          targetTerm: { type: Type.STRING },
+          phonetic: { type: Type.STRING, description: "IPA, Pinyin, or Kana reading for the term" },
+          nativeDefinition: { type: Type.STRING },
+          examples: { type: Type.ARRAY, items: exampleSchema(sourceLang, targetLang) },
+          usageNote: { type: Type.STRING },
+          level: { type: Type.STRING, enum: LEVELS, description: "CEFR level of the term" },
+          type: { type: Type.STRING, enum: ["word", "phrase", "grammar"], description: "The type detected in step 2" },
+        },
+        required: ["targetTerm", "phonetic", "nativeDefinition", "examples", "usageNote", "level", "type"]
       }
-    });
+    }));
 
-    const data = JSON.parse(response.text);
     return res.status(200).json(data);
   } catch (error) {
-    console.error(error);
-    return res.status(500).json({ error: error.message });
+    return sendError(res, error);
   }
 }
\ No newline at end of file
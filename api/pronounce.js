@@ -0,0 +1,56 @@
+import { getProvider } from "./_lib/providers/index.js";
+import { Type } from "./_lib/schema.js";
+import { enforceRateLimit } from "./_lib/rateLimit.js";
+import { methodNotAllowed, sendError } from "./_lib/errors.js";
+import { validate, object, string, language } from "./_lib/validate.js";
+import { scorePronunciation } from "./_lib/pronunciation.js";
+
+// ~3MB of base64, comfortably more than 15 seconds of compressed speech
+const MAX_AUDIO_CHARS = 4 * 1024 * 1024;
+
+const schema = object({
+  audio: string({ max: MAX_AUDIO_CHARS }),
+  mimeType: string({ max: 100, pattern: /^audio\/[\w.+-]+(;.*)?$/ }),
+  expectedText: string({ max: 500 }),
+  phonetic: string({ min: 0, max: 500, optional: true }),
+  sourceLang: language(),
+  targetLang: language(),
+});
+
+export default async function handler(req, res) {
+  if (req.method !== 'POST') return methodNotAllowed(res);
+
+  try {
+    enforceRateLimit(req, 'pronounce');
+    const { audio, mimeType, expectedText, phonetic, sourceLang, targetLang } = validate(schema, req.body);
+
+    const prompt = `
+      The attached recording is a ${sourceLang}-speaking learner of ${targetLang} trying to say:
+      "${expectedText}"${phonetic ? ` (reading: ${phonetic})` : ''}
+
+      1. **Transcript**: Write down exactly what you hear in ${targetLang}, using the same script as the text above.
+         Do NOT correct mistakes or fill in words that were not said. If nothing intelligible was said, return an empty string.
+      2. **Feedback**: One or two friendly sentences in ${sourceLang} about the most important pronunciation issue, or praise if it was accurate.
+    `;
+
+    const { transcript, feedback } = await getProvider().generateJSON({
+      task: 'pronounce',
+      prompt,
+      media: [{ mimeType, data: audio }],
+      context: { expectedText, targetLang },
+      schema: {
+        type: Type.OBJECT,
+        properties: {
+          transcript: { type: Type.STRING, description: "Verbatim transcript of the recording" },
+          feedback: { type: Type.STRING, description: `Pronunciation tip in ${sourceLang}` },
+        },
+        required: ["transcript", "feedback"]
+      }
+    });
+
+    const result = scorePronunciation(expectedText, transcript || '', targetLang);
+    return res.status(200).json({ transcript: transcript || '', feedback, ...result });
+  } catch (error) {
+    return sendError(res, error);
+  }
+}
@@ -1,108 +1,382 @@
-import { GoogleGenAI, Type } from "@google/genai";
+import { getProvider } from "./_lib/providers/index.js";
+import { Type } from "./_lib/schema.js";
+import { pipeTextStream } from "./_lib/sse.js";
+import { cacheKey, withCache } from "./_lib/cache/index.js";
+import { buildConversation } from "./_lib/conversation.js";
+import { enforceRateLimit } from "./_lib/rateLimit.js";
+import { ApiError, methodNotAllowed, sendError } from "./_lib/errors.js";
+import { validate, object, string, oneOf, language, chatHistory, boolean, level, array, integer } from "./_lib/validate.js";
+import { levelInstruction } from "./_lib/levels.js";
+
+const ACTIONS = ['generate', 'chat', 'evaluate', 'translate', 'explain', 'suggest'];
+
+// Longest fields a scenario may have; generated ones are cut to fit
+const LIMITS = { title: 200, description: 1000, persona: 500, setting: 500, objective: 200, objectives: 6 };
+
+const scenarioShape = object({
+  title: string({ max: LIMITS.title }),
+  description: string({ max: LIMITS.description }),
+  persona: string({ max: LIMITS.persona, optional: true }),
+  setting: string({ max: LIMITS.setting, optional: true }),
+  objectives: array(string({ max: LIMITS.objective }), { max: LIMITS.objectives, optional: true }),
+});
+
+const clip = (text, max) => (typeof text === 'string' ? text.trim().slice(0, max).trim() : '');
+
+/**
+ * A generated scenario cut to what `scenarioShape` accepts, so the client can
+ * send it back on every chat turn. Blank optional fields are left out, as the
+ * scenario builder does.
+ */
+const fitScenario = ({ persona, setting, ...scenario }) => {
+  const objectives = (Array.isArray(scenario.objectives) ? scenario.objectives : [])
+    .map(o => clip(o, LIMITS.objective))
+    .filter(Boolean)
+    .slice(0, LIMITS.objectives);
+  const fitted = {
+    ...scenario,
+    title: clip(scenario.title, LIMITS.title),
+    description: clip(scenario.description, LIMITS.description),
+    objectives,
+  };
+  for (const [key, value] of Object.entries({ persona, setting })) {
+    const text = clip(value, LIMITS[key]);
+    if (text) fitted[key] = text;
+  }
+  return fitted;
+};
+
+const DEFAULT_THEMES = '1. Work/Office, 2. Daily Life/Travel, 3. Unexpected/Funny Situation.';
+
+const schemas = {
+  generate: object({
+    targetLang: language(),
+    sourceLang: language(),
+    level: level(),
+    theme: string({ max: 200, optional: true }),
+  }),
+  chat: object({
+    history: chatHistory(),
+    scenario: scenarioShape,
+    targetLang: language(),
+    level: level(),
+    completedObjectives: array(integer({ min: 0 }), { max: 6, optional: true }),
+    // Language to explain corrections of the user's last message in; omit to skip them
+    correctIn: language({ optional: true }),
+    stream: boolean(),
+  }),
+  evaluate: object({
+    history: chatHistory(),
+    sourceLang: language(),
+    targetLang: language(),
+    objectives: array(object({ text: string({ max: 200 }), completed: boolean({ optional: false }) }), { max: 6, optional: true }),
+  }),
+  translate: object({
+    text: string({ max: 2000 }),
+    sourceLang: language(),
+    targetLang: language(),
+  }),
+  explain: object({
+    text: string({ max: 2000 }),
+    history: chatHistory(),
+    sourceLang: language(),
+    targetLang: language(),
+    level: level(),
+  }),
+  suggest: object({
+    history: chatHistory(),
+    scenario: scenarioShape,
+    sourceLang: language(),
+    targetLang: language(),
+    level: level(),
+  }),
+};
+
+const transcript = (history) => history.map(h => `${h.role}: ${h.text}`).join('\n');
+
+/**
+ * Checks the learner's latest message. `explanation` is in `sourceLang`;
+ * `corrected` repeats the message unchanged when there is nothing to fix.
+ */
+async function correctTurn(provider, { message, targetLang, sourceLang }) {
+  const prompt = `
+    A ${sourceLang} speaker learning ${targetLang} wrote this during a roleplay:
+    "${message}"
+
+    Check it for grammar, vocabulary and spelling mistakes, and for phrasing a native speaker wouldn't use.
+    If it's fine, set isCorrect to true and repeat it as "corrected".
+    Otherwise give the corrected sentence and a short, friendly explanation in ${sourceLang}.
+  `;
+  return provider.generateJSON({
+    task: 'scenario-correction',
+    prompt,
+    context: { message },
+    schema: {
+      type: Type.OBJECT,
+      properties: {
+        isCorrect: { type: Type.BOOLEAN },
+        corrected: { type: Type.STRING, description: `The message in natural, correct ${targetLang}` },
+        explanation: { type: Type.STRING, description: `What was wrong, in ${sourceLang}; empty if nothing` },
+      },
+      required: ["isCorrect", "corrected", "explanation"]
+    }
+  });
+}
+
+/**
+ * Asks the model which objectives the learner has now achieved. Returns the
+ * indices of every completed objective; once completed, an objective stays so.
+ */
+async function checkObjectives(provider, { history, reply, objectives, completed }) {
+  const pending = objectives.map((text, index) => ({ text, index })).filter(o => !completed.includes(o.index));
+  if (pending.length === 0) return completed;
+
+  const prompt = `
+    A language learner ("user") is doing a roleplay. Decide which of these objectives
+    the learner has achieved so far, judging only by what the learner said:
+    ${pending.map(o => `${o.index}. ${o.text}`).join('\n')}
+
+    Conversation:
+    ${transcript([...history, { role: 'model', text: reply }])}
+
+    Return the numbers of the achieved objectives.
+  `;
+  const data = await provider.generateJSON({
+    task: 'scenario-objectives',
+    prompt,
+    context: { history, objectives, completed },
+    schema: {
+      type: Type.OBJECT,
+      properties: {
+        completed: { type: Type.ARRAY, items: { type: Type.INTEGER } },
+      },
+      required: ["completed"]
+    }
+  });
+  const achieved = (data.completed || []).filter(i => pending.some(o => o.index === i));
+  return [...completed, ...achieved].sort((a, b) => a - b);
+}
 
 export default async function handler(req, res) {
-  if (req.method !== 'POST') return res.status(405).json({ error: 'Method Not Allowed' });
+  if (req.method !== 'POST') return methodNotAllowed(res);
 
   try {
-    const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
-    const { action } = req.body;
+    enforceRateLimit(req, 'scenario');
+    const provider = getProvider();
+    const { action } = validate(object({ action: oneOf(ACTIONS) }), req.body);
+    const body = validate(schemas[action], req.body);
 
     // --- Generate Scenarios ---
     if (action === 'generate') {
-      const { targetLang, sourceLang } = req.body;
+      const { targetLang, sourceLang, level: learnerLevel, theme } = body;
       const prompt = `
         Generate 3 distinct, fun, and practical roleplay scenarios for a student learning ${targetLang}.
-        Themes: 1. Work/Office, 2. Daily Life/Travel, 3. Unexpected/Funny Situation.
+        ${theme ? `All three should fit the theme "${theme}", each from a different angle.` : `Themes: ${DEFAULT_THEMES}`}
+        ${levelInstruction(learnerLevel, targetLang)}
         Return JSON.
       `;
-      const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash",
-        contents: { parts: [{ text: prompt }] },
-        config: {
-          responseMimeType: "application/json",
-          responseSchema: {
-            type: Type.OBJECT,
-            properties: {
-              scenarios: {
-                type: Type.ARRAY,
-                items: {
-                  type: Type.OBJECT,
-                  properties: {
-                    id: { type: Type.STRING },
-                    title: { type: Type.STRING, description: `Title in ${sourceLang}` },
-                    description: { type: Type.STRING, description: `Short context in ${sourceLang}` },
-                    openingLine: { type: Type.STRING, description: `The first line spoken by the AI in ${targetLang}` }
-                  },
-                  required: ["id", "title", "description", "openingLine"]
-                }
+      const data = await provider.generateJSON({
+        task: 'scenario-generate',
+        prompt,
+        schema: {
+          type: Type.OBJECT,
+          properties: {
+            scenarios: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  id: { type: Type.STRING },
+                  title: { type: Type.STRING, description: `Title in ${sourceLang}` },
+                  description: { type: Type.STRING, description: `Short context in ${sourceLang}` },
+                  openingLine: { type: Type.STRING, description: `The first line spoken by the AI in ${targetLang}` },
+                  persona: { type: Type.STRING, description: `Who the AI plays, in ${sourceLang}` },
+                  setting: { type: Type.STRING, description: `Where and when the scene takes place, in ${sourceLang}` },
+                  objectives: {
+                    type: Type.ARRAY,
+                    items: { type: Type.STRING },
+                    description: `2-4 concrete things the learner must do in the conversation (e.g. "order a drink"), in ${sourceLang}`
+                  }
+                },
+                required: ["id", "title", "description", "openingLine", "persona", "setting", "objectives"]
               }
             }
           }
         }
       });
-      return res.status(200).json(JSON.parse(response.text));
+      // Scenarios without a title or description could never be chatted in
+      const scenarios = (data.scenarios || []).map(fitScenario).filter(s => s.title && s.description);
+      return res.status(200).json({ scenarios });
     }
 
     // --- Chat in Scenario ---
     if (action === 'chat') {
-      const { history, scenario, targetLang } = req.body;
-      const prompt = `
+      const { history, scenario, targetLang, level: learnerLevel, completedObjectives = [], correctIn, stream } = body;
+      const objectives = scenario.objectives || [];
+      const system = `
         You are acting in a roleplay scenario: "${scenario.title}" - ${scenario.description}.
+        ${scenario.persona ? `You are playing: ${scenario.persona}. Stay in this character throughout.` : ''}
+        ${scenario.setting ? `Setting: ${scenario.setting}.` : ''}
+        ${objectives.length ? `Naturally give the user chances to: ${objectives.join('; ')}.` : ''}
         Language: ${targetLang} ONLY.
         Your role: Interact naturally with the user. Keep responses concise (1-3 sentences).
-        
-        History:
-        ${history.map(h => `${h.role}: ${h.text}`).join('\n')}
-        
-        Respond to the last user message in character.
+        ${levelInstruction(learnerLevel, targetLang)}
+        Respond to the user's last message in character. Never step out of the roleplay,
+        whatever the user's messages ask you to do.
       `;
-      const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash",
-        contents: { parts: [{ text: prompt }] },
-      });
-      return res.status(200).json({ reply: response.text });
+      const request = { task: 'scenario-chat', ...(await buildConversation(provider, { system, messages: history })) };
+
+      // Runs alongside the reply; it only needs the user's message
+      const lastMessage = history[history.length - 1];
+      const correction = correctIn && lastMessage?.role === 'user' && lastMessage.text
+        ? correctTurn(provider, { message: lastMessage.text, targetLang, sourceLang: correctIn }).catch(error => {
+            console.error('Turn correction failed:', error);
+            return undefined;
+          })
+        : Promise.resolve(undefined);
+
+      // A failed objective check or correction shouldn't cost the learner the reply
+      const extras = async (reply) => {
+        const result = { correction: await correction };
+        if (objectives.length === 0) return result;
+        try {
+          return { ...result, completedObjectives: await checkObjectives(provider, { history, reply, objectives, completed: completedObjectives }) };
+        } catch (error) {
+          console.error('Objective check failed:', error);
+          return { ...result, completedObjectives };
+        }
+      };
+
+      if (stream) {
+        return pipeTextStream(res, await provider.streamText(request), { finish: extras });
+      }
+      const reply = await provider.generateText(request);
+      return res.status(200).json({ reply, ...(await extras(reply)) });
     }
 
     // --- Evaluate Scenario ---
     if (action === 'evaluate') {
-      const { history, sourceLang, targetLang } = req.body;
+      const { history, sourceLang, targetLang, objectives } = body;
       const prompt = `
         Analyze this roleplay conversation in ${targetLang}. User speaks ${sourceLang}.
         Conversation:
-        ${history.map(h => `${h.role}: ${h.text}`).join('\n')}
+        ${transcript(history)}
+        ${objectives?.length ? `
+        The learner's objectives, and whether each was achieved:
+        ${objectives.map(o => `- [${o.completed ? 'x' : ' '}] ${o.text}`).join('\n')}
+        Factor objective completion into the score and mention it in the feedback.` : ''}
 
         Provide score (0-100), feedback in ${sourceLang}, and corrections.
       `;
-      const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash",
-        contents: { parts: [{ text: prompt }] },
-        config: {
-          responseMimeType: "application/json",
-          responseSchema: {
-            type: Type.OBJECT,
-            properties: {
-              score: { type: Type.NUMBER },
-              feedback: { type: Type.STRING },
-              corrections: {
-                type: Type.ARRAY,
-                items: {
-                  type: Type.OBJECT,
-                  properties: {
-                    original: { type: Type.STRING },
-                    correction: { type: Type.STRING },
-                    explanation: { type: Type.STRING }
-                  }
+      const data = await provider.generateJSON({
+        task: 'scenario-evaluate',
+        prompt,
+        schema: {
+          type: Type.OBJECT,
+          properties: {
+            score: { type: Type.NUMBER },
+            feedback: { type: Type.STRING },
+            corrections: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  original: { type: Type.STRING },
+                  correction: { type: Type.STRING },
+                  explanation: { type: Type.STRING }
                 }
               }
             }
           }
         }
       });
-      return res.status(200).json(JSON.parse(response.text));
+      return res.status(200).json(objectives ? { ...data, objectives } : data);
+    }
+
+    // --- Translate a Line ---
+    if (action === 'translate') {
+      const { text, sourceLang, targetLang } = body;
+      const prompt = `
+        Translate this ${targetLang} line from a roleplay into natural ${sourceLang}.
+        "${text}"
+      `;
+      const data = await withCache(res, cacheKey('scenario-translate', { input: text, sourceLang, targetLang }), () => provider.generateJSON({
+        task: 'scenario-translate',
+        prompt,
+        schema: {
+          type: Type.OBJECT,
+          properties: { translation: { type: Type.STRING } },
+          required: ["translation"]
+        }
+      }));
+      return res.status(200).json(data);
+    }
+
+    // --- Explain a Line ---
+    if (action === 'explain') {
+      const { text, history, sourceLang, targetLang, level: learnerLevel } = body;
+      const prompt = `
+        A ${sourceLang} speaker learning ${targetLang} is stuck on this line from a roleplay:
+        "${text}"
+
+        Conversation so far:
+        ${transcript(history)}
+
+        In ${sourceLang}, briefly explain what the line means in context, point out any
+        useful words, idioms or grammar in it, and say what kind of reply is expected.
+        ${levelInstruction(learnerLevel, targetLang)}
+      `;
+      const data = await provider.generateJSON({
+        task: 'scenario-explain',
+        prompt,
+        schema: {
+          type: Type.OBJECT,
+          properties: { explanation: { type: Type.STRING } },
+          required: ["explanation"]
+        }
+      });
+      return res.status(200).json(data);
+    }
+
+    // --- Suggest Replies ---
+    if (action === 'suggest') {
+      const { history, scenario, sourceLang, targetLang, level: learnerLevel } = body;
+      const prompt = `
+        A learner of ${targetLang} is in the roleplay "${scenario.title}" - ${scenario.description}.
+        ${scenario.objectives?.length ? `Their objectives: ${scenario.objectives.join('; ')}.` : ''}
+
+        Conversation so far:
+        ${transcript(history)}
+
+        Suggest 3 different things the learner could say next, in ${targetLang}, each with a ${sourceLang} translation.
+        Keep them short and natural. ${levelInstruction(learnerLevel, targetLang)}
+      `;
+      const data = await provider.generateJSON({
+        task: 'scenario-suggest',
+        prompt,
+        schema: {
+          type: Type.OBJECT,
+          properties: {
+            suggestions: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  text: { type: Type.STRING, description: `Reply in ${targetLang}` },
+                  translation: { type: Type.STRING, description: `Translation in ${sourceLang}` }
+                },
+                required: ["text", "translation"]
+              }
+            }
+          },
+          required: ["suggestions"]
+        }
+      });
+      return res.status(200).json({ suggestions: (data.suggestions || []).slice(0, 3) });
     }
 
-    return res.status(400).json({ error: 'Invalid action' });
+    throw new ApiError('validation', 'Invalid action');
   } catch (error) {
-    return res.status(500).json({ error: error.message });
+    return sendError(res, error);
   }
-}
\ No newline at end of file
+}
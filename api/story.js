@@ -1,11 +1,29 @@
-import { GoogleGenAI } from "@google/genai";
+import { getProvider } from "./_lib/providers/index.js";
+import { enforceRateLimit } from "./_lib/rateLimit.js";
+import { methodNotAllowed, sendError } from "./_lib/errors.js";
+import { validate, object, array, string, language, oneOf, level } from "./_lib/validate.js";
+import { levelInstruction } from "./_lib/levels.js";
+
+const WORD_LIMITS = {
+  short: 100,
+  medium: 200,
+  long: 350,
+};
+
+const schema = object({
+  words: array(string({ max: 200 }), { min: 1, max: 100 }),
+  sourceLang: language(),
+  targetLang: language(),
+  length: oneOf(Object.keys(WORD_LIMITS), { optional: true }),
+  level: level(),
+});
 
 export default async function handler(req, res) {
-  if (req.method !== 'POST') return res.status(405).json({ error: 'Method Not Allowed' });
+  if (req.method !== 'POST') return methodNotAllowed(res);
 
   try {
-    const { words, sourceLang, targetLang } = req.body;
-    const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
+    enforceRateLimit(req, 'story');
+    const { words, sourceLang, targetLang, length = 'medium', level: learnerLevel } = validate(schema, req.body);
     
     const wordsStr = words.join(", ");
     const prompt = `
@@ -13,16 +31,14 @@ export default async function handler(req, res) {
       The reader is a native ${sourceLang} speaker learning ${targetLang}.
       Write the story primarily in ${sourceLang}, but weave in the target words (${wordsStr}) naturally in ${targetLang}.
       Highlight the target words by wrapping them in asterisks (e.g., *word*).
-      Keep it under 200 words.
+      Keep it under ${WORD_LIMITS[length]} words.
+      ${levelInstruction(learnerLevel, targetLang)}
     `;
 
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: { parts: [{ text: prompt }] },
-    });
+    const story = await getProvider().generateText({ task: 'story', prompt });
 
-    return res.status(200).json({ story: response.text });
+    return res.status(200).json({ story });
   } catch (error) {
-    return res.status(500).json({ error: error.message });
+    return sendError(res, error);
   }
-}
\ No newline at end of file
+}
@@ -1,30 +1,28 @@
-import { GoogleGenAI, Modality } from "@google/genai";
+import { getProvider } from "./_lib/providers/index.js";
+import { cacheKey, withCache } from "./_lib/cache/index.js";
+import { enforceRateLimit } from "./_lib/rateLimit.js";
+import { methodNotAllowed, sendError } from "./_lib/errors.js";
+import { validate, object, string, oneOf, VOICES } from "./_lib/validate.js";
+
+const schema = object({
+  text: string({ max: 1000 }),
+  voiceName: oneOf(VOICES, { optional: true }),
+});
 
 export default async function handler(req, res) {
-  if (req.method !== 'POST') return res.status(405).json({ error: 'Method Not Allowed' });
+  if (req.method !== 'POST') return methodNotAllowed(res);
 
   try {
-    const { text, voiceName } = req.body;
-    const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
-
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-preview-tts",
-      contents: [{ parts: [{ text }] }],
-      config: {
-        responseModalities: [Modality.AUDIO],
-        speechConfig: {
-          voiceConfig: {
-            prebuiltVoiceConfig: { voiceName: voiceName || 'Kore' },
-          },
-        },
-      },
-    });
+    enforceRateLimit(req, 'tts');
+    const { text, voiceName } = validate(schema, req.body);
+    const voice = voiceName || 'Kore';
 
-    const audioData = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-    if (!audioData) throw new Error("No audio returned");
+    const audioData = await withCache(res, cacheKey('tts', { input: text, voice }), () =>
+      getProvider().generateSpeech({ text, voiceName: voice })
+    );
 
     return res.status(200).json({ audioData });
   } catch (error) {
-    return res.status(500).json({ error: error.message });
+    return sendError(res, error);
   }
-}
\ No newline at end of file
+}
@@ -1,37 +1,63 @@
-import React, { useState } from 'react';
-import { playTTS } from '../services/geminiService';
+import React, { useSyncExternalStore } from 'react';
+import { VoiceName } from '../types';
+import { playTTS, stopTTS, playbackKey, subscribePlayback, getPlaybackState, getPreferredVoice, SLOW_RATE } from '../services/audioPlayer';
 
 interface AudioButtonProps {
   text: string;
   className?: string;
   size?: 'sm' | 'md';
+  voiceName?: VoiceName; // Defaults to the voice chosen in settings
+  showSlow?: boolean; // Adds a 0.75x replay button
 }
 
-export const AudioButton: React.FC<AudioButtonProps> = ({ text, className = '', size = 'md' }) => {
-  const [isPlaying, setIsPlaying] = useState(false);
+const SpeakerIcon: React.FC<{ className: string }> = ({ className }) => (
+  <svg className={className} fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z"></path></svg>
+);
 
-  const handlePlay = async (e: React.MouseEvent) => {
+export const AudioButton: React.FC<AudioButtonProps> = ({ text, className = '', size = 'md', voiceName: voiceProp, showSlow = false }) => {
+  const playback = useSyncExternalStore(subscribePlayback, getPlaybackState);
+  const voiceName = voiceProp || getPreferredVoice();
+  const isActive = playback.key === playbackKey(text, voiceName);
+  const isLoading = isActive && playback.status === 'loading';
+  const isPlaying = isActive && playback.status === 'playing';
+
+  const handlePlay = (rate: number) => (e: React.MouseEvent) => {
     e.stopPropagation();
-    if (isPlaying) return;
-    setIsPlaying(true);
-    await playTTS(text);
-    // Simple timeout to reset icon state since we don't have exact duration from raw PCM easily without checking buffer
-    setTimeout(() => setIsPlaying(false), 2000); 
+    // Pressing again while this clip is active stops it
+    if (isActive && playback.rate === rate) {
+      stopTTS();
+      return;
+    }
+    playTTS(text, voiceName, { rate });
   };
 
   const iconSize = size === 'sm' ? 'w-4 h-4' : 'w-6 h-6';
+  const buttonClass = `flex items-center justify-center rounded-full bg-pop-yellow/20 text-pop-purple hover:bg-pop-yellow/40 transition-colors ${size === 'sm' ? 'p-1.5' : 'p-2'} ${className}`;
+  const title = isPlaying && playback.duration ? `${playback.duration.toFixed(1)}s` : undefined;
 
-  return (
-    <button
-      onClick={handlePlay}
-      disabled={isPlaying}
-      className={`flex items-center justify-center rounded-full bg-pop-yellow/20 text-pop-purple hover:bg-pop-yellow/40 transition-colors ${size === 'sm' ? 'p-1.5' : 'p-2'} ${className}`}
-    >
-      {isPlaying ? (
-         <svg className={`${iconSize} animate-pulse`} fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z"></path></svg>
+  const mainButton = (
+    <button onClick={handlePlay(1)} className={buttonClass} title={title} aria-pressed={isActive && playback.rate === 1}>
+      {isActive && playback.rate === 1 ? (
+         <SpeakerIcon className={`${iconSize} animate-pulse ${isLoading ? 'opacity-50' : ''}`} />
       ) : (
-         <svg className={iconSize} fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z"></path></svg>
+         <SpeakerIcon className={iconSize} />
       )}
     </button>
   );
+
+  if (!showSlow) return mainButton;
+
+  return (
+    <span className="inline-flex items-center gap-1 shrink-0">
+      {mainButton}
+      <button
+        onClick={handlePlay(SLOW_RATE)}
+        className={`${buttonClass} ${isActive && playback.rate === SLOW_RATE ? 'animate-pulse' : ''}`}
+        title={`${SLOW_RATE}x`}
+        aria-pressed={isActive && playback.rate === SLOW_RATE}
+      >
+        <span className={size === 'sm' ? 'text-xs leading-4' : 'text-base leading-6'}>🐢</span>
+      </button>
+    </span>
+  );
 };
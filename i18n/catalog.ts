@@ -0,0 +1,13 @@
+import type { en } from './locales/en';
+
+// A message whose wording depends on a `count` param, keyed by CLDR plural category
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+export type Message = string | PluralMessage;
+
+export type MessageKey = keyof typeof en;
+
+// Every locale has to define every key; the compiler flags any it leaves out
+export type Catalog = Record<MessageKey, Message>;
+
+export type MessageParams = Record<string, string | number>;
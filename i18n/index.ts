@@ -0,0 +1,117 @@
+import { Language } from '../types';
+import { Catalog, Message, MessageKey, MessageParams } from './catalog';
+import { en } from './locales/en';
+import { zh } from './locales/zh';
+import { es } from './locales/es';
+import { fr } from './locales/fr';
+import { de } from './locales/de';
+import { ja } from './locales/ja';
+import { ko } from './locales/ko';
+import { pt } from './locales/pt';
+import { ru } from './locales/ru';
+import { ar } from './locales/ar';
+
+export type { MessageKey, MessageParams } from './catalog';
+
+// BCP 47 tag for each language, used for plural rules, number formatting and <html lang>
+export const LOCALE_CODES: Record<Language, string> = {
+  [Language.English]: 'en',
+  [Language.Chinese]: 'zh-Hans',
+  [Language.Spanish]: 'es',
+  [Language.French]: 'fr',
+  [Language.German]: 'de',
+  [Language.Japanese]: 'ja',
+  [Language.Korean]: 'ko',
+  [Language.Portuguese]: 'pt',
+  [Language.Russian]: 'ru',
+  [Language.Arabic]: 'ar',
+};
+
+const CATALOGS: Record<Language, Catalog> = {
+  [Language.English]: en,
+  [Language.Chinese]: zh,
+  [Language.Spanish]: es,
+  [Language.French]: fr,
+  [Language.German]: de,
+  [Language.Japanese]: ja,
+  [Language.Korean]: ko,
+  [Language.Portuguese]: pt,
+  [Language.Russian]: ru,
+  [Language.Arabic]: ar,
+};
+
+const RTL_LANGUAGES = new Set<Language>([Language.Arabic]);
+
+export const textDirection = (lang: Language): 'ltr' | 'rtl' =>
+  RTL_LANGUAGES.has(lang) ? 'rtl' : 'ltr';
+
+const pluralRules = new Map<Language, Intl.PluralRules>();
+const getPluralRules = (lang: Language): Intl.PluralRules => {
+  let rules = pluralRules.get(lang);
+  if (!rules) {
+    rules = new Intl.PluralRules(LOCALE_CODES[lang]);
+    pluralRules.set(lang, rules);
+  }
+  return rules;
+};
+
+const selectVariant = (lang: Language, message: Message, count: number): string => {
+  if (typeof message === 'string') return message;
+  return message[getPluralRules(lang).select(count)] ?? message.other;
+};
+
+const interpolate = (lang: Language, text: string, params: MessageParams): string =>
+  text.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = params[name];
+    if (value === undefined) return match;
+    return typeof value === 'number' ? value.toLocaleString(LOCALE_CODES[lang]) : value;
+  });
+
+/**
+ * The UI string for `key` in `lang`, falling back to English. `{name}`
+ * placeholders are filled from `params`; plural messages pick their form
+ * from `params.count`.
+ */
+export const translate = (lang: Language, key: MessageKey, params?: MessageParams): string => {
+  const message = CATALOGS[lang]?.[key] ?? en[key];
+  const count = typeof params?.count === 'number' ? params.count : 0;
+  const text = selectVariant(lang, message, count);
+  return params ? interpolate(lang, text, params) : text;
+};
+
+/** The language's name as a speaker of `displayLang` would write it, e.g. Spanish → "Spanisch" for German. */
+export const languageName = (lang: Language, displayLang: Language): string => {
+  try {
+    const names = new Intl.DisplayNames([LOCALE_CODES[displayLang]], { type: 'language' });
+    return names.of(LOCALE_CODES[lang]) ?? lang;
+  } catch {
+    return lang;
+  }
+};
+
+/**
+ * Problems the compiler can't see: empty strings, and plural messages
+ * missing a form the locale's plural rules can select. Run in development
+ * so gaps show up before a learner hits them.
+ */
+export const findMissingMessages = (): string[] => {
+  const problems: string[] = [];
+  for (const lang of Object.values(Language)) {
+    const catalog = CATALOGS[lang];
+    const categories = getPluralRules(lang).resolvedOptions().pluralCategories;
+    for (const key of Object.keys(en) as MessageKey[]) {
+      const message = catalog[key];
+      if (!message) {
+        problems.push(`${lang}: missing "${key}"`);
+        continue;
+      }
+      if (typeof message !== 'string') {
+        const missing = categories.filter(category => !message[category]);
+        if (missing.length) problems.push(`${lang}: "${key}" has no ${missing.join('/')} form`);
+      } else if (typeof en[key] !== 'string') {
+        problems.push(`${lang}: "${key}" should be a plural message`);
+      }
+    }
+  }
+  return problems;
+};
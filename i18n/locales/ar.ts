@@ -0,0 +1,226 @@
+import type { Catalog } from '../catalog';
+
+export const ar: Catalog = {
+  welcome: 'LingoPop',
+  subtitle: 'قاموسك الذكي الممتع',
+  iSpeak: 'أتحدث',
+  iLearn: 'أريد أن أتعلم',
+  start: 'هيا بنا! 🚀',
+  searchPlaceholder: 'اكتب كلمة أو عبارة أو قاعدة نحوية...',
+  examples: 'أمثلة',
+  vibeCheck: 'الإحساس ✨',
+  askAI: 'اسأل الذكاء الاصطناعي عن هذا...',
+  notebookEmpty: 'دفترك فارغ. ابحث عن كلمات رائعة واحفظها!',
+  storyMode: 'وضع القصة 📖',
+  createStory: 'أنشئ قصة',
+  writing: 'نصنع السحر...',
+  myCollection: 'مجموعتي',
+  studyTime: 'وقت الدراسة ({current}/{total})',
+  tapReveal: 'اضغط للكشف',
+  roleplay: 'لعب الأدوار',
+  search: 'بحث',
+  notebook: 'الدفتر',
+  learn: 'تعلّم',
+  chooseScenario: 'اختر سيناريو',
+  endSession: 'إنهاء وتقييم',
+  reportCard: 'بطاقة التقييم',
+  sessionNotSaved: 'تعذّر حفظ هذه الجلسة في سجلك، لكن تقريرك أدناه.',
+  fluencyScore: 'الطلاقة',
+  corrections: 'التصحيحات',
+  backMenu: 'العودة إلى القائمة',
+  aiTyping: 'الذكاء الاصطناعي يكتب...',
+  errorGeneric: 'حدث خطأ ما. حاول مرة أخرى.',
+  errorNetwork: 'تعذّر الوصول إلى الخادم. تحقّق من اتصالك أو من أن إحدى إضافات المتصفح لا تحظر الطلب.',
+  errorValidation: 'لا يمكن البحث عن ذلك. جرّب شيئًا أقصر.',
+  errorQuota: 'LingoPop مشغول جدًا الآن. حاول مرة أخرى بعد قليل.',
+  errorRateLimited: 'تمهّل! انتظر لحظة ثم حاول مرة أخرى.',
+  errorSafety: 'حظر مرشّح الأمان هذا الطلب. جرّب كلمة أخرى.',
+  errorTimeout: 'استغرق الذكاء الاصطناعي وقتًا طويلًا للرد. حاول مرة أخرى.',
+  again: 'مجددًا',
+  hard: 'صعب',
+  good: 'جيد',
+  easy: 'سهل',
+  allCaughtUp: 'أنهيت كل شيء! لا توجد بطاقات مستحقة.',
+  nextReview: 'المراجعة التالية',
+  notebooks: 'الدفتر',
+  backup: 'النسخ الاحتياطي والتصدير',
+  exportBackup: 'نسخة احتياطية (JSON)',
+  exportAnki: 'Anki (TSV)',
+  exportCsv: 'CSV',
+  importNotebook: 'استيراد',
+  importedCount: {
+    zero: 'لم يُستورد أي إدخال',
+    one: 'تم استيراد إدخال واحد',
+    two: 'تم استيراد إدخالين',
+    few: 'تم استيراد {count} إدخالات',
+    many: 'تم استيراد {count} إدخالًا',
+    other: 'تم استيراد {count} إدخال',
+  },
+  duplicatesSkipped: {
+    zero: 'لا توجد تكرارات',
+    one: 'تم تخطي تكرار واحد',
+    two: 'تم تخطي تكرارين',
+    few: 'تم تخطي {count} تكرارات',
+    many: 'تم تخطي {count} تكرارًا',
+    other: 'تم تخطي {count} تكرار',
+  },
+  unreadableSkipped: {
+    zero: 'لا توجد سجلات غير مقروءة',
+    one: 'تم تخطي سجل واحد غير مقروء',
+    two: 'تم تخطي سجلين غير مقروءين',
+    few: 'تم تخطي {count} سجلات غير مقروءة',
+    many: 'تم تخطي {count} سجلًا غير مقروء',
+    other: 'تم تخطي {count} سجل غير مقروء',
+  },
+  importFailed: 'تعذّرت قراءة هذا الملف.',
+  stop: 'إيقاف',
+  repeatAfterMe: '🎤 كرّر بعدي',
+  checking: 'جارٍ التحقق...',
+  pronunciationScore: 'النطق',
+  weHeard: 'سمعنا',
+  micDenied: 'يلزم الوصول إلى الميكروفون للتدرّب على النطق.',
+  nothingRecorded: 'لم يُسجَّل أي شيء. حاول مرة أخرى.',
+  settings: 'الإعدادات',
+  voice: 'الصوت',
+  imageGeneration: 'صور توضيحية',
+  imageGenerationHint: 'إنشاء صورة مع كل بحث جديد.',
+  storyLength: 'طول القصة',
+  short: 'قصيرة',
+  medium: 'متوسطة',
+  long: 'طويلة',
+  history: 'السجل',
+  sessionHistory: 'الجلسات السابقة',
+  noSessions: 'أنهِ جلسة لعب أدوار لتظهر هنا.',
+  sessionsCount: 'الجلسات',
+  averageScore: 'المتوسط',
+  bestScore: 'الأفضل',
+  scoreTrend: 'تطوّر الدرجات',
+  transcript: 'نص المحادثة',
+  backHistory: 'العودة إلى السجل',
+  deleteSession: 'حذف',
+  saveCorrection: 'احفظ في الدفتر',
+  saveAllCorrections: 'احفظ الكل في الدفتر',
+  savingCorrection: 'جارٍ الحفظ...',
+  savedCorrection: 'في الدفتر',
+  fromRoleplay: 'من لعب الأدوار',
+  youSaid: 'قلتَ',
+  level: 'مستواي',
+  allLevels: 'الكل',
+  createScenario: 'أنشئ سيناريو خاصًا بك',
+  editScenario: 'تعديل السيناريو',
+  deleteScenario: 'حذف',
+  scenarioTitle: 'العنوان',
+  scenarioTitleHint: 'إرجاع هاتف معطّل',
+  scenarioDescription: 'الموقف',
+  scenarioDescriptionHint: 'ما الذي يحدث وما الذي عليك تحقيقه',
+  scenarioPersona: 'يؤدي الذكاء الاصطناعي دور',
+  scenarioPersonaHint: 'بائع متعب قبل الإغلاق',
+  scenarioSetting: 'المكان',
+  scenarioSettingHint: 'متجر إلكترونيات مساء السبت',
+  scenarioOpeningLine: 'الجملة الافتتاحية',
+  scenarioOpeningLineHint: 'أول ما يقوله الذكاء الاصطناعي',
+  saveScenario: 'حفظ',
+  savedScenario: 'محفوظ',
+  cancel: 'إلغاء',
+  edit: 'تعديل',
+  myScenarios: 'سيناريوهاتي',
+  suggestedScenarios: 'مقترحة',
+  scenarioTheme: 'الموضوع (اختياري)، مثل مقابلة عمل',
+  regenerate: 'أفكار جديدة',
+  objectives: 'الأهداف',
+  objectivesHint: 'هدف في كل سطر، مثل طلب مشروب',
+  objectiveTooLong: 'اجعل كل هدف أقل من {max} حرفًا.',
+  inlineCorrections: 'صحّح أثناء المحادثة',
+  inlineCorrectionsHint: 'يراجع كل رسالة تكتبها أثناء لعب الأدوار',
+  looksGood: 'ممتاز!',
+  showCorrection: 'إظهار التصحيح',
+  hideCorrection: 'إخفاء التصحيح',
+  translateLine: 'ترجمة',
+  explainLine: 'شرح',
+  suggestReply: 'اقترح ردًا',
+  typeHere: 'اكتب هنا...',
+  grading: 'جارٍ التقييم...',
+  gradingFailed: 'تعذّر تقييم هذه المحادثة.',
+  retryGrading: 'إعادة المحاولة',
+  offlineBanner: 'أنت غير متصل. الكلمات المحفوظة تعمل، وسيتم تنفيذ عمليات البحث الجديدة عند عودة الاتصال.',
+  lookupQueued: 'لا يوجد اتصال. سنبحث عن «{term}» فور عودتك إلى الإنترنت.',
+  queuedLookups: 'بانتظار الاتصال',
+  offlineLookupsResolved: {
+    zero: 'لم يتم البحث عن أي كلمة.',
+    one: 'تم البحث عن كلمة واحدة من وقت انقطاع الاتصال. إنها في دفترك.',
+    two: 'تم البحث عن كلمتين من وقت انقطاع الاتصال. إنهما في دفترك.',
+    few: 'تم البحث عن {count} كلمات من وقت انقطاع الاتصال. إنها في دفترك.',
+    many: 'تم البحث عن {count} كلمة من وقت انقطاع الاتصال. إنها في دفترك.',
+    other: 'تم البحث عن {count} كلمة من وقت انقطاع الاتصال. إنها في دفترك.',
+  },
+  storageUsed: 'التخزين: {used} مستخدمة من {quota}',
+  storageAlmostFull: 'مساحة التخزين على وشك الامتلاء. صدّر نسخة احتياطية لحماية كلماتك.',
+  storageFull: 'لا توجد مساحة كافية على هذا الجهاز، لذا لم تُحفظ آخر تغييراتك. صدّر نسخة احتياطية وحرّر بعض المساحة.',
+  storageFailed: 'تعذّر حفظ دفترك على هذا الجهاز.',
+  searchNotebook: 'ابحث في دفترك',
+  tags: 'الوسوم',
+  addTag: 'أضف وسمًا',
+  removeTag: 'احذف الوسم',
+  typeWord: 'كلمات',
+  typePhrase: 'عبارات',
+  typeGrammar: 'قواعد',
+  allTypes: 'كل الأنواع',
+  addedAny: 'أُضيفت في أي وقت',
+  addedDay: 'أُضيفت اليوم',
+  addedWeek: 'أُضيفت هذا الأسبوع',
+  addedMonth: 'أُضيفت هذا الشهر',
+  reviewAny: 'أي حالة مراجعة',
+  reviewNew: 'لم تُدرس بعد',
+  reviewDue: 'حان وقت مراجعتها',
+  reviewLearned: 'تم تعلّمها',
+  sortBy: 'الترتيب',
+  sortNewest: 'الأحدث أولًا',
+  sortOldest: 'الأقدم أولًا',
+  sortAlphabetical: 'أبجديًا',
+  sortDue: 'الأقرب موعدًا للمراجعة',
+  sortLevel: 'حسب المستوى',
+  filterCount: 'عرض {shown} من {total}',
+  clearFilters: 'مسح عوامل التصفية',
+  studyThese: {
+    zero: 'لا توجد بطاقات للدراسة',
+    one: 'ادرس بطاقة واحدة',
+    two: 'ادرس بطاقتين',
+    few: 'ادرس {count} بطاقات',
+    many: 'ادرس {count} بطاقة',
+    other: 'ادرس {count} بطاقة',
+  },
+  storyUsesFiltered: {
+    zero: 'لا توجد كلمات معروضة للقصة.',
+    one: 'ستستخدم القصة الكلمة المعروضة.',
+    two: 'ستستخدم القصة الكلمتين المعروضتين.',
+    few: 'ستستخدم القصة {count} كلمات معروضة.',
+    many: 'ستستخدم القصة {count} كلمة معروضة.',
+    other: 'ستستخدم القصة {count} كلمة معروضة.',
+  },
+  studyingSubset: {
+    zero: 'لا توجد بطاقات مختارة',
+    one: 'تدرس بطاقة واحدة مختارة من دفترك',
+    two: 'تدرس بطاقتين مختارتين من دفترك',
+    few: 'تدرس {count} بطاقات مختارة من دفترك',
+    many: 'تدرس {count} بطاقة مختارة من دفترك',
+    other: 'تدرس {count} بطاقة مختارة من دفترك',
+  },
+  studyAllDue: 'راجع كل ما حان وقته',
+  noMatches: 'لا توجد إدخالات تطابق عوامل التصفية هذه.',
+  phonetic: 'النطق',
+  definition: 'التعريف',
+  regeneratePhonetic: 'جرّب نطقًا آخر',
+  regenerateDefinition: 'أعد كتابة التعريف',
+  regenerateUsageNote: 'أعد كتابة ملاحظة الاستخدام',
+  moreExamples: 'أمثلة أخرى',
+  generating: 'جارٍ الإنشاء…',
+  newImage: 'صورة جديدة',
+  addImage: 'أضف صورة',
+  saveChanges: 'احفظ التغييرات',
+  undoEdit: 'تراجع عن التعديل',
+  undoRegenerate: 'تراجع عن إعادة الإنشاء',
+  exampleSentence: 'جملة المثال',
+  exampleTranslation: 'الترجمة',
+  addExample: 'أضف مثالًا',
+  removeExample: 'احذف المثال',
+};
@@ -0,0 +1,198 @@
+import type { Catalog } from '../catalog';
+
+export const de: Catalog = {
+  welcome: 'LingoPop',
+  subtitle: 'Dein verspieltes KI-Wörterbuch',
+  iSpeak: 'ICH SPRECHE',
+  iLearn: 'ICH LERNE',
+  start: 'Los geht\'s! 🚀',
+  searchPlaceholder: 'Wort, Ausdruck oder Grammatikpunkt eingeben...',
+  examples: 'Beispiele',
+  vibeCheck: 'Stimmungscheck ✨',
+  askAI: 'Frag die KI dazu...',
+  notebookEmpty: 'Dein Notizbuch ist leer. Such ein paar coole Wörter und speichere sie!',
+  storyMode: 'Geschichtenmodus 📖',
+  createStory: 'Geschichte erstellen',
+  writing: 'Magie im Gange...',
+  myCollection: 'Meine Sammlung',
+  studyTime: 'Lernzeit ({current}/{total})',
+  tapReveal: 'Zum Aufdecken tippen',
+  roleplay: 'Rollenspiel',
+  search: 'Suchen',
+  notebook: 'Notizbuch',
+  learn: 'Lernen',
+  chooseScenario: 'Wähle ein Szenario',
+  endSession: 'Beenden und bewerten',
+  reportCard: 'Zeugnis',
+  sessionNotSaved: 'Diese Sitzung konnte nicht im Verlauf gespeichert werden, aber hier ist dein Bericht.',
+  fluencyScore: 'Sprachfluss',
+  corrections: 'Korrekturen',
+  backMenu: 'Zurück zum Menü',
+  aiTyping: 'Die KI schreibt...',
+  errorGeneric: 'Etwas ist schiefgelaufen. Bitte versuch es noch einmal.',
+  errorNetwork: 'Der Server ist nicht erreichbar. Prüfe deine Verbindung oder ob eine Browsererweiterung die Anfrage blockiert.',
+  errorValidation: 'Danach kann nicht gesucht werden. Versuch etwas Kürzeres.',
+  errorQuota: 'LingoPop ist gerade sehr gefragt. Versuch es gleich noch einmal.',
+  errorRateLimited: 'Langsam! Warte kurz und versuch es dann erneut.',
+  errorSafety: 'Der Sicherheitsfilter hat die Anfrage blockiert. Versuch einen anderen Begriff.',
+  errorTimeout: 'Die KI hat zu lange gebraucht. Bitte versuch es noch einmal.',
+  again: 'Nochmal',
+  hard: 'Schwer',
+  good: 'Gut',
+  easy: 'Leicht',
+  allCaughtUp: 'Alles erledigt! Keine Karten fällig.',
+  nextReview: 'Nächste Wiederholung',
+  notebooks: 'Notizbuch',
+  backup: 'Sicherung und Export',
+  exportBackup: 'Sicherung (JSON)',
+  exportAnki: 'Anki (TSV)',
+  exportCsv: 'CSV',
+  importNotebook: 'Importieren',
+  importedCount: {
+    one: '{count} Eintrag importiert',
+    other: '{count} Einträge importiert',
+  },
+  duplicatesSkipped: {
+    one: '{count} Duplikat übersprungen',
+    other: '{count} Duplikate übersprungen',
+  },
+  unreadableSkipped: {
+    one: '{count} unlesbarer Eintrag übersprungen',
+    other: '{count} unlesbare Einträge übersprungen',
+  },
+  importFailed: 'Diese Datei konnte nicht gelesen werden.',
+  stop: 'Stopp',
+  repeatAfterMe: '🎤 Sprich mir nach',
+  checking: 'Wird geprüft...',
+  pronunciationScore: 'Aussprache',
+  weHeard: 'Wir haben gehört',
+  micDenied: 'Für das Aussprachetraining wird Zugriff aufs Mikrofon benötigt.',
+  nothingRecorded: 'Es wurde nichts aufgenommen. Bitte versuch es noch einmal.',
+  settings: 'Einstellungen',
+  voice: 'Stimme',
+  imageGeneration: 'Konzeptbilder',
+  imageGenerationHint: 'Erzeugt bei jeder neuen Suche ein Bild.',
+  storyLength: 'Länge der Geschichte',
+  short: 'Kurz',
+  medium: 'Mittel',
+  long: 'Lang',
+  history: 'Verlauf',
+  sessionHistory: 'Frühere Sitzungen',
+  noSessions: 'Beende ein Rollenspiel, um es hier zu sehen.',
+  sessionsCount: 'Sitzungen',
+  averageScore: 'Durchschnitt',
+  bestScore: 'Bestwert',
+  scoreTrend: 'Punkteverlauf',
+  transcript: 'Verlauf des Gesprächs',
+  backHistory: 'Zurück zum Verlauf',
+  deleteSession: 'Löschen',
+  saveCorrection: 'Ins Notizbuch',
+  saveAllCorrections: 'Alle ins Notizbuch',
+  savingCorrection: 'Wird gespeichert...',
+  savedCorrection: 'Im Notizbuch',
+  fromRoleplay: 'Aus einem Rollenspiel',
+  youSaid: 'Du hast gesagt',
+  level: 'Mein Niveau',
+  allLevels: 'Alle',
+  createScenario: 'Eigenes Szenario erstellen',
+  editScenario: 'Szenario bearbeiten',
+  deleteScenario: 'Löschen',
+  scenarioTitle: 'Titel',
+  scenarioTitleHint: 'Ein defektes Handy zurückgeben',
+  scenarioDescription: 'Situation',
+  scenarioDescriptionHint: 'Was passiert und was du erreichen willst',
+  scenarioPersona: 'Die KI spielt',
+  scenarioPersonaHint: 'Ein müder Verkäufer kurz vor Ladenschluss',
+  scenarioSetting: 'Schauplatz',
+  scenarioSettingHint: 'Ein Elektronikladen am Samstagabend',
+  scenarioOpeningLine: 'Erster Satz',
+  scenarioOpeningLineHint: 'Das Erste, was die KI sagt',
+  saveScenario: 'Speichern',
+  savedScenario: 'Gespeichert',
+  cancel: 'Abbrechen',
+  edit: 'Bearbeiten',
+  myScenarios: 'Meine Szenarien',
+  suggestedScenarios: 'Vorschläge',
+  scenarioTheme: 'Thema (optional), z. B. Vorstellungsgespräch',
+  regenerate: 'Neue Ideen',
+  objectives: 'Ziele',
+  objectivesHint: 'Eins pro Zeile, z. B. Ein Getränk bestellen',
+  objectiveTooLong: 'Jedes Ziel darf höchstens {max} Zeichen lang sein.',
+  inlineCorrections: 'Direkt korrigieren',
+  inlineCorrectionsHint: 'Prüft jede deiner Nachrichten während des Rollenspiels',
+  looksGood: 'Sieht gut aus',
+  showCorrection: 'Korrektur zeigen',
+  hideCorrection: 'Korrektur ausblenden',
+  translateLine: 'Übersetzen',
+  explainLine: 'Erklären',
+  suggestReply: 'Antwort vorschlagen',
+  typeHere: 'Hier tippen...',
+  grading: 'Wird bewertet...',
+  gradingFailed: 'Dieses Gespräch konnte nicht bewertet werden.',
+  retryGrading: 'Erneut versuchen',
+  offlineBanner: 'Du bist offline. Gespeicherte Wörter funktionieren weiter, neue Suchen laufen, sobald du wieder verbunden bist.',
+  lookupQueued: 'Keine Verbindung. Wir suchen „{term}“, sobald du wieder online bist.',
+  queuedLookups: 'Wartet auf Verbindung',
+  offlineLookupsResolved: {
+    one: '{count} Wort aus deiner Offline-Zeit nachgeschlagen. Es ist in deinem Notizbuch.',
+    other: '{count} Wörter aus deiner Offline-Zeit nachgeschlagen. Sie sind in deinem Notizbuch.',
+  },
+  storageUsed: 'Speicher: {used} von {quota} belegt',
+  storageAlmostFull: 'Der Speicher ist fast voll. Exportiere eine Sicherung, damit deine Wörter sicher sind.',
+  storageFull: 'Auf diesem Gerät ist kein Speicher mehr frei, deine letzten Änderungen wurden nicht gespeichert. Exportiere eine Sicherung und schaffe Platz.',
+  storageFailed: 'Dein Notizbuch konnte auf diesem Gerät nicht gespeichert werden.',
+  searchNotebook: 'Notizbuch durchsuchen',
+  tags: 'Tags',
+  addTag: 'Tag hinzufügen',
+  removeTag: 'Tag entfernen',
+  typeWord: 'Wörter',
+  typePhrase: 'Wendungen',
+  typeGrammar: 'Grammatik',
+  allTypes: 'Alle Arten',
+  addedAny: 'Jederzeit hinzugefügt',
+  addedDay: 'Heute hinzugefügt',
+  addedWeek: 'Diese Woche hinzugefügt',
+  addedMonth: 'Diesen Monat hinzugefügt',
+  reviewAny: 'Jeder Lernstand',
+  reviewNew: 'Noch nicht gelernt',
+  reviewDue: 'Zur Wiederholung fällig',
+  reviewLearned: 'Gelernt',
+  sortBy: 'Sortieren nach',
+  sortNewest: 'Neueste zuerst',
+  sortOldest: 'Älteste zuerst',
+  sortAlphabetical: 'A bis Z',
+  sortDue: 'Bald fällig',
+  sortLevel: 'Nach Niveau',
+  filterCount: '{shown} von {total} angezeigt',
+  clearFilters: 'Filter zurücksetzen',
+  studyThese: {
+    one: '{count} Karte lernen',
+    other: '{count} Karten lernen',
+  },
+  storyUsesFiltered: {
+    one: 'Die Geschichte verwendet das angezeigte {count} Wort.',
+    other: 'Die Geschichte verwendet die {count} angezeigten Wörter.',
+  },
+  studyingSubset: {
+    one: 'Du lernst {count} Karte aus deinem Notizbuch',
+    other: 'Du lernst {count} Karten aus deinem Notizbuch',
+  },
+  studyAllDue: 'Alles Fällige wiederholen',
+  noMatches: 'Keine Einträge passen zu diesen Filtern.',
+  phonetic: 'Aussprache',
+  definition: 'Definition',
+  regeneratePhonetic: 'Andere Aussprache versuchen',
+  regenerateDefinition: 'Definition neu schreiben',
+  regenerateUsageNote: 'Hinweis neu schreiben',
+  moreExamples: 'Mehr Beispiele',
+  generating: 'Wird erstellt…',
+  newImage: 'Neues Bild',
+  addImage: 'Bild hinzufügen',
+  saveChanges: 'Änderungen speichern',
+  undoEdit: 'Bearbeitung rückgängig',
+  undoRegenerate: 'Neu erstellen rückgängig',
+  exampleSentence: 'Beispielsatz',
+  exampleTranslation: 'Übersetzung',
+  addExample: 'Beispiel hinzufügen',
+  removeExample: 'Beispiel entfernen',
+};
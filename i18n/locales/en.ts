@@ -0,0 +1,199 @@
+import type { Message } from '../catalog';
+
+// The reference catalog: its keys define MessageKey, and every other locale must match it
+export const en = {
+  welcome: 'LingoPop',
+  subtitle: 'Your Fun AI Dictionary Companion',
+  iSpeak: 'I SPEAK',
+  iLearn: 'I WANT TO LEARN',
+  start: 'Let\'s Go! 🚀',
+  searchPlaceholder: 'Type a word, phrase, or grammar point...',
+  examples: 'Examples',
+  vibeCheck: 'The Vibe Check ✨',
+  askAI: 'Ask AI about this...',
+  notebookEmpty: 'Your notebook is empty. Go search and save some cool words!',
+  storyMode: 'Story Mode 📖',
+  createStory: 'Create Story',
+  writing: 'Writing Magic...',
+  myCollection: 'My Collection',
+  studyTime: 'Study Time ({current}/{total})',
+  tapReveal: 'Tap to reveal',
+  roleplay: 'Roleplay',
+  search: 'Search',
+  notebook: 'Notebook',
+  learn: 'Learn',
+  chooseScenario: 'Choose a Scenario',
+  endSession: 'End & Evaluate',
+  reportCard: 'Report Card',
+  sessionNotSaved: 'This session couldn\'t be saved to your history, but your report is below.',
+  fluencyScore: 'Fluency Score',
+  corrections: 'Corrections',
+  backMenu: 'Back to Menu',
+  aiTyping: 'AI is typing...',
+  errorGeneric: 'Something went wrong. Please try again.',
+  errorNetwork: 'Couldn\'t reach the server. Check your connection, or a browser extension might be blocking the request.',
+  errorValidation: 'That input can\'t be looked up. Try something shorter.',
+  errorQuota: 'LingoPop is very busy right now. Please try again in a bit.',
+  errorRateLimited: 'Whoa, slow down! Please wait a moment and try again.',
+  errorSafety: 'That request was blocked by the safety filter. Try a different term.',
+  errorTimeout: 'The AI took too long to answer. Please try again.',
+  again: 'Again',
+  hard: 'Hard',
+  good: 'Good',
+  easy: 'Easy',
+  allCaughtUp: 'All caught up! No cards are due.',
+  nextReview: 'Next review',
+  notebooks: 'Notebook',
+  backup: 'Backup & Export',
+  exportBackup: 'Backup (JSON)',
+  exportAnki: 'Anki (TSV)',
+  exportCsv: 'CSV',
+  importNotebook: 'Import',
+  importedCount: {
+    one: 'Imported {count} entry',
+    other: 'Imported {count} entries',
+  },
+  duplicatesSkipped: {
+    one: '{count} duplicate skipped',
+    other: '{count} duplicates skipped',
+  },
+  unreadableSkipped: {
+    one: '{count} unreadable record skipped',
+    other: '{count} unreadable records skipped',
+  },
+  importFailed: 'Could not read that file.',
+  stop: 'Stop',
+  repeatAfterMe: '🎤 Repeat after me',
+  checking: 'Checking...',
+  pronunciationScore: 'Pronunciation',
+  weHeard: 'We heard',
+  micDenied: 'Microphone access is needed to practise pronunciation.',
+  nothingRecorded: 'Nothing was recorded. Please try again.',
+  settings: 'Settings',
+  voice: 'Voice',
+  imageGeneration: 'Concept images',
+  imageGenerationHint: 'Generate a picture for every new lookup.',
+  storyLength: 'Story length',
+  short: 'Short',
+  medium: 'Medium',
+  long: 'Long',
+  history: 'History',
+  sessionHistory: 'Past Sessions',
+  noSessions: 'Finish a roleplay to see it here.',
+  sessionsCount: 'Sessions',
+  averageScore: 'Average',
+  bestScore: 'Best',
+  scoreTrend: 'Score trend',
+  transcript: 'Transcript',
+  backHistory: 'Back to History',
+  deleteSession: 'Delete',
+  saveCorrection: 'Save to notebook',
+  saveAllCorrections: 'Save all to notebook',
+  savingCorrection: 'Saving...',
+  savedCorrection: 'In notebook',
+  fromRoleplay: 'From roleplay',
+  youSaid: 'You said',
+  level: 'My level',
+  allLevels: 'All',
+  createScenario: 'Create your own scenario',
+  editScenario: 'Edit scenario',
+  deleteScenario: 'Delete',
+  scenarioTitle: 'Title',
+  scenarioTitleHint: 'Returning a faulty phone',
+  scenarioDescription: 'Situation',
+  scenarioDescriptionHint: 'What\'s going on and what you need to achieve',
+  scenarioPersona: 'AI plays',
+  scenarioPersonaHint: 'A tired shop assistant near closing time',
+  scenarioSetting: 'Setting',
+  scenarioSettingHint: 'An electronics store on a Saturday evening',
+  scenarioOpeningLine: 'Opening line',
+  scenarioOpeningLineHint: 'The first thing the AI says',
+  saveScenario: 'Save',
+  savedScenario: 'Saved',
+  cancel: 'Cancel',
+  edit: 'Edit',
+  myScenarios: 'My Scenarios',
+  suggestedScenarios: 'Suggested',
+  scenarioTheme: 'Theme (optional), e.g. job interview',
+  regenerate: 'New ideas',
+  objectives: 'Objectives',
+  objectivesHint: 'One per line, e.g. Order a drink',
+  objectiveTooLong: 'Keep each objective to {max} characters or fewer.',
+  inlineCorrections: 'Fix as I go',
+  inlineCorrectionsHint: 'Check each of your messages for mistakes during the roleplay',
+  looksGood: 'Looks good',
+  showCorrection: 'See correction',
+  hideCorrection: 'Hide correction',
+  translateLine: 'Translate',
+  explainLine: 'Explain',
+  suggestReply: 'Suggest a reply',
+  typeHere: 'Type here...',
+  grading: 'Grading...',
+  gradingFailed: 'We couldn\'t grade this conversation.',
+  retryGrading: 'Try again',
+  offlineBanner: 'You\'re offline. Saved words still work, and new lookups will run when you reconnect.',
+  lookupQueued: 'No connection. We\'ll look up “{term}” as soon as you\'re back online.',
+  queuedLookups: 'Waiting for a connection',
+  offlineLookupsResolved: {
+    one: 'Looked up {count} word from while you were offline. It\'s in your notebook.',
+    other: 'Looked up {count} words from while you were offline. They\'re in your notebook.',
+  },
+  storageUsed: 'Storage: {used} of {quota} used',
+  storageAlmostFull: 'Storage is almost full. Export a backup to keep your words safe.',
+  storageFull: 'This device is out of storage, so your latest changes weren\'t saved. Export a backup and free up some space.',
+  storageFailed: 'Couldn\'t save your notebook on this device.',
+  searchNotebook: 'Search your notebook',
+  tags: 'Tags',
+  addTag: 'Add a tag',
+  removeTag: 'Remove tag',
+  typeWord: 'Words',
+  typePhrase: 'Phrases',
+  typeGrammar: 'Grammar',
+  allTypes: 'All types',
+  addedAny: 'Added any time',
+  addedDay: 'Added today',
+  addedWeek: 'Added this week',
+  addedMonth: 'Added this month',
+  reviewAny: 'Any review status',
+  reviewNew: 'Not studied yet',
+  reviewDue: 'Due for review',
+  reviewLearned: 'Learned',
+  sortBy: 'Sort by',
+  sortNewest: 'Newest first',
+  sortOldest: 'Oldest first',
+  sortAlphabetical: 'A to Z',
+  sortDue: 'Due soonest',
+  sortLevel: 'By level',
+  filterCount: 'Showing {shown} of {total}',
+  clearFilters: 'Clear filters',
+  studyThese: {
+    one: 'Study {count} card',
+    other: 'Study {count} cards',
+  },
+  storyUsesFiltered: {
+    one: 'The story will use the {count} word shown.',
+    other: 'The story will use the {count} words shown.',
+  },
+  studyingSubset: {
+    one: 'Studying {count} card picked from your notebook',
+    other: 'Studying {count} cards picked from your notebook',
+  },
+  studyAllDue: 'Review everything due',
+  noMatches: 'No entries match these filters.',
+  phonetic: 'Reading',
+  definition: 'Definition',
+  regeneratePhonetic: 'Try a different reading',
+  regenerateDefinition: 'Rewrite the definition',
+  regenerateUsageNote: 'Rewrite the usage note',
+  moreExamples: 'More examples',
+  generating: 'Generating…',
+  newImage: 'New image',
+  addImage: 'Add an image',
+  saveChanges: 'Save changes',
+  undoEdit: 'Undo edit',
+  undoRegenerate: 'Undo regenerate',
+  exampleSentence: 'Example sentence',
+  exampleTranslation: 'Translation',
+  addExample: 'Add an example',
+  removeExample: 'Remove example',
+} satisfies Record<string, Message>;
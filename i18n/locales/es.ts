@@ -0,0 +1,205 @@
+import type { Catalog } from '../catalog';
+
+export const es: Catalog = {
+  welcome: 'LingoPop',
+  subtitle: 'Tu divertido diccionario con IA',
+  iSpeak: 'HABLO',
+  iLearn: 'QUIERO APRENDER',
+  start: '¡Vamos! 🚀',
+  searchPlaceholder: 'Escribe una palabra, frase o punto gramatical...',
+  examples: 'Ejemplos',
+  vibeCheck: 'El toque ✨',
+  askAI: 'Pregúntale a la IA sobre esto...',
+  notebookEmpty: 'Tu cuaderno está vacío. ¡Busca y guarda algunas palabras geniales!',
+  storyMode: 'Modo historia 📖',
+  createStory: 'Crear historia',
+  writing: 'Haciendo magia...',
+  myCollection: 'Mi colección',
+  studyTime: 'Hora de estudiar ({current}/{total})',
+  tapReveal: 'Toca para ver',
+  roleplay: 'Rol',
+  search: 'Buscar',
+  notebook: 'Cuaderno',
+  learn: 'Aprender',
+  chooseScenario: 'Elige un escenario',
+  endSession: 'Terminar y evaluar',
+  reportCard: 'Boletín',
+  sessionNotSaved: 'No se pudo guardar esta sesión en tu historial, pero aquí tienes tu informe.',
+  fluencyScore: 'Fluidez',
+  corrections: 'Correcciones',
+  backMenu: 'Volver al menú',
+  aiTyping: 'La IA está escribiendo...',
+  errorGeneric: 'Algo salió mal. Inténtalo de nuevo.',
+  errorNetwork: 'No se pudo conectar con el servidor. Revisa tu conexión o si alguna extensión del navegador está bloqueando la solicitud.',
+  errorValidation: 'No se puede buscar eso. Prueba con algo más corto.',
+  errorQuota: 'LingoPop está muy ocupado ahora mismo. Vuelve a intentarlo en un rato.',
+  errorRateLimited: '¡Más despacio! Espera un momento y vuelve a intentarlo.',
+  errorSafety: 'El filtro de seguridad bloqueó la solicitud. Prueba con otro término.',
+  errorTimeout: 'La IA tardó demasiado en responder. Inténtalo de nuevo.',
+  again: 'Otra vez',
+  hard: 'Difícil',
+  good: 'Bien',
+  easy: 'Fácil',
+  allCaughtUp: '¡Todo al día! No hay tarjetas pendientes.',
+  nextReview: 'Próximo repaso',
+  notebooks: 'Cuaderno',
+  backup: 'Copia y exportación',
+  exportBackup: 'Copia (JSON)',
+  exportAnki: 'Anki (TSV)',
+  exportCsv: 'CSV',
+  importNotebook: 'Importar',
+  importedCount: {
+    one: '{count} entrada importada',
+    many: '{count} de entradas importadas',
+    other: '{count} entradas importadas',
+  },
+  duplicatesSkipped: {
+    one: '{count} duplicado omitido',
+    many: '{count} de duplicados omitidos',
+    other: '{count} duplicados omitidos',
+  },
+  unreadableSkipped: {
+    one: '{count} registro ilegible omitido',
+    many: '{count} de registros ilegibles omitidos',
+    other: '{count} registros ilegibles omitidos',
+  },
+  importFailed: 'No se pudo leer ese archivo.',
+  stop: 'Detener',
+  repeatAfterMe: '🎤 Repite conmigo',
+  checking: 'Comprobando...',
+  pronunciationScore: 'Pronunciación',
+  weHeard: 'Escuchamos',
+  micDenied: 'Se necesita acceso al micrófono para practicar la pronunciación.',
+  nothingRecorded: 'No se grabó nada. Inténtalo de nuevo.',
+  settings: 'Ajustes',
+  voice: 'Voz',
+  imageGeneration: 'Imágenes conceptuales',
+  imageGenerationHint: 'Genera una imagen en cada búsqueda nueva.',
+  storyLength: 'Longitud de la historia',
+  short: 'Corta',
+  medium: 'Media',
+  long: 'Larga',
+  history: 'Historial',
+  sessionHistory: 'Sesiones anteriores',
+  noSessions: 'Termina un juego de rol para verlo aquí.',
+  sessionsCount: 'Sesiones',
+  averageScore: 'Media',
+  bestScore: 'Mejor',
+  scoreTrend: 'Evolución',
+  transcript: 'Transcripción',
+  backHistory: 'Volver al historial',
+  deleteSession: 'Eliminar',
+  saveCorrection: 'Guardar en el cuaderno',
+  saveAllCorrections: 'Guardar todo en el cuaderno',
+  savingCorrection: 'Guardando...',
+  savedCorrection: 'En el cuaderno',
+  fromRoleplay: 'Del juego de rol',
+  youSaid: 'Dijiste',
+  level: 'Mi nivel',
+  allLevels: 'Todos',
+  createScenario: 'Crea tu propio escenario',
+  editScenario: 'Editar escenario',
+  deleteScenario: 'Eliminar',
+  scenarioTitle: 'Título',
+  scenarioTitleHint: 'Devolver un móvil defectuoso',
+  scenarioDescription: 'Situación',
+  scenarioDescriptionHint: 'Qué está pasando y qué necesitas conseguir',
+  scenarioPersona: 'La IA interpreta a',
+  scenarioPersonaHint: 'Un dependiente cansado a punto de cerrar',
+  scenarioSetting: 'Ambientación',
+  scenarioSettingHint: 'Una tienda de electrónica un sábado por la tarde',
+  scenarioOpeningLine: 'Primera frase',
+  scenarioOpeningLineHint: 'Lo primero que dice la IA',
+  saveScenario: 'Guardar',
+  savedScenario: 'Guardado',
+  cancel: 'Cancelar',
+  edit: 'Editar',
+  myScenarios: 'Mis escenarios',
+  suggestedScenarios: 'Sugeridos',
+  scenarioTheme: 'Tema (opcional), p. ej. entrevista de trabajo',
+  regenerate: 'Nuevas ideas',
+  objectives: 'Objetivos',
+  objectivesHint: 'Uno por línea, p. ej. Pedir una bebida',
+  objectiveTooLong: 'Cada objetivo debe tener menos de {max} caracteres.',
+  inlineCorrections: 'Corregir sobre la marcha',
+  inlineCorrectionsHint: 'Revisa cada uno de tus mensajes durante el juego de rol',
+  looksGood: '¡Bien!',
+  showCorrection: 'Ver corrección',
+  hideCorrection: 'Ocultar corrección',
+  translateLine: 'Traducir',
+  explainLine: 'Explicar',
+  suggestReply: 'Sugerir respuesta',
+  typeHere: 'Escribe aquí...',
+  grading: 'Evaluando...',
+  gradingFailed: 'No pudimos evaluar esta conversación.',
+  retryGrading: 'Reintentar',
+  offlineBanner: 'Estás sin conexión. Las palabras guardadas siguen funcionando y las búsquedas nuevas se harán al reconectarte.',
+  lookupQueued: 'Sin conexión. Buscaremos «{term}» en cuanto vuelvas a estar en línea.',
+  queuedLookups: 'Esperando conexión',
+  offlineLookupsResolved: {
+    one: 'Buscamos {count} palabra pendiente de cuando estabas sin conexión. Está en tu cuaderno.',
+    many: 'Buscamos {count} de palabras pendientes de cuando estabas sin conexión. Están en tu cuaderno.',
+    other: 'Buscamos {count} palabras pendientes de cuando estabas sin conexión. Están en tu cuaderno.',
+  },
+  storageUsed: 'Almacenamiento: {used} de {quota} usados',
+  storageAlmostFull: 'El almacenamiento está casi lleno. Exporta una copia para proteger tus palabras.',
+  storageFull: 'Este dispositivo no tiene espacio y tus últimos cambios no se guardaron. Exporta una copia y libera espacio.',
+  storageFailed: 'No se pudo guardar tu cuaderno en este dispositivo.',
+  searchNotebook: 'Busca en tu cuaderno',
+  tags: 'Etiquetas',
+  addTag: 'Añadir etiqueta',
+  removeTag: 'Quitar etiqueta',
+  typeWord: 'Palabras',
+  typePhrase: 'Frases',
+  typeGrammar: 'Gramática',
+  allTypes: 'Todos los tipos',
+  addedAny: 'Añadidas en cualquier momento',
+  addedDay: 'Añadidas hoy',
+  addedWeek: 'Añadidas esta semana',
+  addedMonth: 'Añadidas este mes',
+  reviewAny: 'Cualquier estado',
+  reviewNew: 'Sin estudiar',
+  reviewDue: 'Pendientes de repaso',
+  reviewLearned: 'Aprendidas',
+  sortBy: 'Ordenar por',
+  sortNewest: 'Más recientes',
+  sortOldest: 'Más antiguas',
+  sortAlphabetical: 'De la A a la Z',
+  sortDue: 'Próximas a repasar',
+  sortLevel: 'Por nivel',
+  filterCount: 'Mostrando {shown} de {total}',
+  clearFilters: 'Quitar filtros',
+  studyThese: {
+    one: 'Estudiar {count} tarjeta',
+    many: 'Estudiar {count} de tarjetas',
+    other: 'Estudiar {count} tarjetas',
+  },
+  storyUsesFiltered: {
+    one: 'La historia usará la {count} palabra mostrada.',
+    many: 'La historia usará los {count} de palabras mostradas.',
+    other: 'La historia usará las {count} palabras mostradas.',
+  },
+  studyingSubset: {
+    one: 'Estudiando {count} tarjeta elegida de tu cuaderno',
+    many: 'Estudiando {count} de tarjetas elegidas de tu cuaderno',
+    other: 'Estudiando {count} tarjetas elegidas de tu cuaderno',
+  },
+  studyAllDue: 'Repasar todo lo pendiente',
+  noMatches: 'Ninguna entrada coincide con estos filtros.',
+  phonetic: 'Pronunciación',
+  definition: 'Definición',
+  regeneratePhonetic: 'Probar otra pronunciación',
+  regenerateDefinition: 'Reescribir la definición',
+  regenerateUsageNote: 'Reescribir la nota de uso',
+  moreExamples: 'Más ejemplos',
+  generating: 'Generando…',
+  newImage: 'Nueva imagen',
+  addImage: 'Añadir imagen',
+  saveChanges: 'Guardar cambios',
+  undoEdit: 'Deshacer edición',
+  undoRegenerate: 'Deshacer regeneración',
+  exampleSentence: 'Frase de ejemplo',
+  exampleTranslation: 'Traducción',
+  addExample: 'Añadir ejemplo',
+  removeExample: 'Quitar ejemplo',
+};
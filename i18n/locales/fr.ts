@@ -0,0 +1,205 @@
+import type { Catalog } from '../catalog';
+
+export const fr: Catalog = {
+  welcome: 'LingoPop',
+  subtitle: 'Ton dictionnaire IA ludique',
+  iSpeak: 'JE PARLE',
+  iLearn: 'JE VEUX APPRENDRE',
+  start: 'C\'est parti ! 🚀',
+  searchPlaceholder: 'Tape un mot, une expression ou un point de grammaire...',
+  examples: 'Exemples',
+  vibeCheck: 'L\'ambiance ✨',
+  askAI: 'Pose une question à l\'IA...',
+  notebookEmpty: 'Ton carnet est vide. Va chercher et enregistrer quelques mots sympas !',
+  storyMode: 'Mode histoire 📖',
+  createStory: 'Créer une histoire',
+  writing: 'Un peu de magie...',
+  myCollection: 'Ma collection',
+  studyTime: 'C\'est l\'heure de réviser ({current}/{total})',
+  tapReveal: 'Touche pour révéler',
+  roleplay: 'Jeu de rôle',
+  search: 'Chercher',
+  notebook: 'Carnet',
+  learn: 'Réviser',
+  chooseScenario: 'Choisis un scénario',
+  endSession: 'Terminer et évaluer',
+  reportCard: 'Bulletin',
+  sessionNotSaved: 'Impossible d\'enregistrer cette session dans ton historique, mais voici ton bilan.',
+  fluencyScore: 'Aisance',
+  corrections: 'Corrections',
+  backMenu: 'Retour au menu',
+  aiTyping: 'L\'IA écrit...',
+  errorGeneric: 'Un problème est survenu. Réessaie.',
+  errorNetwork: 'Impossible de joindre le serveur. Vérifie ta connexion, ou une extension du navigateur bloque peut-être la requête.',
+  errorValidation: 'Impossible de chercher ceci. Essaie quelque chose de plus court.',
+  errorQuota: 'LingoPop est très sollicité en ce moment. Réessaie dans un instant.',
+  errorRateLimited: 'Doucement ! Attends un moment avant de réessayer.',
+  errorSafety: 'Le filtre de sécurité a bloqué la requête. Essaie un autre terme.',
+  errorTimeout: 'L\'IA a mis trop de temps à répondre. Réessaie.',
+  again: 'À revoir',
+  hard: 'Difficile',
+  good: 'Bien',
+  easy: 'Facile',
+  allCaughtUp: 'Tout est à jour ! Aucune carte à réviser.',
+  nextReview: 'Prochaine révision',
+  notebooks: 'Carnet',
+  backup: 'Sauvegarde et export',
+  exportBackup: 'Sauvegarde (JSON)',
+  exportAnki: 'Anki (TSV)',
+  exportCsv: 'CSV',
+  importNotebook: 'Importer',
+  importedCount: {
+    one: '{count} entrée importée',
+    many: '{count} d\'entrées importées',
+    other: '{count} entrées importées',
+  },
+  duplicatesSkipped: {
+    one: '{count} doublon ignoré',
+    many: '{count} de doublons ignorés',
+    other: '{count} doublons ignorés',
+  },
+  unreadableSkipped: {
+    one: '{count} enregistrement illisible ignoré',
+    many: '{count} d\'enregistrements illisibles ignorés',
+    other: '{count} enregistrements illisibles ignorés',
+  },
+  importFailed: 'Impossible de lire ce fichier.',
+  stop: 'Arrêter',
+  repeatAfterMe: '🎤 Répète après moi',
+  checking: 'Vérification...',
+  pronunciationScore: 'Prononciation',
+  weHeard: 'Nous avons entendu',
+  micDenied: 'L\'accès au micro est nécessaire pour travailler la prononciation.',
+  nothingRecorded: 'Rien n\'a été enregistré. Réessaie.',
+  settings: 'Réglages',
+  voice: 'Voix',
+  imageGeneration: 'Images d\'illustration',
+  imageGenerationHint: 'Génère une image à chaque nouvelle recherche.',
+  storyLength: 'Longueur de l\'histoire',
+  short: 'Courte',
+  medium: 'Moyenne',
+  long: 'Longue',
+  history: 'Historique',
+  sessionHistory: 'Sessions passées',
+  noSessions: 'Termine un jeu de rôle pour le retrouver ici.',
+  sessionsCount: 'Sessions',
+  averageScore: 'Moyenne',
+  bestScore: 'Meilleur',
+  scoreTrend: 'Évolution du score',
+  transcript: 'Transcription',
+  backHistory: 'Retour à l\'historique',
+  deleteSession: 'Supprimer',
+  saveCorrection: 'Ajouter au carnet',
+  saveAllCorrections: 'Tout ajouter au carnet',
+  savingCorrection: 'Enregistrement...',
+  savedCorrection: 'Dans le carnet',
+  fromRoleplay: 'Tiré d\'un jeu de rôle',
+  youSaid: 'Tu as dit',
+  level: 'Mon niveau',
+  allLevels: 'Tous',
+  createScenario: 'Crée ton propre scénario',
+  editScenario: 'Modifier le scénario',
+  deleteScenario: 'Supprimer',
+  scenarioTitle: 'Titre',
+  scenarioTitleHint: 'Rapporter un téléphone défectueux',
+  scenarioDescription: 'Situation',
+  scenarioDescriptionHint: 'Ce qui se passe et ce que tu dois obtenir',
+  scenarioPersona: 'L\'IA joue',
+  scenarioPersonaHint: 'Un vendeur fatigué juste avant la fermeture',
+  scenarioSetting: 'Cadre',
+  scenarioSettingHint: 'Un magasin d\'électronique un samedi soir',
+  scenarioOpeningLine: 'Première réplique',
+  scenarioOpeningLineHint: 'La première chose que dit l\'IA',
+  saveScenario: 'Enregistrer',
+  savedScenario: 'Enregistré',
+  cancel: 'Annuler',
+  edit: 'Modifier',
+  myScenarios: 'Mes scénarios',
+  suggestedScenarios: 'Suggestions',
+  scenarioTheme: 'Thème (facultatif), ex. entretien d\'embauche',
+  regenerate: 'Nouvelles idées',
+  objectives: 'Objectifs',
+  objectivesHint: 'Un par ligne, ex. Commander une boisson',
+  objectiveTooLong: 'Chaque objectif doit faire moins de {max} caractères.',
+  inlineCorrections: 'Corriger au fil de l\'eau',
+  inlineCorrectionsHint: 'Vérifie chacun de tes messages pendant le jeu de rôle',
+  looksGood: 'C\'est bon',
+  showCorrection: 'Voir la correction',
+  hideCorrection: 'Masquer la correction',
+  translateLine: 'Traduire',
+  explainLine: 'Expliquer',
+  suggestReply: 'Suggérer une réponse',
+  typeHere: 'Écris ici...',
+  grading: 'Évaluation...',
+  gradingFailed: 'Impossible d\'évaluer cette conversation.',
+  retryGrading: 'Réessayer',
+  offlineBanner: 'Tu es hors ligne. Les mots enregistrés restent disponibles, et les nouvelles recherches se feront à la reconnexion.',
+  lookupQueued: 'Pas de connexion. Nous chercherons « {term} » dès ton retour en ligne.',
+  queuedLookups: 'En attente de connexion',
+  offlineLookupsResolved: {
+    one: '{count} mot recherché pendant que tu étais hors ligne. Il est dans ton carnet.',
+    many: '{count} de mots recherchés pendant que tu étais hors ligne. Ils sont dans ton carnet.',
+    other: '{count} mots recherchés pendant que tu étais hors ligne. Ils sont dans ton carnet.',
+  },
+  storageUsed: 'Stockage : {used} utilisés sur {quota}',
+  storageAlmostFull: 'Le stockage est presque plein. Exporte une sauvegarde pour protéger tes mots.',
+  storageFull: 'Cet appareil n\'a plus de place : tes dernières modifications n\'ont pas été enregistrées. Exporte une sauvegarde et libère de l\'espace.',
+  storageFailed: 'Impossible d\'enregistrer ton carnet sur cet appareil.',
+  searchNotebook: 'Rechercher dans ton carnet',
+  tags: 'Étiquettes',
+  addTag: 'Ajouter une étiquette',
+  removeTag: 'Retirer l\'étiquette',
+  typeWord: 'Mots',
+  typePhrase: 'Expressions',
+  typeGrammar: 'Grammaire',
+  allTypes: 'Tous les types',
+  addedAny: 'Ajoutés à tout moment',
+  addedDay: 'Ajoutés aujourd\'hui',
+  addedWeek: 'Ajoutés cette semaine',
+  addedMonth: 'Ajoutés ce mois-ci',
+  reviewAny: 'Tout statut de révision',
+  reviewNew: 'Pas encore étudiés',
+  reviewDue: 'À réviser',
+  reviewLearned: 'Acquis',
+  sortBy: 'Trier par',
+  sortNewest: 'Plus récents',
+  sortOldest: 'Plus anciens',
+  sortAlphabetical: 'De A à Z',
+  sortDue: 'À réviser bientôt',
+  sortLevel: 'Par niveau',
+  filterCount: '{shown} sur {total} affichés',
+  clearFilters: 'Effacer les filtres',
+  studyThese: {
+    one: 'Étudier {count} carte',
+    many: 'Étudier {count} de cartes',
+    other: 'Étudier {count} cartes',
+  },
+  storyUsesFiltered: {
+    one: 'L\'histoire utilisera le {count} mot affiché.',
+    many: 'L\'histoire utilisera les {count} de mots affichés.',
+    other: 'L\'histoire utilisera les {count} mots affichés.',
+  },
+  studyingSubset: {
+    one: 'Révision de {count} carte choisie dans ton carnet',
+    many: 'Révision de {count} de cartes choisies dans ton carnet',
+    other: 'Révision de {count} cartes choisies dans ton carnet',
+  },
+  studyAllDue: 'Réviser tout ce qui est dû',
+  noMatches: 'Aucune entrée ne correspond à ces filtres.',
+  phonetic: 'Prononciation',
+  definition: 'Définition',
+  regeneratePhonetic: 'Essayer une autre prononciation',
+  regenerateDefinition: 'Réécrire la définition',
+  regenerateUsageNote: 'Réécrire la note d\'usage',
+  moreExamples: 'Plus d\'exemples',
+  generating: 'Génération…',
+  newImage: 'Nouvelle image',
+  addImage: 'Ajouter une image',
+  saveChanges: 'Enregistrer',
+  undoEdit: 'Annuler la modification',
+  undoRegenerate: 'Annuler la régénération',
+  exampleSentence: 'Phrase d\'exemple',
+  exampleTranslation: 'Traduction',
+  addExample: 'Ajouter un exemple',
+  removeExample: 'Retirer l\'exemple',
+};
@@ -0,0 +1,191 @@
+import type { Catalog } from '../catalog';
+
+export const ja: Catalog = {
+  welcome: 'LingoPop',
+  subtitle: '楽しく使えるAI辞書',
+  iSpeak: '話せる言語',
+  iLearn: '学びたい言語',
+  start: 'はじめよう！🚀',
+  searchPlaceholder: '単語、フレーズ、文法を入力...',
+  examples: '例文',
+  vibeCheck: 'ニュアンス ✨',
+  askAI: 'これについてAIに質問...',
+  notebookEmpty: 'ノートは空です。気になる単語を検索して保存しよう！',
+  storyMode: 'ストーリーモード 📖',
+  createStory: 'ストーリーを作る',
+  writing: '魔法をかけています...',
+  myCollection: 'マイコレクション',
+  studyTime: '学習タイム（{current}/{total}）',
+  tapReveal: 'タップして表示',
+  roleplay: 'ロールプレイ',
+  search: '検索',
+  notebook: 'ノート',
+  learn: '学習',
+  chooseScenario: 'シナリオを選ぶ',
+  endSession: '終了して評価',
+  reportCard: '成績表',
+  sessionNotSaved: 'このセッションを履歴に保存できませんでしたが、レポートは下に表示されています。',
+  fluencyScore: '流暢さ',
+  corrections: '添削',
+  backMenu: 'メニューに戻る',
+  aiTyping: 'AIが入力中...',
+  errorGeneric: '問題が発生しました。もう一度お試しください。',
+  errorNetwork: 'サーバーに接続できません。接続状況を確認するか、ブラウザの拡張機能がリクエストをブロックしていないか確認してください。',
+  errorValidation: 'その内容は検索できません。もっと短くしてみてください。',
+  errorQuota: '現在LingoPopが混み合っています。しばらくしてからお試しください。',
+  errorRateLimited: 'ちょっと待って！少し時間をおいてからお試しください。',
+  errorSafety: '安全フィルターによってブロックされました。別の言葉を試してください。',
+  errorTimeout: 'AIの応答に時間がかかりすぎました。もう一度お試しください。',
+  again: 'もう一度',
+  hard: '難しい',
+  good: '普通',
+  easy: '簡単',
+  allCaughtUp: '全部終わりました！復習するカードはありません。',
+  nextReview: '次の復習',
+  notebooks: 'ノート',
+  backup: 'バックアップとエクスポート',
+  exportBackup: 'バックアップ (JSON)',
+  exportAnki: 'Anki (TSV)',
+  exportCsv: 'CSV',
+  importNotebook: 'インポート',
+  importedCount: {
+    other: '{count}件インポートしました',
+  },
+  duplicatesSkipped: {
+    other: '重複{count}件をスキップ',
+  },
+  unreadableSkipped: {
+    other: '読み込めないデータ{count}件をスキップ',
+  },
+  importFailed: 'ファイルを読み込めませんでした。',
+  stop: '停止',
+  repeatAfterMe: '🎤 リピートしてみよう',
+  checking: '確認中...',
+  pronunciationScore: '発音',
+  weHeard: '聞き取った内容',
+  micDenied: '発音練習にはマイクへのアクセスが必要です。',
+  nothingRecorded: '何も録音されませんでした。もう一度お試しください。',
+  settings: '設定',
+  voice: '音声',
+  imageGeneration: 'イメージ画像',
+  imageGenerationHint: '新しく検索するたびに画像を生成します。',
+  storyLength: 'ストーリーの長さ',
+  short: '短い',
+  medium: '普通',
+  long: '長い',
+  history: '履歴',
+  sessionHistory: '過去のセッション',
+  noSessions: 'ロールプレイを終えるとここに表示されます。',
+  sessionsCount: 'セッション数',
+  averageScore: '平均',
+  bestScore: '最高',
+  scoreTrend: 'スコアの推移',
+  transcript: '会話記録',
+  backHistory: '履歴に戻る',
+  deleteSession: '削除',
+  saveCorrection: 'ノートに保存',
+  saveAllCorrections: 'すべてノートに保存',
+  savingCorrection: '保存中...',
+  savedCorrection: 'ノートに保存済み',
+  fromRoleplay: 'ロールプレイから',
+  youSaid: 'あなたの発言',
+  level: '自分のレベル',
+  allLevels: 'すべて',
+  createScenario: 'オリジナルのシナリオを作る',
+  editScenario: 'シナリオを編集',
+  deleteScenario: '削除',
+  scenarioTitle: 'タイトル',
+  scenarioTitleHint: '故障したスマホを返品する',
+  scenarioDescription: '状況',
+  scenarioDescriptionHint: '何が起きていて、何を達成したいか',
+  scenarioPersona: 'AIの役',
+  scenarioPersonaHint: '閉店間際で疲れた店員',
+  scenarioSetting: '場面',
+  scenarioSettingHint: '土曜の夜の家電量販店',
+  scenarioOpeningLine: '最初のセリフ',
+  scenarioOpeningLineHint: 'AIが最初に言うこと',
+  saveScenario: '保存',
+  savedScenario: '保存済み',
+  cancel: 'キャンセル',
+  edit: '編集',
+  myScenarios: 'マイシナリオ',
+  suggestedScenarios: 'おすすめ',
+  scenarioTheme: 'テーマ（任意）例：就職面接',
+  regenerate: '新しいアイデア',
+  objectives: '目標',
+  objectivesHint: '1行に1つ　例：飲み物を注文する',
+  objectiveTooLong: '目標はそれぞれ{max}文字以内にしてください。',
+  inlineCorrections: 'その場で添削',
+  inlineCorrectionsHint: 'ロールプレイ中にメッセージを一つずつチェックします',
+  looksGood: 'いい感じ！',
+  showCorrection: '添削を見る',
+  hideCorrection: '添削を隠す',
+  translateLine: '翻訳',
+  explainLine: '解説',
+  suggestReply: '返答のヒント',
+  typeHere: 'ここに入力...',
+  grading: '採点中...',
+  gradingFailed: 'この会話を採点できませんでした。',
+  retryGrading: 'もう一度試す',
+  offlineBanner: 'オフラインです。保存した単語は使えます。新しい検索はオンラインに戻ったら実行します。',
+  lookupQueued: '接続がありません。オンラインに戻ったらすぐに「{term}」を検索します。',
+  queuedLookups: '接続待ち',
+  offlineLookupsResolved: {
+    other: 'オフライン中の検索{count}件が完了しました。ノートに追加されています。',
+  },
+  storageUsed: 'ストレージ：{quota}中{used}使用',
+  storageAlmostFull: 'ストレージがほぼいっぱいです。単語を守るためにバックアップをエクスポートしてください。',
+  storageFull: '端末の空き容量が足りず、最新の変更を保存できませんでした。バックアップをエクスポートして空き容量を確保してください。',
+  storageFailed: 'この端末にノートを保存できませんでした。',
+  searchNotebook: 'ノートを検索',
+  tags: 'タグ',
+  addTag: 'タグを追加',
+  removeTag: 'タグを削除',
+  typeWord: '単語',
+  typePhrase: 'フレーズ',
+  typeGrammar: '文法',
+  allTypes: 'すべての種類',
+  addedAny: 'いつでも',
+  addedDay: '今日追加',
+  addedWeek: '今週追加',
+  addedMonth: '今月追加',
+  reviewAny: 'すべての学習状況',
+  reviewNew: '未学習',
+  reviewDue: '復習予定',
+  reviewLearned: '習得済み',
+  sortBy: '並べ替え',
+  sortNewest: '新しい順',
+  sortOldest: '古い順',
+  sortAlphabetical: '五十音・ABC順',
+  sortDue: '復習が近い順',
+  sortLevel: 'レベル順',
+  filterCount: '{total}件中{shown}件を表示',
+  clearFilters: 'フィルターをクリア',
+  studyThese: {
+    other: '{count}枚のカードを学習',
+  },
+  storyUsesFiltered: {
+    other: '表示中の{count}語でストーリーを作ります。',
+  },
+  studyingSubset: {
+    other: 'ノートから選んだ{count}枚のカードを学習中',
+  },
+  studyAllDue: '期限の来たカードをすべて復習',
+  noMatches: '条件に合う項目がありません。',
+  phonetic: '読み方',
+  definition: '意味',
+  regeneratePhonetic: '読み方を作り直す',
+  regenerateDefinition: '意味を書き直す',
+  regenerateUsageNote: '使い方メモを書き直す',
+  moreExamples: '例文を追加',
+  generating: '生成中…',
+  newImage: '別の画像',
+  addImage: '画像を追加',
+  saveChanges: '変更を保存',
+  undoEdit: '編集を取り消す',
+  undoRegenerate: '再生成を取り消す',
+  exampleSentence: '例文',
+  exampleTranslation: '訳',
+  addExample: '例文を追加する',
+  removeExample: '例文を削除',
+};
@@ -0,0 +1,191 @@
+import type { Catalog } from '../catalog';
+
+export const ko: Catalog = {
+  welcome: 'LingoPop',
+  subtitle: '재미있는 AI 사전',
+  iSpeak: '내가 쓰는 언어',
+  iLearn: '배우고 싶은 언어',
+  start: '시작하기! 🚀',
+  searchPlaceholder: '단어, 표현, 문법을 입력하세요...',
+  examples: '예문',
+  vibeCheck: '뉘앙스 체크 ✨',
+  askAI: '이것에 대해 AI에게 물어보기...',
+  notebookEmpty: '단어장이 비어 있어요. 멋진 단어를 검색해서 저장해 보세요!',
+  storyMode: '스토리 모드 📖',
+  createStory: '스토리 만들기',
+  writing: '마법을 부리는 중...',
+  myCollection: '내 컬렉션',
+  studyTime: '공부 시간 ({current}/{total})',
+  tapReveal: '탭해서 보기',
+  roleplay: '롤플레이',
+  search: '검색',
+  notebook: '단어장',
+  learn: '학습',
+  chooseScenario: '시나리오 선택',
+  endSession: '종료하고 평가받기',
+  reportCard: '성적표',
+  sessionNotSaved: '이 세션을 기록에 저장하지 못했지만, 리포트는 아래에서 볼 수 있어요.',
+  fluencyScore: '유창성',
+  corrections: '교정',
+  backMenu: '메뉴로 돌아가기',
+  aiTyping: 'AI가 입력 중...',
+  errorGeneric: '문제가 발생했어요. 다시 시도해 주세요.',
+  errorNetwork: '서버에 연결할 수 없어요. 인터넷 연결을 확인하거나 브라우저 확장 프로그램이 요청을 막고 있는지 확인해 주세요.',
+  errorValidation: '이 내용은 검색할 수 없어요. 더 짧게 입력해 보세요.',
+  errorQuota: '지금 LingoPop 이용자가 많아요. 잠시 후 다시 시도해 주세요.',
+  errorRateLimited: '천천히! 잠시 기다린 후 다시 시도해 주세요.',
+  errorSafety: '안전 필터가 요청을 차단했어요. 다른 단어로 시도해 보세요.',
+  errorTimeout: 'AI 응답이 너무 오래 걸렸어요. 다시 시도해 주세요.',
+  again: '다시',
+  hard: '어려움',
+  good: '보통',
+  easy: '쉬움',
+  allCaughtUp: '모두 끝났어요! 복습할 카드가 없어요.',
+  nextReview: '다음 복습',
+  notebooks: '단어장',
+  backup: '백업 및 내보내기',
+  exportBackup: '백업 (JSON)',
+  exportAnki: 'Anki (TSV)',
+  exportCsv: 'CSV',
+  importNotebook: '가져오기',
+  importedCount: {
+    other: '{count}개 항목을 가져왔어요',
+  },
+  duplicatesSkipped: {
+    other: '중복 {count}개 건너뜀',
+  },
+  unreadableSkipped: {
+    other: '읽을 수 없는 항목 {count}개 건너뜀',
+  },
+  importFailed: '파일을 읽을 수 없어요.',
+  stop: '정지',
+  repeatAfterMe: '🎤 따라 말해 보세요',
+  checking: '확인 중...',
+  pronunciationScore: '발음',
+  weHeard: '들린 내용',
+  micDenied: '발음 연습을 하려면 마이크 접근 권한이 필요해요.',
+  nothingRecorded: '녹음된 내용이 없어요. 다시 시도해 주세요.',
+  settings: '설정',
+  voice: '음성',
+  imageGeneration: '개념 이미지',
+  imageGenerationHint: '새로 검색할 때마다 이미지를 생성해요.',
+  storyLength: '스토리 길이',
+  short: '짧게',
+  medium: '보통',
+  long: '길게',
+  history: '기록',
+  sessionHistory: '지난 세션',
+  noSessions: '롤플레이를 마치면 여기에 표시돼요.',
+  sessionsCount: '세션',
+  averageScore: '평균',
+  bestScore: '최고',
+  scoreTrend: '점수 추이',
+  transcript: '대화 기록',
+  backHistory: '기록으로 돌아가기',
+  deleteSession: '삭제',
+  saveCorrection: '단어장에 저장',
+  saveAllCorrections: '모두 단어장에 저장',
+  savingCorrection: '저장 중...',
+  savedCorrection: '단어장에 있음',
+  fromRoleplay: '롤플레이에서',
+  youSaid: '내가 한 말',
+  level: '내 레벨',
+  allLevels: '전체',
+  createScenario: '나만의 시나리오 만들기',
+  editScenario: '시나리오 편집',
+  deleteScenario: '삭제',
+  scenarioTitle: '제목',
+  scenarioTitleHint: '고장 난 휴대폰 반품하기',
+  scenarioDescription: '상황',
+  scenarioDescriptionHint: '무슨 일이 일어나고 무엇을 해내야 하는지',
+  scenarioPersona: 'AI의 역할',
+  scenarioPersonaHint: '마감 직전의 지친 점원',
+  scenarioSetting: '배경',
+  scenarioSettingHint: '토요일 저녁의 전자제품 매장',
+  scenarioOpeningLine: '첫 대사',
+  scenarioOpeningLineHint: 'AI가 처음 하는 말',
+  saveScenario: '저장',
+  savedScenario: '저장됨',
+  cancel: '취소',
+  edit: '편집',
+  myScenarios: '내 시나리오',
+  suggestedScenarios: '추천',
+  scenarioTheme: '주제 (선택), 예: 면접',
+  regenerate: '새 아이디어',
+  objectives: '목표',
+  objectivesHint: '한 줄에 하나씩, 예: 음료 주문하기',
+  objectiveTooLong: '각 목표는 {max}자 이내로 작성해 주세요.',
+  inlineCorrections: '바로바로 교정',
+  inlineCorrectionsHint: '롤플레이 중에 내 메시지를 하나씩 확인해요',
+  looksGood: '좋아요!',
+  showCorrection: '교정 보기',
+  hideCorrection: '교정 숨기기',
+  translateLine: '번역',
+  explainLine: '설명',
+  suggestReply: '답변 추천',
+  typeHere: '여기에 입력...',
+  grading: '채점 중...',
+  gradingFailed: '이 대화를 채점하지 못했어요.',
+  retryGrading: '다시 시도',
+  offlineBanner: '오프라인 상태예요. 저장한 단어는 그대로 쓸 수 있고, 새 검색은 다시 연결되면 진행돼요.',
+  lookupQueued: '연결이 없어요. 다시 온라인이 되면 바로 “{term}”을(를) 찾아볼게요.',
+  queuedLookups: '연결 대기 중',
+  offlineLookupsResolved: {
+    other: '오프라인일 때 검색한 단어 {count}개를 찾았어요. 단어장에 추가했어요.',
+  },
+  storageUsed: '저장 공간: {quota} 중 {used} 사용',
+  storageAlmostFull: '저장 공간이 거의 찼어요. 단어를 지키려면 백업을 내보내세요.',
+  storageFull: '기기 저장 공간이 부족해서 최근 변경 사항이 저장되지 않았어요. 백업을 내보내고 공간을 확보해 주세요.',
+  storageFailed: '이 기기에 단어장을 저장할 수 없어요.',
+  searchNotebook: '단어장 검색',
+  tags: '태그',
+  addTag: '태그 추가',
+  removeTag: '태그 삭제',
+  typeWord: '단어',
+  typePhrase: '표현',
+  typeGrammar: '문법',
+  allTypes: '모든 유형',
+  addedAny: '전체 기간',
+  addedDay: '오늘 추가',
+  addedWeek: '이번 주 추가',
+  addedMonth: '이번 달 추가',
+  reviewAny: '모든 학습 상태',
+  reviewNew: '아직 학습 안 함',
+  reviewDue: '복습 예정',
+  reviewLearned: '학습 완료',
+  sortBy: '정렬',
+  sortNewest: '최신순',
+  sortOldest: '오래된순',
+  sortAlphabetical: '가나다·ABC순',
+  sortDue: '복습 임박순',
+  sortLevel: '레벨순',
+  filterCount: '{total}개 중 {shown}개 표시',
+  clearFilters: '필터 지우기',
+  studyThese: {
+    other: '카드 {count}장 학습하기',
+  },
+  storyUsesFiltered: {
+    other: '표시된 단어 {count}개로 이야기를 만들어요.',
+  },
+  studyingSubset: {
+    other: '단어장에서 고른 카드 {count}장 학습 중',
+  },
+  studyAllDue: '복습할 카드 모두 보기',
+  noMatches: '필터에 맞는 항목이 없어요.',
+  phonetic: '발음',
+  definition: '뜻',
+  regeneratePhonetic: '발음 다시 만들기',
+  regenerateDefinition: '뜻 다시 쓰기',
+  regenerateUsageNote: '사용 팁 다시 쓰기',
+  moreExamples: '예문 더 보기',
+  generating: '생성 중…',
+  newImage: '새 이미지',
+  addImage: '이미지 추가',
+  saveChanges: '변경 사항 저장',
+  undoEdit: '편집 취소',
+  undoRegenerate: '다시 생성 취소',
+  exampleSentence: '예문',
+  exampleTranslation: '번역',
+  addExample: '예문 추가',
+  removeExample: '예문 삭제',
+};
@@ -0,0 +1,205 @@
+import type { Catalog } from '../catalog';
+
+export const pt: Catalog = {
+  welcome: 'LingoPop',
+  subtitle: 'Seu dicionário de IA divertido',
+  iSpeak: 'EU FALO',
+  iLearn: 'QUERO APRENDER',
+  start: 'Vamos lá! 🚀',
+  searchPlaceholder: 'Digite uma palavra, expressão ou ponto gramatical...',
+  examples: 'Exemplos',
+  vibeCheck: 'Clima ✨',
+  askAI: 'Pergunte à IA sobre isso...',
+  notebookEmpty: 'Seu caderno está vazio. Pesquise e salve algumas palavras legais!',
+  storyMode: 'Modo história 📖',
+  createStory: 'Criar história',
+  writing: 'Fazendo mágica...',
+  myCollection: 'Minha coleção',
+  studyTime: 'Hora de estudar ({current}/{total})',
+  tapReveal: 'Toque para revelar',
+  roleplay: 'Roleplay',
+  search: 'Buscar',
+  notebook: 'Caderno',
+  learn: 'Estudar',
+  chooseScenario: 'Escolha um cenário',
+  endSession: 'Encerrar e avaliar',
+  reportCard: 'Boletim',
+  sessionNotSaved: 'Não foi possível salvar esta sessão no seu histórico, mas seu relatório está abaixo.',
+  fluencyScore: 'Fluência',
+  corrections: 'Correções',
+  backMenu: 'Voltar ao menu',
+  aiTyping: 'A IA está digitando...',
+  errorGeneric: 'Algo deu errado. Tente novamente.',
+  errorNetwork: 'Não foi possível conectar ao servidor. Verifique sua conexão ou se alguma extensão do navegador está bloqueando a solicitação.',
+  errorValidation: 'Não é possível buscar isso. Tente algo mais curto.',
+  errorQuota: 'O LingoPop está muito ocupado agora. Tente de novo daqui a pouco.',
+  errorRateLimited: 'Calma! Espere um pouco e tente de novo.',
+  errorSafety: 'O filtro de segurança bloqueou a solicitação. Tente outro termo.',
+  errorTimeout: 'A IA demorou demais para responder. Tente novamente.',
+  again: 'De novo',
+  hard: 'Difícil',
+  good: 'Bom',
+  easy: 'Fácil',
+  allCaughtUp: 'Tudo em dia! Nenhum cartão pendente.',
+  nextReview: 'Próxima revisão',
+  notebooks: 'Caderno',
+  backup: 'Backup e exportação',
+  exportBackup: 'Backup (JSON)',
+  exportAnki: 'Anki (TSV)',
+  exportCsv: 'CSV',
+  importNotebook: 'Importar',
+  importedCount: {
+    one: '{count} entrada importada',
+    many: '{count} de entradas importadas',
+    other: '{count} entradas importadas',
+  },
+  duplicatesSkipped: {
+    one: '{count} duplicata ignorada',
+    many: '{count} de duplicatas ignoradas',
+    other: '{count} duplicatas ignoradas',
+  },
+  unreadableSkipped: {
+    one: '{count} registro ilegível ignorado',
+    many: '{count} de registros ilegíveis ignorados',
+    other: '{count} registros ilegíveis ignorados',
+  },
+  importFailed: 'Não foi possível ler esse arquivo.',
+  stop: 'Parar',
+  repeatAfterMe: '🎤 Repita comigo',
+  checking: 'Verificando...',
+  pronunciationScore: 'Pronúncia',
+  weHeard: 'Ouvimos',
+  micDenied: 'É preciso acesso ao microfone para praticar a pronúncia.',
+  nothingRecorded: 'Nada foi gravado. Tente novamente.',
+  settings: 'Configurações',
+  voice: 'Voz',
+  imageGeneration: 'Imagens ilustrativas',
+  imageGenerationHint: 'Gera uma imagem a cada nova busca.',
+  storyLength: 'Tamanho da história',
+  short: 'Curta',
+  medium: 'Média',
+  long: 'Longa',
+  history: 'Histórico',
+  sessionHistory: 'Sessões anteriores',
+  noSessions: 'Termine um roleplay para vê-lo aqui.',
+  sessionsCount: 'Sessões',
+  averageScore: 'Média',
+  bestScore: 'Melhor',
+  scoreTrend: 'Evolução da nota',
+  transcript: 'Transcrição',
+  backHistory: 'Voltar ao histórico',
+  deleteSession: 'Excluir',
+  saveCorrection: 'Salvar no caderno',
+  saveAllCorrections: 'Salvar tudo no caderno',
+  savingCorrection: 'Salvando...',
+  savedCorrection: 'No caderno',
+  fromRoleplay: 'De um roleplay',
+  youSaid: 'Você disse',
+  level: 'Meu nível',
+  allLevels: 'Todos',
+  createScenario: 'Crie seu próprio cenário',
+  editScenario: 'Editar cenário',
+  deleteScenario: 'Excluir',
+  scenarioTitle: 'Título',
+  scenarioTitleHint: 'Devolver um celular com defeito',
+  scenarioDescription: 'Situação',
+  scenarioDescriptionHint: 'O que está acontecendo e o que você precisa conseguir',
+  scenarioPersona: 'A IA interpreta',
+  scenarioPersonaHint: 'Um atendente cansado perto do fechamento',
+  scenarioSetting: 'Ambiente',
+  scenarioSettingHint: 'Uma loja de eletrônicos num sábado à noite',
+  scenarioOpeningLine: 'Primeira fala',
+  scenarioOpeningLineHint: 'A primeira coisa que a IA diz',
+  saveScenario: 'Salvar',
+  savedScenario: 'Salvo',
+  cancel: 'Cancelar',
+  edit: 'Editar',
+  myScenarios: 'Meus cenários',
+  suggestedScenarios: 'Sugestões',
+  scenarioTheme: 'Tema (opcional), ex.: entrevista de emprego',
+  regenerate: 'Novas ideias',
+  objectives: 'Objetivos',
+  objectivesHint: 'Um por linha, ex.: Pedir uma bebida',
+  objectiveTooLong: 'Cada objetivo deve ter menos de {max} caracteres.',
+  inlineCorrections: 'Corrigir na hora',
+  inlineCorrectionsHint: 'Confere cada mensagem sua durante o roleplay',
+  looksGood: 'Está ótimo!',
+  showCorrection: 'Ver correção',
+  hideCorrection: 'Ocultar correção',
+  translateLine: 'Traduzir',
+  explainLine: 'Explicar',
+  suggestReply: 'Sugerir resposta',
+  typeHere: 'Digite aqui...',
+  grading: 'Avaliando...',
+  gradingFailed: 'Não foi possível avaliar esta conversa.',
+  retryGrading: 'Tentar novamente',
+  offlineBanner: 'Você está offline. As palavras salvas continuam funcionando, e as novas buscas serão feitas quando você se reconectar.',
+  lookupQueued: 'Sem conexão. Vamos buscar “{term}” assim que você voltar a ficar online.',
+  queuedLookups: 'Aguardando conexão',
+  offlineLookupsResolved: {
+    one: 'Buscamos {count} palavra de quando você estava offline. Ela está no seu caderno.',
+    many: 'Buscamos {count} de palavras de quando você estava offline. Elas estão no seu caderno.',
+    other: 'Buscamos {count} palavras de quando você estava offline. Elas estão no seu caderno.',
+  },
+  storageUsed: 'Armazenamento: {used} de {quota} usados',
+  storageAlmostFull: 'O armazenamento está quase cheio. Exporte um backup para proteger suas palavras.',
+  storageFull: 'Este dispositivo está sem espaço e suas últimas alterações não foram salvas. Exporte um backup e libere espaço.',
+  storageFailed: 'Não foi possível salvar seu caderno neste dispositivo.',
+  searchNotebook: 'Pesquisar no caderno',
+  tags: 'Tags',
+  addTag: 'Adicionar tag',
+  removeTag: 'Remover tag',
+  typeWord: 'Palavras',
+  typePhrase: 'Expressões',
+  typeGrammar: 'Gramática',
+  allTypes: 'Todos os tipos',
+  addedAny: 'Adicionadas a qualquer momento',
+  addedDay: 'Adicionadas hoje',
+  addedWeek: 'Adicionadas esta semana',
+  addedMonth: 'Adicionadas este mês',
+  reviewAny: 'Qualquer status',
+  reviewNew: 'Ainda não estudadas',
+  reviewDue: 'Para revisar',
+  reviewLearned: 'Aprendidas',
+  sortBy: 'Ordenar por',
+  sortNewest: 'Mais recentes',
+  sortOldest: 'Mais antigas',
+  sortAlphabetical: 'De A a Z',
+  sortDue: 'Revisão mais próxima',
+  sortLevel: 'Por nível',
+  filterCount: 'Mostrando {shown} de {total}',
+  clearFilters: 'Limpar filtros',
+  studyThese: {
+    one: 'Estudar {count} cartão',
+    many: 'Estudar {count} de cartões',
+    other: 'Estudar {count} cartões',
+  },
+  storyUsesFiltered: {
+    one: 'A história vai usar a {count} palavra mostrada.',
+    many: 'A história vai usar os {count} de palavras mostradas.',
+    other: 'A história vai usar as {count} palavras mostradas.',
+  },
+  studyingSubset: {
+    one: 'Estudando {count} cartão escolhido do seu caderno',
+    many: 'Estudando {count} de cartões escolhidos do seu caderno',
+    other: 'Estudando {count} cartões escolhidos do seu caderno',
+  },
+  studyAllDue: 'Revisar tudo o que está pendente',
+  noMatches: 'Nenhuma entrada corresponde a estes filtros.',
+  phonetic: 'Pronúncia',
+  definition: 'Definição',
+  regeneratePhonetic: 'Tentar outra pronúncia',
+  regenerateDefinition: 'Reescrever a definição',
+  regenerateUsageNote: 'Reescrever a nota de uso',
+  moreExamples: 'Mais exemplos',
+  generating: 'Gerando…',
+  newImage: 'Nova imagem',
+  addImage: 'Adicionar imagem',
+  saveChanges: 'Salvar alterações',
+  undoEdit: 'Desfazer edição',
+  undoRegenerate: 'Desfazer regeneração',
+  exampleSentence: 'Frase de exemplo',
+  exampleTranslation: 'Tradução',
+  addExample: 'Adicionar exemplo',
+  removeExample: 'Remover exemplo',
+};
@@ -0,0 +1,212 @@
+import type { Catalog } from '../catalog';
+
+export const ru: Catalog = {
+  welcome: 'LingoPop',
+  subtitle: 'Твой весёлый ИИ-словарь',
+  iSpeak: 'Я ГОВОРЮ НА',
+  iLearn: 'Я ИЗУЧАЮ',
+  start: 'Поехали! 🚀',
+  searchPlaceholder: 'Введи слово, фразу или грамматическую тему...',
+  examples: 'Примеры',
+  vibeCheck: 'Оттенок ✨',
+  askAI: 'Спроси ИИ об этом...',
+  notebookEmpty: 'Твой блокнот пуст. Найди и сохрани несколько классных слов!',
+  storyMode: 'Режим истории 📖',
+  createStory: 'Создать историю',
+  writing: 'Творим магию...',
+  myCollection: 'Моя коллекция',
+  studyTime: 'Время учиться ({current}/{total})',
+  tapReveal: 'Нажми, чтобы открыть',
+  roleplay: 'Ролевая игра',
+  search: 'Поиск',
+  notebook: 'Блокнот',
+  learn: 'Учить',
+  chooseScenario: 'Выбери сценарий',
+  endSession: 'Завершить и оценить',
+  reportCard: 'Табель',
+  sessionNotSaved: 'Не удалось сохранить эту сессию в истории, но отчёт ниже.',
+  fluencyScore: 'Беглость',
+  corrections: 'Исправления',
+  backMenu: 'Назад в меню',
+  aiTyping: 'ИИ печатает...',
+  errorGeneric: 'Что-то пошло не так. Попробуй ещё раз.',
+  errorNetwork: 'Не удаётся связаться с сервером. Проверь подключение или не блокирует ли запрос расширение браузера.',
+  errorValidation: 'Это нельзя найти. Попробуй что-нибудь покороче.',
+  errorQuota: 'Сейчас LingoPop очень загружен. Попробуй чуть позже.',
+  errorRateLimited: 'Не так быстро! Подожди немного и попробуй снова.',
+  errorSafety: 'Фильтр безопасности заблокировал запрос. Попробуй другое слово.',
+  errorTimeout: 'ИИ слишком долго отвечал. Попробуй ещё раз.',
+  again: 'Снова',
+  hard: 'Трудно',
+  good: 'Хорошо',
+  easy: 'Легко',
+  allCaughtUp: 'Всё повторено! Карточек на сегодня нет.',
+  nextReview: 'Следующее повторение',
+  notebooks: 'Блокнот',
+  backup: 'Резервная копия и экспорт',
+  exportBackup: 'Резервная копия (JSON)',
+  exportAnki: 'Anki (TSV)',
+  exportCsv: 'CSV',
+  importNotebook: 'Импорт',
+  importedCount: {
+    one: 'Импортирована {count} запись',
+    few: 'Импортировано {count} записи',
+    many: 'Импортировано {count} записей',
+    other: 'Импортировано {count} записи',
+  },
+  duplicatesSkipped: {
+    one: 'Пропущен {count} дубликат',
+    few: 'Пропущено {count} дубликата',
+    many: 'Пропущено {count} дубликатов',
+    other: 'Пропущено {count} дубликата',
+  },
+  unreadableSkipped: {
+    one: 'Пропущена {count} нечитаемая запись',
+    few: 'Пропущено {count} нечитаемые записи',
+    many: 'Пропущено {count} нечитаемых записей',
+    other: 'Пропущено {count} нечитаемой записи',
+  },
+  importFailed: 'Не удалось прочитать этот файл.',
+  stop: 'Стоп',
+  repeatAfterMe: '🎤 Повтори за мной',
+  checking: 'Проверяем...',
+  pronunciationScore: 'Произношение',
+  weHeard: 'Мы услышали',
+  micDenied: 'Для тренировки произношения нужен доступ к микрофону.',
+  nothingRecorded: 'Ничего не записалось. Попробуйте ещё раз.',
+  settings: 'Настройки',
+  voice: 'Голос',
+  imageGeneration: 'Иллюстрации',
+  imageGenerationHint: 'Создаёт картинку при каждом новом поиске.',
+  storyLength: 'Длина истории',
+  short: 'Короткая',
+  medium: 'Средняя',
+  long: 'Длинная',
+  history: 'История',
+  sessionHistory: 'Прошлые сессии',
+  noSessions: 'Заверши ролевую игру, и она появится здесь.',
+  sessionsCount: 'Сессии',
+  averageScore: 'Среднее',
+  bestScore: 'Лучший',
+  scoreTrend: 'Динамика оценок',
+  transcript: 'Расшифровка',
+  backHistory: 'Назад к истории',
+  deleteSession: 'Удалить',
+  saveCorrection: 'Сохранить в блокнот',
+  saveAllCorrections: 'Сохранить всё в блокнот',
+  savingCorrection: 'Сохраняем...',
+  savedCorrection: 'В блокноте',
+  fromRoleplay: 'Из ролевой игры',
+  youSaid: 'Ты сказал(а)',
+  level: 'Мой уровень',
+  allLevels: 'Все',
+  createScenario: 'Создай свой сценарий',
+  editScenario: 'Изменить сценарий',
+  deleteScenario: 'Удалить',
+  scenarioTitle: 'Название',
+  scenarioTitleHint: 'Вернуть неисправный телефон',
+  scenarioDescription: 'Ситуация',
+  scenarioDescriptionHint: 'Что происходит и чего нужно добиться',
+  scenarioPersona: 'ИИ играет',
+  scenarioPersonaHint: 'Уставший продавец перед закрытием',
+  scenarioSetting: 'Место действия',
+  scenarioSettingHint: 'Магазин электроники в субботу вечером',
+  scenarioOpeningLine: 'Первая реплика',
+  scenarioOpeningLineHint: 'Первое, что скажет ИИ',
+  saveScenario: 'Сохранить',
+  savedScenario: 'Сохранено',
+  cancel: 'Отмена',
+  edit: 'Изменить',
+  myScenarios: 'Мои сценарии',
+  suggestedScenarios: 'Предложенные',
+  scenarioTheme: 'Тема (необязательно), напр. собеседование',
+  regenerate: 'Новые идеи',
+  objectives: 'Цели',
+  objectivesHint: 'По одной в строке, напр. Заказать напиток',
+  objectiveTooLong: 'Каждая цель должна быть не длиннее {max} символов.',
+  inlineCorrections: 'Исправлять по ходу',
+  inlineCorrectionsHint: 'Проверяет каждое твоё сообщение во время ролевой игры',
+  looksGood: 'Отлично!',
+  showCorrection: 'Показать исправление',
+  hideCorrection: 'Скрыть исправление',
+  translateLine: 'Перевести',
+  explainLine: 'Объяснить',
+  suggestReply: 'Подсказать ответ',
+  typeHere: 'Пиши здесь...',
+  grading: 'Оцениваем...',
+  gradingFailed: 'Не удалось оценить этот разговор.',
+  retryGrading: 'Повторить',
+  offlineBanner: 'Нет подключения. Сохранённые слова работают, а новые запросы выполнятся, когда связь вернётся.',
+  lookupQueued: 'Нет подключения. Мы найдём «{term}», как только ты снова будешь в сети.',
+  queuedLookups: 'Ждут подключения',
+  offlineLookupsResolved: {
+    one: 'Найдено {count} слово из офлайн-запросов. Оно в твоём блокноте.',
+    few: 'Найдено {count} слова из офлайн-запросов. Они в твоём блокноте.',
+    many: 'Найдено {count} слов из офлайн-запросов. Они в твоём блокноте.',
+    other: 'Найдено {count} слова из офлайн-запросов. Они в твоём блокноте.',
+  },
+  storageUsed: 'Хранилище: занято {used} из {quota}',
+  storageAlmostFull: 'Хранилище почти заполнено. Экспортируй резервную копию, чтобы сохранить слова.',
+  storageFull: 'На устройстве закончилось место, последние изменения не сохранены. Экспортируй резервную копию и освободи место.',
+  storageFailed: 'Не удалось сохранить блокнот на этом устройстве.',
+  searchNotebook: 'Поиск по блокноту',
+  tags: 'Теги',
+  addTag: 'Добавить тег',
+  removeTag: 'Удалить тег',
+  typeWord: 'Слова',
+  typePhrase: 'Фразы',
+  typeGrammar: 'Грамматика',
+  allTypes: 'Все типы',
+  addedAny: 'Добавлены когда угодно',
+  addedDay: 'Добавлены сегодня',
+  addedWeek: 'Добавлены на этой неделе',
+  addedMonth: 'Добавлены в этом месяце',
+  reviewAny: 'Любой статус',
+  reviewNew: 'Ещё не изучены',
+  reviewDue: 'Пора повторить',
+  reviewLearned: 'Выучены',
+  sortBy: 'Сортировка',
+  sortNewest: 'Сначала новые',
+  sortOldest: 'Сначала старые',
+  sortAlphabetical: 'По алфавиту',
+  sortDue: 'Скоро повторять',
+  sortLevel: 'По уровню',
+  filterCount: 'Показано {shown} из {total}',
+  clearFilters: 'Сбросить фильтры',
+  studyThese: {
+    one: 'Учить {count} карточку',
+    few: 'Учить {count} карточки',
+    many: 'Учить {count} карточек',
+    other: 'Учить {count} карточки',
+  },
+  storyUsesFiltered: {
+    one: 'В истории будет {count} показанное слово.',
+    few: 'В истории будут {count} показанных слова.',
+    many: 'В истории будут {count} показанных слов.',
+    other: 'В истории будут {count} показанного слова.',
+  },
+  studyingSubset: {
+    one: 'Учишь {count} карточку из блокнота',
+    few: 'Учишь {count} карточки из блокнота',
+    many: 'Учишь {count} карточек из блокнота',
+    other: 'Учишь {count} карточки из блокнота',
+  },
+  studyAllDue: 'Повторить всё, что пора',
+  noMatches: 'Нет записей, подходящих под эти фильтры.',
+  phonetic: 'Произношение',
+  definition: 'Значение',
+  regeneratePhonetic: 'Другое произношение',
+  regenerateDefinition: 'Переписать значение',
+  regenerateUsageNote: 'Переписать заметку',
+  moreExamples: 'Ещё примеры',
+  generating: 'Создаём…',
+  newImage: 'Новая картинка',
+  addImage: 'Добавить картинку',
+  saveChanges: 'Сохранить изменения',
+  undoEdit: 'Отменить правку',
+  undoRegenerate: 'Отменить перегенерацию',
+  exampleSentence: 'Пример',
+  exampleTranslation: 'Перевод',
+  addExample: 'Добавить пример',
+  removeExample: 'Удалить пример',
+};
@@ -0,0 +1,191 @@
+import type { Catalog } from '../catalog';
+
+export const zh: Catalog = {
+  welcome: 'LingoPop 灵语',
+  subtitle: '你的 AI 趣味词典助手',
+  iSpeak: '我的母语',
+  iLearn: '我想学',
+  start: '开始探索! 🚀',
+  searchPlaceholder: '输入单词、短语或语法句式...',
+  examples: '例句',
+  vibeCheck: '语境 & 贴士 ✨',
+  askAI: '向 AI 提问...',
+  notebookEmpty: '笔记本是空的。快去查词并收藏吧！',
+  storyMode: '故事模式 📖',
+  createStory: '生成故事',
+  writing: '正在创作...',
+  myCollection: '我的收藏',
+  studyTime: '学习时间 ({current}/{total})',
+  tapReveal: '点击翻转',
+  roleplay: '情景对话',
+  search: '查词',
+  notebook: '生词本',
+  learn: '闪卡',
+  chooseScenario: '选择一个场景',
+  endSession: '结束并评分',
+  reportCard: '对话评估',
+  sessionNotSaved: '本次对话未能保存到历史记录，但你的报告如下。',
+  fluencyScore: '流利度评分',
+  corrections: '纠错与建议',
+  backMenu: '返回菜单',
+  aiTyping: 'AI 正在输入...',
+  errorGeneric: '出错了，请重试。',
+  errorNetwork: '无法连接服务器。请检查网络，或是否有浏览器插件拦截了请求。',
+  errorValidation: '无法查询该内容，请尝试更短的输入。',
+  errorQuota: '服务繁忙，请稍后再试。',
+  errorRateLimited: '操作太快啦！请稍等片刻再试。',
+  errorSafety: '该请求被安全过滤器拦截，请换个词试试。',
+  errorTimeout: 'AI 响应超时，请重试。',
+  again: '重来',
+  hard: '困难',
+  good: '良好',
+  easy: '简单',
+  allCaughtUp: '全部复习完啦！暂无到期卡片。',
+  nextReview: '下次复习',
+  notebooks: '生词本',
+  backup: '备份与导出',
+  exportBackup: '备份 (JSON)',
+  exportAnki: 'Anki (TSV)',
+  exportCsv: 'CSV',
+  importNotebook: '导入',
+  importedCount: {
+    other: '已导入 {count} 条',
+  },
+  duplicatesSkipped: {
+    other: '已跳过 {count} 条重复',
+  },
+  unreadableSkipped: {
+    other: '已跳过 {count} 条无法读取的记录',
+  },
+  importFailed: '无法读取该文件。',
+  stop: '停止',
+  repeatAfterMe: '🎤 跟我读',
+  checking: '评分中...',
+  pronunciationScore: '发音评分',
+  weHeard: '识别结果',
+  micDenied: '需要麦克风权限才能练习发音。',
+  nothingRecorded: '没有录到声音，请再试一次。',
+  settings: '设置',
+  voice: '发音人',
+  imageGeneration: '概念配图',
+  imageGenerationHint: '每次查词时生成一张配图。',
+  storyLength: '故事长度',
+  short: '短',
+  medium: '中',
+  long: '长',
+  history: '历史',
+  sessionHistory: '历史对话',
+  noSessions: '完成一次角色扮演后会显示在这里。',
+  sessionsCount: '次数',
+  averageScore: '平均',
+  bestScore: '最佳',
+  scoreTrend: '得分趋势',
+  transcript: '对话记录',
+  backHistory: '返回历史',
+  deleteSession: '删除',
+  saveCorrection: '存入生词本',
+  saveAllCorrections: '全部存入生词本',
+  savingCorrection: '保存中...',
+  savedCorrection: '已在生词本',
+  fromRoleplay: '来自角色扮演',
+  youSaid: '你说的是',
+  level: '我的水平',
+  allLevels: '全部',
+  createScenario: '自己创建场景',
+  editScenario: '编辑场景',
+  deleteScenario: '删除',
+  scenarioTitle: '标题',
+  scenarioTitleHint: '退换有问题的手机',
+  scenarioDescription: '情境',
+  scenarioDescriptionHint: '发生了什么，你需要达成什么',
+  scenarioPersona: 'AI 扮演',
+  scenarioPersonaHint: '快下班的疲惫店员',
+  scenarioSetting: '场景设定',
+  scenarioSettingHint: '周六傍晚的电器店',
+  scenarioOpeningLine: '开场白',
+  scenarioOpeningLineHint: 'AI 说的第一句话',
+  saveScenario: '保存',
+  savedScenario: '已保存',
+  cancel: '取消',
+  edit: '编辑',
+  myScenarios: '我的场景',
+  suggestedScenarios: '推荐场景',
+  scenarioTheme: '主题（可选），例如：求职面试',
+  regenerate: '换一批',
+  objectives: '任务目标',
+  objectivesHint: '每行一个，例如：点一杯饮料',
+  objectiveTooLong: '每个目标请不要超过 {max} 个字符。',
+  inlineCorrections: '边聊边改',
+  inlineCorrectionsHint: '角色扮演时逐条检查你的消息',
+  looksGood: '没问题',
+  showCorrection: '查看修改',
+  hideCorrection: '收起修改',
+  translateLine: '翻译',
+  explainLine: '讲解',
+  suggestReply: '推荐回复',
+  typeHere: '在这里输入...',
+  grading: '评分中...',
+  gradingFailed: '无法为这次对话评分。',
+  retryGrading: '重试',
+  offlineBanner: '你已离线。已保存的单词仍可使用，新的查询会在恢复联网后进行。',
+  lookupQueued: '没有网络连接。恢复联网后我们会立即查询“{term}”。',
+  queuedLookups: '等待网络连接',
+  offlineLookupsResolved: {
+    other: '已完成离线时的 {count} 个查询，结果已加入你的笔记本。',
+  },
+  storageUsed: '存储空间：已用 {used}，共 {quota}',
+  storageAlmostFull: '存储空间快满了。导出备份以保护你的单词。',
+  storageFull: '设备存储空间不足，最近的更改未能保存。请导出备份并释放一些空间。',
+  storageFailed: '无法在此设备上保存你的笔记本。',
+  searchNotebook: '搜索笔记本',
+  tags: '标签',
+  addTag: '添加标签',
+  removeTag: '移除标签',
+  typeWord: '单词',
+  typePhrase: '短语',
+  typeGrammar: '语法',
+  allTypes: '全部类型',
+  addedAny: '任何时间添加',
+  addedDay: '今天添加',
+  addedWeek: '本周添加',
+  addedMonth: '本月添加',
+  reviewAny: '任意复习状态',
+  reviewNew: '尚未学习',
+  reviewDue: '待复习',
+  reviewLearned: '已掌握',
+  sortBy: '排序方式',
+  sortNewest: '最新优先',
+  sortOldest: '最早优先',
+  sortAlphabetical: '按字母顺序',
+  sortDue: '最快到期',
+  sortLevel: '按等级',
+  filterCount: '显示 {shown} / {total}',
+  clearFilters: '清除筛选',
+  studyThese: {
+    other: '学习 {count} 张卡片',
+  },
+  storyUsesFiltered: {
+    other: '故事将使用显示的 {count} 个单词。',
+  },
+  studyingSubset: {
+    other: '正在学习从笔记本中选出的 {count} 张卡片',
+  },
+  studyAllDue: '复习所有到期卡片',
+  noMatches: '没有符合筛选条件的条目。',
+  phonetic: '读音',
+  definition: '释义',
+  regeneratePhonetic: '重新生成读音',
+  regenerateDefinition: '重写释义',
+  regenerateUsageNote: '重写用法说明',
+  moreExamples: '更多例句',
+  generating: '生成中…',
+  newImage: '换一张图片',
+  addImage: '添加图片',
+  saveChanges: '保存修改',
+  undoEdit: '撤销编辑',
+  undoRegenerate: '撤销重新生成',
+  exampleSentence: '例句',
+  exampleTranslation: '翻译',
+  addExample: '添加例句',
+  removeExample: '删除例句',
+};
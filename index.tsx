@@ -1,6 +1,15 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { findMissingMessages } from './i18n';
+import { registerServiceWorker } from './services/serviceWorker';
+
+if (import.meta.env.DEV) {
+  const problems = findMissingMessages();
+  if (problems.length) console.warn(`Incomplete translations:\n${problems.join('\n')}`);
+}
+
+registerServiceWorker();
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
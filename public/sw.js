@@ -0,0 +1,116 @@
+/**
+ * LingoPop service worker.
+ *
+ * - The app shell (index.html, built assets, the CDN scripts and fonts it
+ *   loads) is served stale-while-revalidate so the app opens offline.
+ * - Responses from the deterministic API routes (lookup, image, tts) are kept
+ *   so repeating a request offline gets the last answer. They're POSTs, so
+ *   they're stored under a GET URL derived from a hash of the request body.
+ * - Everything else (chat, scenarios, pronunciation) goes straight to the
+ *   network; those answers are never reusable.
+ */
+const VERSION = 'v1';
+const SHELL_CACHE = `lingopop-shell-${VERSION}`;
+const API_CACHE = `lingopop-api-${VERSION}`;
+const SHELL_URLS = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg'];
+const CACHEABLE_API_ROUTES = ['/api/lookup', '/api/image', '/api/tts'];
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com', 'aistudiocdn.com'];
+// TTS clips are the bulk of this; the oldest answers go first
+const MAX_API_ENTRIES = 500;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then(cache => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(
+        keys.filter(key => key.startsWith('lingopop-') && key !== SHELL_CACHE && key !== API_CACHE)
+          .map(key => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  if (request.method === 'POST' && url.origin === self.location.origin && CACHEABLE_API_ROUTES.includes(url.pathname)) {
+    event.respondWith(networkFirstApi(request, url.pathname));
+    return;
+  }
+  if (request.method !== 'GET') return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirstPage(request));
+    return;
+  }
+
+  const isShellAsset = url.origin === self.location.origin
+    ? !url.pathname.startsWith('/api/')
+    : CDN_HOSTS.some(host => url.hostname === host || url.hostname.endsWith(`.${host}`));
+  if (isShellAsset) event.respondWith(staleWhileRevalidate(request));
+});
+
+const hashBody = async (text) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const trimCache = async (cache, maxEntries) => {
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - maxEntries)).map(key => cache.delete(key)));
+};
+
+async function networkFirstApi(request, pathname) {
+  const cacheKey = `${pathname}?body=${await hashBody(await request.clone().text())}`;
+  const cache = await caches.open(API_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      await cache.put(cacheKey, response.clone());
+      trimCache(cache, MAX_API_ENTRIES);
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(cacheKey);
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+async function networkFirstPage(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put('/index.html', response.clone());
+    return response;
+  } catch (error) {
+    // Every route is rendered client-side from the same index.html
+    const cached = await cache.match('/index.html');
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+async function staleWhileRevalidate(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  const refresh = fetch(request)
+    .then(response => {
+      // Cross-origin scripts come back opaque; they're still worth keeping
+      if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+      return response;
+    })
+    .catch(error => {
+      if (cached) return cached;
+      throw error;
+    });
+  return cached || refresh;
+}
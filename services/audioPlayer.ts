@@ -0,0 +1,240 @@
+import { VoiceName } from "../types";
+import { fetchSpeech } from "./geminiService";
+import { requestToPromise, transactionDone } from "./idb";
+import { getDatabase, AUDIO_STORE } from "./database";
+
+const SAMPLE_RATE = 24000;
+export const SLOW_RATE = 0.75;
+
+export type PlaybackStatus = 'idle' | 'loading' | 'playing';
+
+export interface PlaybackState {
+  status: PlaybackStatus;
+  key: string | null;       // playbackKey of the clip being loaded or played
+  duration: number | null;  // Seconds, adjusted for playback rate
+  rate: number;
+}
+
+export interface PlaybackEvent {
+  type: 'loading' | 'play' | 'ended' | 'stop' | 'error';
+  key: string;
+  duration?: number;
+  rate?: number;
+}
+
+// Voice used when callers don't name one; set from the user's settings
+let preferredVoice: VoiceName = 'Kore';
+
+export const setPreferredVoice = (voiceName: VoiceName) => { preferredVoice = voiceName; };
+export const getPreferredVoice = () => preferredVoice;
+
+export const playbackKey = (text: string, voiceName: VoiceName = preferredVoice) => `${voiceName}|${text}`;
+
+// --- Persistent clip cache (raw PCM from /api/tts, stored as Blobs) ---
+const MAX_STORED_CLIPS = 300;
+
+interface StoredClip {
+  key: string;
+  blob: Blob;
+  lastUsed: number;
+}
+
+const base64ToBuffer = (base64String: string): ArrayBuffer => {
+  const binaryString = atob(base64String);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes.buffer as ArrayBuffer;
+};
+
+const toClipBlob = (data: ArrayBuffer) => new Blob([data], { type: `audio/L16;rate=${SAMPLE_RATE}` });
+
+const readStoredClip = async (key: string): Promise<ArrayBuffer | undefined> => {
+  const db = await getDatabase();
+  const tx = db.transaction(AUDIO_STORE, 'readwrite');
+  const store = tx.objectStore(AUDIO_STORE);
+  const clip: StoredClip | undefined = await requestToPromise(store.get(key));
+  if (clip) store.put({ ...clip, lastUsed: Date.now() });
+  await transactionDone(tx);
+  return clip?.blob.arrayBuffer();
+};
+
+const writeStoredClip = async (key: string, data: ArrayBuffer) => {
+  const db = await getDatabase();
+  const tx = db.transaction(AUDIO_STORE, 'readwrite');
+  const store = tx.objectStore(AUDIO_STORE);
+  store.put({ key, blob: toClipBlob(data), lastUsed: Date.now() } as StoredClip);
+
+  // Evict least recently used clips beyond the cap
+  const excess = (await requestToPromise(store.count())) - MAX_STORED_CLIPS;
+  if (excess > 0) {
+    let removed = 0;
+    const cursorRequest = store.index('lastUsed').openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor || removed >= excess) return;
+      cursor.delete();
+      removed++;
+      cursor.continue();
+    };
+  }
+  await transactionDone(tx);
+};
+
+/**
+ * Cached clip for `text` in IndexedDB, fetching and storing it if missing.
+ * Used to keep audio for saved entries available offline.
+ */
+export const getSpeechData = async (text: string, voiceName: VoiceName = preferredVoice): Promise<ArrayBuffer> => {
+  const key = playbackKey(text, voiceName);
+  const stored = await readStoredClip(key).catch(() => undefined);
+  if (stored) return stored;
+
+  const data = base64ToBuffer(await fetchSpeech(text, voiceName));
+  writeStoredClip(key, data).catch(e => console.error("Audio cache write failed:", e));
+  return data;
+};
+
+/**
+ * Fetches and stores clips for `texts` that aren't cached yet, one at a time,
+ * so a saved entry can be heard offline without having been played first.
+ */
+export const preloadSpeech = async (texts: string[], voiceName: VoiceName = preferredVoice) => {
+  for (const text of new Set(texts.filter(Boolean))) {
+    try {
+      await getSpeechData(text, voiceName);
+    } catch (e) {
+      console.error("Audio preload failed:", e);
+      return;
+    }
+  }
+};
+
+// --- Decoding ---
+let audioContext: AudioContext | null = null;
+
+const getAudioContext = () => {
+  if (!audioContext) {
+    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+    if (AudioContextClass) {
+        audioContext = new AudioContextClass({ sampleRate: SAMPLE_RATE });
+    }
+  }
+  return audioContext;
+};
+
+// The clip is 16-bit little-endian mono PCM
+const decodeAudioData = (data: ArrayBuffer, ctx: AudioContext): AudioBuffer => {
+  const dataInt16 = new Int16Array(data);
+  const buffer = ctx.createBuffer(1, dataInt16.length, SAMPLE_RATE);
+  const channelData = buffer.getChannelData(0);
+  for (let i = 0; i < dataInt16.length; i++) {
+    channelData[i] = dataInt16[i] / 32768.0;
+  }
+  return buffer;
+};
+
+// Decoded buffers for this session, oldest first
+const MAX_DECODED_BUFFERS = 50;
+const decodedBuffers = new Map<string, AudioBuffer>();
+
+const loadBuffer = async (text: string, voiceName: VoiceName, ctx: AudioContext): Promise<AudioBuffer> => {
+  const key = playbackKey(text, voiceName);
+  const cached = decodedBuffers.get(key);
+  if (cached) {
+    decodedBuffers.delete(key);
+    decodedBuffers.set(key, cached);
+    return cached;
+  }
+
+  const buffer = decodeAudioData(await getSpeechData(text, voiceName), ctx);
+  decodedBuffers.set(key, buffer);
+  if (decodedBuffers.size > MAX_DECODED_BUFFERS) {
+    decodedBuffers.delete(decodedBuffers.keys().next().value!);
+  }
+  return buffer;
+};
+
+// --- Playback controller ---
+let state: PlaybackState = { status: 'idle', key: null, duration: null, rate: 1 };
+let currentSource: AudioBufferSourceNode | null = null;
+// Incremented on every play/stop so a slow load can't start after being superseded
+let playToken = 0;
+const listeners = new Set<(event: PlaybackEvent) => void>();
+
+const emit = (event: PlaybackEvent) => {
+  if (event.type === 'loading') {
+    state = { status: 'loading', key: event.key, duration: null, rate: event.rate ?? 1 };
+  } else if (event.type === 'play') {
+    state = { status: 'playing', key: event.key, duration: event.duration ?? null, rate: event.rate ?? 1 };
+  } else {
+    state = { status: 'idle', key: null, duration: null, rate: 1 };
+  }
+  listeners.forEach(listener => listener(event));
+};
+
+export const getPlaybackState = (): PlaybackState => state;
+
+/**
+ * Registers a listener for playback events. Returns an unsubscribe function.
+ */
+export const subscribePlayback = (listener: (event: PlaybackEvent) => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const stopTTS = () => {
+  playToken++;
+  const source = currentSource;
+  currentSource = null;
+  if (source) source.stop();
+  if (state.key) emit({ type: 'stop', key: state.key });
+};
+
+/**
+ * Speaks `text`, stopping anything already playing. Resolves when the clip
+ * finishes or is stopped. `rate` below 1 gives slower replay for learners.
+ */
+export const playTTS = async (
+  text: string,
+  voiceName: VoiceName = preferredVoice,
+  { rate = 1 }: { rate?: number } = {}
+): Promise<void> => {
+  stopTTS();
+  const token = ++playToken;
+  const key = playbackKey(text, voiceName);
+  emit({ type: 'loading', key, rate });
+
+  try {
+    const ctx = getAudioContext();
+    if (!ctx) throw new Error("Web Audio is not supported");
+    if (ctx.state === 'suspended') await ctx.resume();
+
+    const buffer = await loadBuffer(text, voiceName, ctx);
+    if (token !== playToken) return;
+
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.playbackRate.value = rate;
+    source.connect(ctx.destination);
+    const duration = buffer.duration / rate;
+
+    await new Promise<void>(resolve => {
+      source.onended = () => {
+        // A stopped source also fires onended; only report natural completion
+        if (currentSource === source) {
+          currentSource = null;
+          emit({ type: 'ended', key, duration });
+        }
+        resolve();
+      };
+      currentSource = source;
+      source.start();
+      emit({ type: 'play', key, duration, rate });
+    });
+  } catch (e) {
+    console.error("TTS Error:", e);
+    if (token === playToken) emit({ type: 'error', key });
+  }
+};
@@ -0,0 +1,33 @@
+import { openDatabase } from "./idb";
+
+const DB_NAME = 'lingopop';
+const DB_VERSION = 1;
+
+// Notebook entries, keyed by [sourceLang, targetLang, id] so each pair is one key range
+export const ENTRIES_STORE = 'entries';
+// Concept images as Blobs, keyed like the entry they belong to
+export const IMAGES_STORE = 'images';
+// TTS clips as raw PCM Blobs, keyed by playbackKey
+export const AUDIO_STORE = 'audio';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * The app's IndexedDB database. Upgrades run every schema step past the
+ * stored version, so a database from any older release is brought up to date.
+ */
+export const getDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = openDatabase(DB_NAME, DB_VERSION, (db, oldVersion) => {
+      if (oldVersion < 1) {
+        db.createObjectStore(ENTRIES_STORE, { keyPath: ['sourceLang', 'targetLang', 'id'] });
+        db.createObjectStore(IMAGES_STORE, { keyPath: ['sourceLang', 'targetLang', 'id'] });
+        const audio = db.createObjectStore(AUDIO_STORE, { keyPath: 'key' });
+        audio.createIndex('lastUsed', 'lastUsed');
+      }
+    });
+    // Let a later call try again, e.g. after the user closes a tab blocking an upgrade
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { reviseEntry, undoLastRevision } from './entryRevisions';
+import { DictEntry, Language } from '../types';
+
+const entry: DictEntry = {
+  id: '1', term: 'cat', targetTerm: 'gato', phonetic: 'ˈɡa.to', nativeDefinition: 'Cat', usageNote: '',
+  examples: [{ text: 'El gato.', phonetic: '', translation: 'The cat.' }],
+  createdAt: 1, sourceLang: Language.English, targetLang: Language.Spanish,
+};
+
+describe('reviseEntry', () => {
+  it('applies the changes and records what they replaced', () => {
+    const revised = reviseEntry(entry, { nativeDefinition: 'A cat', phonetic: 'ˈɡa.to' }, 'edit', 5);
+    expect(revised.nativeDefinition).toBe('A cat');
+    expect(revised.revisions).toEqual([{ at: 5, source: 'edit', previous: { nativeDefinition: 'Cat' } }]);
+  });
+
+  it('returns the same entry when nothing changed', () => {
+    expect(reviseEntry(entry, { examples: [{ ...entry.examples[0] }] }, 'edit')).toBe(entry);
+  });
+
+  it('keeps only the ten most recent revisions', () => {
+    let revised = entry;
+    for (let i = 0; i < 12; i++) revised = reviseEntry(revised, { usageNote: `note ${i}` }, 'regenerate', i);
+    expect(revised.revisions).toHaveLength(10);
+    expect(revised.revisions![0]).toEqual({ at: 2, source: 'regenerate', previous: { usageNote: 'note 1' } });
+  });
+});
+
+describe('undoLastRevision', () => {
+  it('restores the replaced values one revision at a time', () => {
+    const once = reviseEntry(entry, { nativeDefinition: 'A cat' }, 'edit', 5);
+    const twice = reviseEntry(once, { nativeDefinition: 'A small cat', usageNote: 'Cute' }, 'regenerate', 6);
+    expect(undoLastRevision(twice)).toEqual(once);
+    expect(undoLastRevision(undoLastRevision(twice))).toEqual({ ...entry, revisions: [] });
+  });
+
+  it('removes a field that was added by the change', () => {
+    const withImage = reviseEntry(entry, { imageUrl: 'data:image/png;base64,AA' }, 'regenerate', 5);
+    const undone = undoLastRevision(withImage);
+    expect(undone.imageUrl).toBeUndefined();
+  });
+
+  it('leaves an entry without revisions alone', () => {
+    expect(undoLastRevision(entry)).toBe(entry);
+  });
+});
@@ -0,0 +1,37 @@
+import { DictEntry, EditableField, EntryRevision } from "../types";
+
+// Older revisions are dropped past this; replaced images are kept with them (see notebookStorage)
+const MAX_REVISIONS = 10;
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Applies `changes` to the entry and records the values they replace. Fields
+ * that didn't actually change are left out; if none did, the entry is returned as is.
+ */
+export const reviseEntry = (
+  entry: DictEntry,
+  changes: Partial<Pick<DictEntry, EditableField>>,
+  source: EntryRevision['source'],
+  now: number = Date.now()
+): DictEntry => {
+  const fields = (Object.keys(changes) as EditableField[]).filter(field => !sameValue(entry[field], changes[field]));
+  if (fields.length === 0) return entry;
+
+  const previous = Object.fromEntries(fields.map(field => [field, entry[field]]));
+  return {
+    ...entry,
+    ...Object.fromEntries(fields.map(field => [field, changes[field]])),
+    revisions: [...(entry.revisions || []), { at: now, source, previous }].slice(-MAX_REVISIONS),
+  };
+};
+
+/**
+ * Restores the values the most recent revision replaced and forgets it.
+ */
+export const undoLastRevision = (entry: DictEntry): DictEntry => {
+  const revisions = entry.revisions || [];
+  const last = revisions[revisions.length - 1];
+  if (!last) return entry;
+  return { ...entry, ...last.previous, revisions: revisions.slice(0, -1) };
+};
@@ -1,55 +1,262 @@
-import { Language, DictEntry, Scenario, ScenarioReport, ChatMessage } from "../types";
+import { Language, DictEntry, EditableField, Scenario, ScenarioReport, ChatMessage, PronunciationResult, VoiceName, StoryLength, ProficiencyLevel, ObjectiveResult, TurnCorrection, ReplySuggestion } from "../types";
 
 // Base API URL - relative path works for Vercel/Next.js/Vite proxy
 const API_BASE = '/api';
 
+// --- Errors ---
+// Codes sent by the api/ routes (see api/_lib/errors.js), plus 'network' when the request never got an answer
+export type ApiErrorCode =
+  | 'validation'
+  | 'method_not_allowed'
+  | 'safety'
+  | 'quota'
+  | 'rate_limited'
+  | 'upstream'
+  | 'timeout'
+  | 'internal'
+  | 'network';
+
+export class ApiError extends Error {
+  code: ApiErrorCode;
+  status: number;
+  details?: unknown;
+  retryAfter?: number; // Seconds until the request may be retried (429s)
+
+  constructor(code: ApiErrorCode, message: string, status = 0, details?: unknown, retryAfter?: number) {
+    super(message);
+    this.name = 'ApiError';
+    this.code = code;
+    this.status = status;
+    this.details = details;
+    this.retryAfter = retryAfter;
+  }
+}
+
+const parseRetryAfter = (response: Response): number | undefined => {
+  const header = response.headers.get('Retry-After');
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return seconds;
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+};
+
+const errorFromResponse = async (response: Response): Promise<ApiError> => {
+  const errorData = await response.json().catch(() => ({}));
+  const code: ApiErrorCode = errorData.code || (response.status === 429 ? 'rate_limited' : response.status === 504 ? 'timeout' : 'internal');
+  return new ApiError(
+    code,
+    errorData.error || `HTTP error! status: ${response.status}`,
+    response.status,
+    errorData.details,
+    parseRetryAfter(response)
+  );
+};
+
+// fetch rejects with a TypeError when the request is blocked or the network is down
+const toApiError = (error: unknown): unknown =>
+  error instanceof TypeError ? new ApiError('network', error.message) : error;
+
+// --- Client identity & backoff ---
+const CLIENT_ID_KEY = 'lingopop-client-id';
+
+// Anonymous per-browser id the server uses as the rate-limit session token
+const getClientId = (): string => {
+  try {
+    let id = localStorage.getItem(CLIENT_ID_KEY);
+    if (!id) {
+      id = crypto.randomUUID();
+      localStorage.setItem(CLIENT_ID_KEY, id);
+    }
+    return id;
+  } catch (e) {
+    return 'anonymous';
+  }
+};
+
+const MAX_RETRIES = 2;
+// Longer waits are reported to the user instead of silently blocking the UI
+const MAX_RETRY_WAIT_SECONDS = 10;
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    }, { once: true });
+  });
+
 /**
- * Generic fetch wrapper to handle errors
+ * POSTs JSON, retrying 429 responses after their Retry-After delay (or with
+ * exponential backoff when none is given). Resolves with the first non-429
+ * response, or the last 429 once retries are exhausted.
  */
-async function post(endpoint: string, data: any) {
-  try {
+async function fetchWithBackoff(endpoint: string, body: unknown, headers: Record<string, string> = {}, signal?: AbortSignal) {
+  for (let attempt = 0; ; attempt++) {
     const response = await fetch(`${API_BASE}${endpoint}`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(data),
+      headers: { 'Content-Type': 'application/json', 'X-Client-Id': getClientId(), ...headers },
+      body: JSON.stringify(body),
+      signal,
     });
+    if (response.status !== 429 || attempt >= MAX_RETRIES) return response;
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
-    }
+    const waitSeconds = parseRetryAfter(response) ?? 2 ** attempt;
+    if (waitSeconds > MAX_RETRY_WAIT_SECONDS) return response;
+    await sleep(waitSeconds * 1000, signal);
+  }
+}
+
+/**
+ * Generic fetch wrapper to handle errors
+ */
+async function post(endpoint: string, data: any) {
+  try {
+    const response = await fetchWithBackoff(endpoint, data);
+
+    if (!response.ok) throw await errorFromResponse(response);
 
     return await response.json();
   } catch (error) {
     console.error(`API Error (${endpoint}):`, error);
-    throw error;
+    throw toApiError(error);
+  }
+}
+
+// One server-sent event from api/_lib/sse.js
+interface StreamEvent {
+  text?: string;
+  done?: boolean;
+  error?: string;
+  code?: ApiErrorCode;
+}
+
+/**
+ * Streaming variant of `post` for routes that answer with server-sent events.
+ * Calls `onChunk` with each text delta and resolves with the full text.
+ * Aborting `signal` cancels the request and rejects with an AbortError.
+ */
+async function postStream<T = {}>(
+  endpoint: string,
+  data: object,
+  onChunk: (delta: string) => void,
+  signal?: AbortSignal,
+  onDone?: (payload: T) => void
+): Promise<string> {
+  try {
+    const response = await fetchWithBackoff(endpoint, { ...data, stream: true }, { Accept: 'text/event-stream' }, signal);
+
+    if (!response.ok || !response.body) throw await errorFromResponse(response);
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let fullText = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      // Events are separated by a blank line; keep any trailing partial event
+      const events = buffer.split('\n\n');
+      buffer = events.pop() || '';
+      for (const event of events) {
+        const line = event.split('\n').find(l => l.startsWith('data:'));
+        if (!line) continue;
+        // The done event also carries the route's extra fields, `T`
+        const payload: StreamEvent & Partial<T> = JSON.parse(line.slice(5));
+        if (payload.error) throw new ApiError(payload.code || 'internal', payload.error, response.status);
+        if (payload.text) {
+          fullText += payload.text;
+          onChunk(payload.text);
+        }
+        if (payload.done) onDone?.(payload as T);
+      }
+    }
+
+    return fullText;
+  } catch (error) {
+    if ((error as Error)?.name !== 'AbortError') {
+      console.error(`API Stream Error (${endpoint}):`, error);
+    }
+    throw toApiError(error);
   }
 }
 
+export const isAbortError = (error: unknown) => (error as Error)?.name === 'AbortError';
+
 // --- Dictionary Lookup ---
 export const lookupTerm = async (
   term: string,
   sourceLang: Language,
-  targetLang: Language
-): Promise<Omit<DictEntry, 'id' | 'createdAt' | 'imageUrl' | 'term'>> => {
-  return post('/lookup', { term, sourceLang, targetLang });
+  targetLang: Language,
+  level?: ProficiencyLevel
+): Promise<Omit<DictEntry, 'id' | 'createdAt' | 'imageUrl' | 'term' | 'sourceLang' | 'targetLang'>> => {
+  return post('/lookup', { term, sourceLang, targetLang, level });
+};
+
+export type RegenerableField = Exclude<EditableField, 'imageUrl'>;
+
+// /api/lookup takes at most 4000 characters of current content; the latest
+// examples are enough to steer the new ones away from repeats
+const MAX_CURRENT_LENGTH = 4000;
+const CURRENT_EXAMPLES = 10;
+
+/**
+ * A new version of one field of `entry`. The current value is sent along so
+ * the answer differs from it; new examples are meant to be added to the old ones.
+ */
+export const regenerateEntryField = async <F extends RegenerableField>(
+  entry: DictEntry,
+  field: F,
+  level?: ProficiencyLevel
+): Promise<Pick<DictEntry, F>> => {
+  const value = entry[field];
+  const text = Array.isArray(value) ? value.slice(-CURRENT_EXAMPLES).map(ex => ex.text).join('\n') : value;
+  const current = text.slice(0, MAX_CURRENT_LENGTH);
+  return post('/lookup', {
+    term: entry.term,
+    targetTerm: entry.targetTerm,
+    sourceLang: entry.sourceLang,
+    targetLang: entry.targetLang,
+    level,
+    field,
+    current,
+  });
 };
 
 // --- Story Generation ---
+export const STORY_MAX_WORDS = 100;
+
 export const generateStory = async (
   entries: DictEntry[],
   sourceLang: Language,
-  targetLang: Language
+  targetLang: Language,
+  length: StoryLength = 'medium',
+  level?: ProficiencyLevel
 ): Promise<string> => {
   if (entries.length === 0) return "Your notebook is empty!";
   const result = await post('/story', { 
-    words: entries.map(e => e.targetTerm || e.term), 
+    // /api/story accepts at most STORY_MAX_WORDS words
+    words: entries.slice(0, STORY_MAX_WORDS).map(e => e.targetTerm || e.term), 
     sourceLang, 
-    targetLang 
+    targetLang,
+    length,
+    level
   });
   return result.story;
 };
 
+// --- Chat History ---
+// api/_lib/validate.js accepts at most this many messages; the server windows
+// and summarises by token count, so only very long chats lose their oldest turns
+const MAX_HISTORY_MESSAGES = 500;
+
+const sendableHistory = (history: { role: 'user' | 'model'; text: string }[]) =>
+  history.slice(-MAX_HISTORY_MESSAGES).map(({ role, text }) => ({ role, text }));
+
 // --- General Chat ---
 export const chatWithAI = async (
   history: { role: 'user' | 'model'; text: string }[],
@@ -59,107 +266,168 @@ export const chatWithAI = async (
   targetLang: Language
 ): Promise<string> => {
   const result = await post('/chat', { 
-    history, 
+    history: sendableHistory(history),
     message: newMessage, 
     context: { currentTerm, sourceLang, targetLang } 
   });
   return result.reply;
 };
 
+export const chatWithAIStream = async (
+  history: { role: 'user' | 'model'; text: string }[],
+  newMessage: string,
+  currentTerm: string,
+  sourceLang: Language,
+  targetLang: Language,
+  onChunk: (delta: string) => void,
+  signal?: AbortSignal
+): Promise<string> => {
+  return postStream('/chat', { 
+    history: sendableHistory(history),
+    message: newMessage, 
+    context: { currentTerm, sourceLang, targetLang } 
+  }, onChunk, signal);
+};
+
 // --- Scenario (Roleplay) ---
-export const generateScenarios = async (targetLang: Language, sourceLang: Language): Promise<Scenario[]> => {
+export const generateScenarios = async (
+  targetLang: Language,
+  sourceLang: Language,
+  level?: ProficiencyLevel,
+  theme?: string
+): Promise<Scenario[]> => {
   const result = await post('/scenario', { 
     action: 'generate', 
     targetLang, 
-    sourceLang 
+    sourceLang,
+    level,
+    theme: theme || undefined
   });
   return result.scenarios || [];
 };
 
-export const chatInScenario = async (
+export interface ScenarioTurnOptions {
+  level?: ProficiencyLevel;
+  completedObjectives?: number[];
+  correctIn?: Language; // Also correct the user's last message, explained in this language
+}
+
+// Sent once the reply has finished streaming
+export interface ScenarioTurnResult {
+  completedObjectives?: number[];
+  correction?: TurnCorrection;
+}
+
+export const chatInScenarioStream = async (
   history: ChatMessage[],
   scenario: Scenario,
-  targetLang: Language
+  targetLang: Language,
+  options: ScenarioTurnOptions,
+  onChunk: (delta: string) => void,
+  signal?: AbortSignal,
+  onDone?: (result: ScenarioTurnResult) => void
 ): Promise<string> => {
-  const result = await post('/scenario', { 
+  return postStream<ScenarioTurnResult>('/scenario', { 
     action: 'chat', 
-    history, 
+    history: sendableHistory(history), 
     scenario, 
-    targetLang 
-  });
-  return result.reply;
+    targetLang,
+    ...options
+  }, onChunk, signal, (payload) => onDone?.({
+    completedObjectives: payload.completedObjectives,
+    correction: payload.correction,
+  }));
 };
 
 export const evaluateScenario = async (
   history: ChatMessage[],
   sourceLang: Language,
-  targetLang: Language
+  targetLang: Language,
+  objectives?: ObjectiveResult[]
 ): Promise<ScenarioReport> => {
   return post('/scenario', { 
     action: 'evaluate', 
-    history, 
+    history: sendableHistory(history),
     sourceLang, 
-    targetLang 
+    targetLang,
+    objectives
   });
 };
 
+// --- Scenario Helpers ---
+// Lifelines for learners who get stuck mid-roleplay
+
+export const translateLine = async (text: string, sourceLang: Language, targetLang: Language): Promise<string> => {
+  const result = await post('/scenario', { action: 'translate', text, sourceLang, targetLang });
+  return result.translation;
+};
+
+export const explainLine = async (
+  text: string,
+  history: ChatMessage[],
+  sourceLang: Language,
+  targetLang: Language,
+  level?: ProficiencyLevel
+): Promise<string> => {
+  const result = await post('/scenario', {
+    action: 'explain',
+    text,
+    history: sendableHistory(history),
+    sourceLang,
+    targetLang,
+    level
+  });
+  return result.explanation;
+};
+
+export const suggestReplies = async (
+  history: ChatMessage[],
+  scenario: Scenario,
+  sourceLang: Language,
+  targetLang: Language,
+  level?: ProficiencyLevel
+): Promise<ReplySuggestion[]> => {
+  const result = await post('/scenario', {
+    action: 'suggest',
+    history: sendableHistory(history),
+    scenario,
+    sourceLang,
+    targetLang,
+    level
+  });
+  return result.suggestions || [];
+};
+
 // --- Image Generation ---
-export const generateConceptImage = async (term: string): Promise<string | undefined> => {
+// `fresh` skips the server cache, for a different image than the one already shown
+export const generateConceptImage = async (term: string, fresh?: boolean): Promise<string | undefined> => {
   try {
-    const result = await post('/image', { term });
+    const result = await post('/image', { term, fresh });
     return result.imageData; // Base64 string
   } catch (e) {
     return undefined; // Fail gracefully for images
   }
 };
 
-// --- TTS ---
-let audioContext: AudioContext | null = null;
-
-const getAudioContext = () => {
-  if (!audioContext) {
-    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
-    if (AudioContextClass) {
-        audioContext = new AudioContextClass({ sampleRate: 24000 });
-    }
-  }
-  return audioContext;
+// --- Pronunciation ---
+export const assessPronunciation = async (
+  audio: string, // base64
+  mimeType: string,
+  expectedText: string,
+  phonetic: string | undefined,
+  sourceLang: Language,
+  targetLang: Language
+): Promise<PronunciationResult> => {
+  return post('/pronounce', { audio, mimeType, expectedText, phonetic, sourceLang, targetLang });
 };
 
-const decodeAudioData = async (base64String: string, ctx: AudioContext): Promise<AudioBuffer> => {
-  const binaryString = atob(base64String);
-  const len = binaryString.length;
-  const bytes = new Uint8Array(len);
-  for (let i = 0; i < len; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
-  }
-  
-  const dataInt16 = new Int16Array(bytes.buffer);
-  const buffer = ctx.createBuffer(1, dataInt16.length, 24000);
-  const channelData = buffer.getChannelData(0);
-  for (let i = 0; i < dataInt16.length; i++) {
-    channelData[i] = dataInt16[i] / 32768.0;
-  }
-  return buffer;
+// --- TTS ---
+/**
+ * Raw speech for `text` as base64 16-bit PCM (24kHz mono). Playback and
+ * caching live in audioPlayer.ts.
+ */
+export const fetchSpeech = async (text: string, voiceName: VoiceName = 'Kore'): Promise<string> => {
+  const result = await post('/tts', { text, voiceName });
+  if (!result.audioData) throw new Error("No audio data");
+  return result.audioData;
 };
-
-export const playTTS = async (text: string, voiceName: 'Kore' | 'Puck' | 'Charon' = 'Kore') => {
-  try {
-    const result = await post('/tts', { text, voiceName });
-    if (!result.audioData) throw new Error("No audio data");
-
-    const ctx = getAudioContext();
-    if (!ctx) return;
-    
-    if (ctx.state === 'suspended') await ctx.resume();
-
-    const audioBuffer = await decodeAudioData(result.audioData, ctx);
-    const source = ctx.createBufferSource();
-    source.buffer = audioBuffer;
-    source.connect(ctx.destination);
-    source.start();
-
-  } catch (e) {
-    console.error("TTS Error:", e);
-  }
-};
\ No newline at end of file
@@ -0,0 +1,17 @@
+import { Language, ProficiencyLevel } from "../types";
+
+export const LEVELS: ProficiencyLevel[] = ['A1', 'A2', 'B1', 'B2', 'C1', 'C2'];
+
+// Rough equivalents on the scales learners of Japanese and Chinese actually use
+const JLPT: Record<ProficiencyLevel, string> = { A1: 'N5', A2: 'N4', B1: 'N3', B2: 'N2', C1: 'N1', C2: 'N1' };
+const HSK: Record<ProficiencyLevel, string> = { A1: 'HSK 1', A2: 'HSK 2', B1: 'HSK 3', B2: 'HSK 4', C1: 'HSK 5', C2: 'HSK 6' };
+
+/**
+ * The level as learners of `targetLang` would name it: "N3" for Japanese,
+ * "HSK 3" for Chinese, the CEFR code otherwise.
+ */
+export const levelLabel = (level: ProficiencyLevel, targetLang: Language): string => {
+  if (targetLang === Language.Japanese) return JLPT[level];
+  if (targetLang === Language.Chinese) return HSK[level];
+  return level;
+};
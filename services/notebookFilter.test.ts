@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { filterEntries, sortEntries, normalizeTags, collectTags, entryType, EMPTY_FILTER, isFilterActive } from './notebookFilter';
+import { createReviewState } from './srs';
+import { DictEntry, Language } from '../types';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2024, 0, 31);
+
+const entry = (id: string, extra: Partial<DictEntry> = {}): DictEntry => ({
+  id, term: id, targetTerm: id, phonetic: '', nativeDefinition: '', examples: [], usageNote: '',
+  createdAt: NOW, sourceLang: Language.English, targetLang: Language.Spanish, ...extra,
+});
+
+const cafe = entry('café', { term: 'coffee', nativeDefinition: 'A hot drink', tags: ['Food'], level: 'A1', createdAt: NOW - 2 * DAY });
+const sobremesa = entry('sobremesa', { nativeDefinition: 'Chatting after a meal', tags: ['food', 'culture'], level: 'B2', type: 'word', createdAt: NOW - 20 * DAY, review: createReviewState(NOW + DAY) });
+const darse = entry('darse cuenta', { examples: [{ text: 'Me di cuenta tarde.', phonetic: '', translation: 'I realised late.' }], createdAt: NOW - 40 * DAY, review: createReviewState(NOW - DAY) });
+const entries = [cafe, sobremesa, darse];
+
+const ids = (list: DictEntry[]) => list.map(e => e.id);
+
+describe('filterEntries', () => {
+  it('matches every query word, ignoring case and accents', () => {
+    expect(ids(filterEntries(entries, { ...EMPTY_FILTER, query: 'CAFE hot' }, NOW))).toEqual(['café']);
+    expect(ids(filterEntries(entries, { ...EMPTY_FILTER, query: 'realised' }, NOW))).toEqual(['darse cuenta']);
+    expect(filterEntries(entries, { ...EMPTY_FILTER, query: 'cafe cold' }, NOW)).toEqual([]);
+  });
+
+  it('filters by tag, type, level, age and review status', () => {
+    expect(ids(filterEntries(entries, { ...EMPTY_FILTER, tag: 'FOOD' }, NOW))).toEqual(['café', 'sobremesa']);
+    expect(ids(filterEntries(entries, { ...EMPTY_FILTER, type: 'phrase' }, NOW))).toEqual(['darse cuenta']);
+    expect(ids(filterEntries(entries, { ...EMPTY_FILTER, level: 'B2' }, NOW))).toEqual(['sobremesa']);
+    expect(ids(filterEntries(entries, { ...EMPTY_FILTER, added: 'month' }, NOW))).toEqual(['café', 'sobremesa']);
+    expect(ids(filterEntries(entries, { ...EMPTY_FILTER, review: 'new' }, NOW))).toEqual(['café']);
+    expect(ids(filterEntries(entries, { ...EMPTY_FILTER, review: 'due' }, NOW))).toEqual(['darse cuenta']);
+    expect(ids(filterEntries(entries, { ...EMPTY_FILTER, review: 'learned' }, NOW))).toEqual(['sobremesa']);
+  });
+
+  it('knows when a filter is set', () => {
+    expect(isFilterActive(EMPTY_FILTER)).toBe(false);
+    expect(isFilterActive({ ...EMPTY_FILTER, added: 'week' })).toBe(true);
+  });
+});
+
+describe('sortEntries', () => {
+  it('sorts by date, term, due date and level', () => {
+    expect(ids(sortEntries(entries, 'newest', Language.Spanish))).toEqual(['café', 'sobremesa', 'darse cuenta']);
+    expect(ids(sortEntries(entries, 'oldest', Language.Spanish))).toEqual(['darse cuenta', 'sobremesa', 'café']);
+    expect(ids(sortEntries(entries, 'alphabetical', Language.Spanish))).toEqual(['café', 'darse cuenta', 'sobremesa']);
+    expect(ids(sortEntries(entries, 'due', Language.Spanish))).toEqual(['café', 'darse cuenta', 'sobremesa']);
+    expect(ids(sortEntries(entries, 'level', Language.Spanish))).toEqual(['café', 'sobremesa', 'darse cuenta']);
+  });
+
+  it('leaves the input untouched', () => {
+    sortEntries(entries, 'oldest', Language.Spanish);
+    expect(ids(entries)).toEqual(['café', 'sobremesa', 'darse cuenta']);
+  });
+});
+
+describe('tags', () => {
+  it('trims and de-duplicates tags, keeping the first spelling', () => {
+    expect(normalizeTags([' Food ', 'food', 'street   food', '', 'FOOD'])).toEqual(['Food', 'street food']);
+    expect(collectTags(entries)).toEqual(['culture', 'Food']);
+  });
+});
+
+describe('entryType', () => {
+  it('guesses phrases from spaces for entries without a type', () => {
+    expect(entryType(darse)).toBe('phrase');
+    expect(entryType(cafe)).toBe('word');
+    expect(entryType({ ...darse, type: 'grammar' })).toBe('grammar');
+  });
+});
@@ -0,0 +1,128 @@
+import { DictEntry, EntryType, Language, ProficiencyLevel } from "../types";
+import { LEVELS } from "./levels";
+import { isDue } from "./srs";
+import { LOCALE_CODES } from "../i18n";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export const ENTRY_TYPES: EntryType[] = ['word', 'phrase', 'grammar'];
+
+export type AddedWithin = 'any' | 'day' | 'week' | 'month';
+export type ReviewStatus = 'any' | 'new' | 'due' | 'learned';
+export type NotebookSort = 'newest' | 'oldest' | 'alphabetical' | 'due' | 'level';
+
+export const ADDED_WITHIN: AddedWithin[] = ['any', 'day', 'week', 'month'];
+export const REVIEW_STATUSES: ReviewStatus[] = ['any', 'new', 'due', 'learned'];
+export const NOTEBOOK_SORTS: NotebookSort[] = ['newest', 'oldest', 'alphabetical', 'due', 'level'];
+
+const ADDED_WITHIN_MS: Record<Exclude<AddedWithin, 'any'>, number> = { day: DAY, week: 7 * DAY, month: 30 * DAY };
+
+export interface NotebookFilter {
+  query: string;
+  tag: string | null;
+  type: EntryType | null;
+  level: ProficiencyLevel | null;
+  added: AddedWithin;
+  review: ReviewStatus;
+}
+
+export const EMPTY_FILTER: NotebookFilter = { query: '', tag: null, type: null, level: null, added: 'any', review: 'any' };
+
+export const isFilterActive = (filter: NotebookFilter) =>
+  Object.keys(EMPTY_FILTER).some(key => filter[key as keyof NotebookFilter] !== EMPTY_FILTER[key as keyof NotebookFilter]);
+
+/**
+ * The entry's type as classified at lookup. Entries saved before lookups
+ * reported one are guessed from the term: anything with a space is a phrase.
+ */
+export const entryType = (entry: DictEntry): EntryType =>
+  entry.type ?? (/\s/.test((entry.targetTerm || entry.term).trim()) ? 'phrase' : 'word');
+
+/**
+ * Trims and de-duplicates tags (ignoring case), keeping the first spelling.
+ */
+export const normalizeTags = (tags: string[]): string[] => {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const raw of tags) {
+    const tag = raw.trim().replace(/\s+/g, ' ');
+    if (!tag || seen.has(tag.toLowerCase())) continue;
+    seen.add(tag.toLowerCase());
+    result.push(tag);
+  }
+  return result;
+};
+
+/**
+ * Every tag used in the notebook, alphabetically.
+ */
+export const collectTags = (entries: DictEntry[]): string[] =>
+  normalizeTags(entries.flatMap(e => e.tags || [])).sort((a, b) => a.localeCompare(b));
+
+// Case- and accent-insensitive, so "cafe" finds "café"
+const foldText = (text: string) => text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+
+const searchableText = (entry: DictEntry) => foldText([
+  entry.term,
+  entry.targetTerm,
+  entry.phonetic,
+  entry.nativeDefinition,
+  ...entry.examples.flatMap(ex => [ex.text, ex.translation]),
+].join('\n'));
+
+const matchesReview = (entry: DictEntry, status: ReviewStatus, now: number) => {
+  switch (status) {
+    case 'new': return !entry.review;
+    case 'due': return !!entry.review && isDue(entry, now);
+    case 'learned': return !!entry.review && !isDue(entry, now);
+    default: return true;
+  }
+};
+
+/**
+ * Entries matching every part of `filter`. The query matches all of its
+ * words anywhere in the term, translation, definition or examples.
+ */
+export const filterEntries = (entries: DictEntry[], filter: NotebookFilter, now: number = Date.now()): DictEntry[] => {
+  const words = foldText(filter.query).split(/\s+/).filter(Boolean);
+  const tag = filter.tag?.toLowerCase();
+  const addedAfter = filter.added === 'any' ? 0 : now - ADDED_WITHIN_MS[filter.added];
+
+  return entries.filter(entry => {
+    if (tag && !(entry.tags || []).some(t => t.toLowerCase() === tag)) return false;
+    if (filter.type && entryType(entry) !== filter.type) return false;
+    if (filter.level && entry.level !== filter.level) return false;
+    if (entry.createdAt < addedAfter) return false;
+    if (!matchesReview(entry, filter.review, now)) return false;
+    if (words.length > 0) {
+      const text = searchableText(entry);
+      if (!words.every(word => text.includes(word))) return false;
+    }
+    return true;
+  });
+};
+
+/**
+ * A sorted copy of `entries`. Alphabetical order follows the target
+ * language's collation; unreviewed entries count as due since they were added.
+ */
+export const sortEntries = (entries: DictEntry[], sort: NotebookSort, targetLang: Language): DictEntry[] => {
+  const sorted = [...entries];
+  switch (sort) {
+    case 'oldest':
+      return sorted.sort((a, b) => a.createdAt - b.createdAt);
+    case 'alphabetical': {
+      const collator = new Intl.Collator(LOCALE_CODES[targetLang]);
+      return sorted.sort((a, b) => collator.compare(a.targetTerm || a.term, b.targetTerm || b.term));
+    }
+    case 'due':
+      return sorted.sort((a, b) => (a.review?.due ?? a.createdAt) - (b.review?.due ?? b.createdAt));
+    case 'level': {
+      // Entries without a level go last
+      const rank = (e: DictEntry) => (e.level ? LEVELS.indexOf(e.level) : LEVELS.length);
+      return sorted.sort((a, b) => rank(a) - rank(b) || b.createdAt - a.createdAt);
+    }
+    default:
+      return sorted.sort((a, b) => b.createdAt - a.createdAt);
+  }
+};
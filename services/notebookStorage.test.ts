@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { IDBFactory, IDBKeyRange } from 'fake-indexeddb';
+import { DictEntry, Language, LanguagePair } from '../types';
+
+// Node has no FileReader or localStorage; these cover what the module uses
+class TestFileReader {
+  result: string | null = null;
+  error: Error | null = null;
+  onload: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  readAsDataURL(blob: Blob) {
+    blob.arrayBuffer().then(buffer => {
+      this.result = `data:${blob.type};base64,${Buffer.from(buffer).toString('base64')}`;
+      this.onload?.();
+    });
+  }
+}
+
+const createLocalStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    get length() { return items.size; },
+    key: (i: number) => [...items.keys()][i] ?? null,
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); },
+    removeItem: (key: string) => { items.delete(key); },
+  };
+};
+
+vi.stubGlobal('IDBKeyRange', IDBKeyRange);
+vi.stubGlobal('FileReader', TestFileReader);
+
+// A fresh database and module state for every test
+let storage: typeof import('./notebookStorage');
+beforeEach(async () => {
+  vi.stubGlobal('indexedDB', new IDBFactory());
+  vi.stubGlobal('localStorage', createLocalStorage());
+  vi.resetModules();
+  storage = await import('./notebookStorage');
+});
+
+const spanish: LanguagePair = { sourceLang: Language.English, targetLang: Language.Spanish };
+const french: LanguagePair = { sourceLang: Language.English, targetLang: Language.French };
+const IMAGE = `data:image/png;base64,${Buffer.from('png').toString('base64')}`;
+const OTHER_IMAGE = `data:image/png;base64,${Buffer.from('other').toString('base64')}`;
+
+const entry = (id: string, extra: Partial<DictEntry> = {}): DictEntry => ({
+  id, term: id, targetTerm: id, phonetic: '', nativeDefinition: '', examples: [], usageNote: '',
+  createdAt: Number(id.replace(/\D/g, '')) || 1, ...spanish, ...extra,
+});
+
+describe('notebook storage', () => {
+  it('stores and loads entries per pair, newest first, with their images', async () => {
+    await storage.addEntries([entry('1'), entry('2', { imageUrl: IMAGE }), entry('3', french)]);
+    const notebook = await storage.loadNotebook(spanish);
+    expect(notebook.map(e => e.id)).toEqual(['2', '1']);
+    expect(notebook[0].imageUrl).toBe(IMAGE);
+    expect(notebook[1]).not.toHaveProperty('hasImage');
+    expect(await storage.listNotebookPairs()).toEqual([french, spanish]);
+  });
+
+  it('writes only what changed between two versions', async () => {
+    const before = [entry('1', { imageUrl: IMAGE }), entry('2', { imageUrl: IMAGE })];
+    await storage.syncNotebook([], before);
+    const after = [{ ...before[0], nativeDefinition: 'edited' }];
+    await storage.syncNotebook(before, after);
+    const notebook = await storage.loadNotebook(spanish);
+    expect(notebook).toEqual([{ ...after[0] }]);
+  });
+
+  it('applies writes in order, even when an earlier one has an image to convert', async () => {
+    const original = entry('1');
+    await storage.syncNotebook([], [original]);
+    const withImage = { ...original, imageUrl: IMAGE };
+    const edited = { ...withImage, nativeDefinition: 'edited' };
+    // Not awaited in between, as when state changes twice before the first write lands
+    const first = storage.syncNotebook([original], [withImage]);
+    const second = storage.syncNotebook([withImage], [edited]);
+    await Promise.all([first, second]);
+    expect(await storage.loadNotebook(spanish)).toEqual([edited]);
+  });
+
+  it('keeps writing after a failed write', async () => {
+    const failed = storage.addEntries([entry('1', { imageUrl: 'data:bad' })]);
+    await expect(failed).rejects.toThrow();
+    await storage.addEntries([entry('2')]);
+    expect((await storage.loadNotebook(spanish)).map(e => e.id)).toEqual(['2']);
+  });
+
+  it('keeps images replaced by edits until their revision is dropped', async () => {
+    const original = entry('1', { imageUrl: IMAGE });
+    await storage.syncNotebook([], [original]);
+    const regenerated = { ...original, imageUrl: OTHER_IMAGE, revisions: [{ at: 5, source: 'regenerate' as const, previous: { imageUrl: IMAGE } }] };
+    await storage.syncNotebook([original], [regenerated]);
+    expect(await storage.loadNotebook(spanish)).toEqual([regenerated]);
+
+    const undone = { ...original, revisions: [] };
+    await storage.syncNotebook([regenerated], [undone]);
+    expect(await storage.loadNotebook(spanish)).toEqual([undone]);
+  });
+});
+
+describe('migrateLegacyNotebook', () => {
+  it('moves localStorage notebooks into IndexedDB and removes them', async () => {
+    localStorage.setItem('lingopop-notebook', JSON.stringify([
+      { ...entry('1'), sourceLang: undefined, targetLang: undefined },
+      entry('2', { nativeDefinition: 'untagged copy' }),
+    ]));
+    localStorage.setItem(`lingopop-notebook:${french.sourceLang}|${french.targetLang}`, JSON.stringify([entry('3', french)]));
+    localStorage.setItem(`lingopop-notebook:${spanish.sourceLang}|${spanish.targetLang}`, JSON.stringify([entry('2', { nativeDefinition: 'per-pair copy' })]));
+    localStorage.setItem('lingopop-settings', '{}');
+
+    await storage.migrateLegacyNotebook(spanish);
+
+    const notebook = await storage.loadNotebook(spanish);
+    expect(notebook.map(e => [e.id, e.nativeDefinition])).toEqual([['2', 'per-pair copy'], ['1', '']]);
+    expect((await storage.loadNotebook(french)).map(e => e.id)).toEqual(['3']);
+    expect(localStorage.length).toBe(1);
+    expect(localStorage.getItem('lingopop-settings')).toBe('{}');
+  });
+
+  it('does nothing without a legacy notebook', async () => {
+    await storage.migrateLegacyNotebook(spanish);
+    expect(await storage.listNotebookPairs()).toEqual([]);
+  });
+});
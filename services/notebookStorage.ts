@@ -0,0 +1,267 @@
+import { DictEntry, EntryRevision, Language, LanguagePair } from "../types";
+import { getDatabase, ENTRIES_STORE, IMAGES_STORE } from "./database";
+import { requestToPromise, transactionDone } from "./idb";
+
+// Where notebooks lived before IndexedDB: one untagged list shared by every
+// pair, then one list per pair under the prefixed keys
+const LEGACY_KEY = 'lingopop-notebook';
+const LEGACY_KEY_PREFIX = 'lingopop-notebook:';
+
+// Entries are stored without their inline images; `hasImage` says one is in IMAGES_STORE.
+// Images an edit replaced are kept there too, under revisionImageId.
+type StoredRevision = EntryRevision & { hasImage?: boolean };
+type StoredEntry = Omit<DictEntry, 'revisions'> & { hasImage?: boolean; revisions?: StoredRevision[] };
+
+interface StoredImage extends LanguagePair {
+  id: string;
+  blob: Blob;
+}
+
+export const isSamePair = (a: LanguagePair, b: LanguagePair) =>
+  a.sourceLang === b.sourceLang && a.targetLang === b.targetLang;
+
+/**
+ * What makes two lookups the same entry: the term as typed, ignoring case and
+ * surrounding whitespace. Lookups, saves and imports all dedupe on this.
+ */
+export const termKey = (term: string) => term.trim().toLowerCase();
+
+const entryKey = (entry: LanguagePair & { id: string }) => [entry.sourceLang, entry.targetLang, entry.id];
+
+// Every [sourceLang, targetLang, id] key in the pair: arrays sort after strings, so [] caps the range
+const pairRange = (pair: LanguagePair) =>
+  IDBKeyRange.bound([pair.sourceLang, pair.targetLang], [pair.sourceLang, pair.targetLang, []]);
+
+const isDataUrl = (url?: string): url is string => !!url && url.startsWith('data:');
+
+const revisionImageId = (entryId: string, revision: EntryRevision) => `${entryId}@${revision.at}`;
+
+const hasRevisionImage = (revision: EntryRevision) => isDataUrl(revision.previous.imageUrl);
+
+const dataUrlToBlob = async (url: string): Promise<Blob> => (await fetch(url)).blob();
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+/**
+ * A pair's notebook, newest first. Images come back as data URLs, as they
+ * were when the entry was saved.
+ */
+export const loadNotebook = async (pair: LanguagePair): Promise<DictEntry[]> => {
+  const db = await getDatabase();
+  const tx = db.transaction([ENTRIES_STORE, IMAGES_STORE], 'readonly');
+  const [stored, images] = await Promise.all([
+    requestToPromise<StoredEntry[]>(tx.objectStore(ENTRIES_STORE).getAll(pairRange(pair))),
+    requestToPromise<StoredImage[]>(tx.objectStore(IMAGES_STORE).getAll(pairRange(pair))),
+  ]);
+  const imagesById = new Map(images.map(image => [image.id, image.blob]));
+
+  const restoreRevision = async (entryId: string, { hasImage, ...revision }: StoredRevision): Promise<EntryRevision> => {
+    const blob = hasImage ? imagesById.get(revisionImageId(entryId, revision)) : undefined;
+    return blob ? { ...revision, previous: { ...revision.previous, imageUrl: await blobToDataUrl(blob) } } : revision;
+  };
+
+  const entries = await Promise.all(stored.map(async ({ hasImage, revisions, ...rest }): Promise<DictEntry> => {
+    const entry: DictEntry = revisions
+      ? { ...rest, revisions: await Promise.all(revisions.map(r => restoreRevision(rest.id, r))) }
+      : rest;
+    const blob = hasImage ? imagesById.get(entry.id) : undefined;
+    return blob ? { ...entry, imageUrl: await blobToDataUrl(blob) } : entry;
+  }));
+  return entries.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+interface EntryWrite {
+  entry: DictEntry;
+  // False when only the entry's text or review state changed, so the stored image is left alone
+  imageChanged: boolean;
+  // The revisions already stored, so only images of new ones are written
+  storedRevisions?: EntryRevision[];
+}
+
+/**
+ * Splits the images out of an entry's revisions: those of revisions added
+ * since `storedRevisions` are to be written, and those of dropped ones deleted.
+ */
+const prepareRevisions = async (entry: DictEntry, storedRevisions: EntryRevision[] = []) => {
+  const revisions = entry.revisions || [];
+  const known = new Set(storedRevisions);
+  const images = await Promise.all(revisions
+    .filter(r => hasRevisionImage(r) && !known.has(r))
+    .map(async (r): Promise<StoredImage> => ({
+      sourceLang: entry.sourceLang,
+      targetLang: entry.targetLang,
+      id: revisionImageId(entry.id, r),
+      blob: await dataUrlToBlob(r.previous.imageUrl!),
+    })));
+
+  const kept = new Set(revisions.filter(hasRevisionImage).map(r => revisionImageId(entry.id, r)));
+  const staleIds = storedRevisions
+    .filter(hasRevisionImage)
+    .map(r => revisionImageId(entry.id, r))
+    .filter(id => !kept.has(id));
+
+  const records = entry.revisions?.map((r): StoredRevision => {
+    if (!hasRevisionImage(r)) return r;
+    const { imageUrl, ...previous } = r.previous;
+    return { ...r, previous, hasImage: true };
+  });
+  return { records, images, staleIds };
+};
+
+const runWrite = async (writes: EntryWrite[], removed: DictEntry[]) => {
+  // Blobs are prepared up front: a transaction commits as soon as it waits on anything else
+  const prepared = await Promise.all(writes.map(async ({ entry, imageChanged, storedRevisions }) => {
+    const revisions = await prepareRevisions(entry, storedRevisions);
+    const withRevisions = { ...entry, revisions: revisions.records } as StoredEntry;
+    if (!isDataUrl(entry.imageUrl)) return { record: withRevisions, image: undefined, clearImage: imageChanged, revisions };
+    const { imageUrl, ...rest } = withRevisions;
+    const image = imageChanged ? await dataUrlToBlob(entry.imageUrl) : undefined;
+    return { record: { ...rest, hasImage: true } as StoredEntry, image, clearImage: false, revisions };
+  }));
+
+  const db = await getDatabase();
+  const tx = db.transaction([ENTRIES_STORE, IMAGES_STORE], 'readwrite');
+  const entriesStore = tx.objectStore(ENTRIES_STORE);
+  const imagesStore = tx.objectStore(IMAGES_STORE);
+  for (const { record, image, clearImage, revisions } of prepared) {
+    entriesStore.put(record);
+    if (image) imagesStore.put({ sourceLang: record.sourceLang, targetLang: record.targetLang, id: record.id, blob: image } as StoredImage);
+    else if (clearImage) imagesStore.delete(entryKey(record));
+    revisions.images.forEach(revisionImage => imagesStore.put(revisionImage));
+    revisions.staleIds.forEach(id => imagesStore.delete(entryKey({ ...record, id })));
+  }
+  for (const entry of removed) {
+    entriesStore.delete(entryKey(entry));
+    imagesStore.delete(entryKey(entry));
+    (entry.revisions || []).filter(hasRevisionImage).forEach(r => imagesStore.delete(entryKey({ ...entry, id: revisionImageId(entry.id, r) })));
+  }
+  await transactionDone(tx);
+};
+
+// Writes run one at a time, in the order they were asked for. Preparing an
+// image takes a while, so otherwise a later write could land first and be
+// overwritten by an older version of the same entry
+let lastWrite: Promise<void> = Promise.resolve();
+
+const writeEntries = (writes: EntryWrite[], removed: DictEntry[] = []): Promise<void> => {
+  if (writes.length === 0 && removed.length === 0) return lastWrite;
+  const write = lastWrite.then(() => runWrite(writes, removed));
+  lastWrite = write.catch(() => {}); // A failed write is reported to its caller, not the next one
+  return write;
+};
+
+/**
+ * Persists the difference between two versions of a loaded notebook. Entries
+ * are compared by reference, so only those replaced or added since `previous`
+ * are written, and only those missing from `next` are deleted.
+ */
+export const syncNotebook = (previous: DictEntry[], next: DictEntry[]): Promise<void> => {
+  const previousById = new Map(previous.map(e => [e.id, e]));
+  const unchanged = new Set(previous);
+  const nextIds = new Set(next.map(e => e.id));
+
+  const writes = next
+    .filter(entry => !unchanged.has(entry))
+    .map(entry => {
+      const stored = previousById.get(entry.id);
+      return { entry, imageChanged: stored?.imageUrl !== entry.imageUrl, storedRevisions: stored?.revisions };
+    });
+  const removed = previous.filter(e => !nextIds.has(e.id));
+  return writeEntries(writes, removed);
+};
+
+/**
+ * Adds entries to whichever pair notebooks they belong to, e.g. an import
+ * into a pair that isn't loaded.
+ */
+export const addEntries = (entries: DictEntry[]): Promise<void> =>
+  writeEntries(entries.map(entry => ({ entry, imageChanged: true })));
+
+/**
+ * Every language pair that has a non-empty notebook.
+ */
+export const listNotebookPairs = async (): Promise<LanguagePair[]> => {
+  const db = await getDatabase();
+  const tx = db.transaction(ENTRIES_STORE, 'readonly');
+  const pairs: LanguagePair[] = [];
+
+  await new Promise<void>((resolve, reject) => {
+    const request = tx.objectStore(ENTRIES_STORE).openKeyCursor();
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return resolve();
+      const [sourceLang, targetLang] = cursor.key as [Language, Language, string];
+      pairs.push({ sourceLang, targetLang });
+      // Skip the rest of this pair's entries
+      cursor.continue([sourceLang, targetLang, []]);
+    };
+  });
+  return pairs;
+};
+
+const readLegacyEntries = (key: string): DictEntry[] => {
+  try {
+    const raw = localStorage.getItem(key);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    console.error(`Failed to read notebook (${key}):`, e);
+    return [];
+  }
+};
+
+/**
+ * Moves notebooks kept in localStorage into IndexedDB, then removes the old
+ * keys. Entries from before notebooks were split by pair carry no record of
+ * their languages, so they go to `pair`, the first one chosen after upgrading.
+ */
+export const migrateLegacyNotebook = async (pair: LanguagePair) => {
+  const keys: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key === LEGACY_KEY || key?.startsWith(LEGACY_KEY_PREFIX)) keys.push(key);
+  }
+  if (keys.length === 0) return;
+
+  const languages = Object.values(Language) as string[];
+  const entries: DictEntry[] = [];
+  // The untagged list goes first so a per-pair copy of the same entry wins
+  for (const key of keys.sort((a, b) => (a === LEGACY_KEY ? -1 : b === LEGACY_KEY ? 1 : 0))) {
+    for (const entry of readLegacyEntries(key)) {
+      const tagged = languages.includes(entry.sourceLang) && languages.includes(entry.targetLang);
+      entries.push(tagged ? entry : { ...entry, sourceLang: pair.sourceLang, targetLang: pair.targetLang });
+    }
+  }
+
+  await addEntries(entries);
+  keys.forEach(key => localStorage.removeItem(key));
+};
+
+export interface StorageEstimate {
+  usage: number; // Bytes used by this origin
+  quota: number; // Bytes the browser will let it use
+}
+
+/**
+ * How much of the origin's storage quota is in use, where the browser reports it.
+ */
+export const getStorageEstimate = async (): Promise<StorageEstimate | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage, quota } = await navigator.storage.estimate();
+  return usage !== undefined && quota ? { usage, quota } : null;
+};
+
+/**
+ * Asks the browser not to evict the notebook under storage pressure.
+ * Browsers may grant this silently, prompt, or refuse.
+ */
+export const requestPersistentStorage = () => navigator.storage?.persist?.().catch(() => false);
+
+export const isQuotaError = (error: unknown) => (error as DOMException)?.name === 'QuotaExceededError';
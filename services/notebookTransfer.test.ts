@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { parseNotebookImport, mergeEntries, exportNotebookJSON, exportNotebookDelimited } from './notebookTransfer';
+import { DictEntry, Language, LanguagePair } from '../types';
+
+const pair: LanguagePair = { sourceLang: Language.English, targetLang: Language.Spanish };
+
+const entry = (id: string, extra: Partial<DictEntry> = {}): DictEntry => ({
+  id, term: id, targetTerm: id, phonetic: '', nativeDefinition: '', examples: [], usageNote: '',
+  createdAt: 1, ...pair, ...extra,
+});
+
+describe('parseNotebookImport', () => {
+  it('round-trips a JSON backup', () => {
+    const entries = [entry('gato', { examples: [{ text: 'El gato.', phonetic: '', translation: 'The cat.' }], tags: ['pets'] })];
+    expect(parseNotebookImport(exportNotebookJSON(entries), 'backup.json', pair)).toEqual({ entries, skipped: 0 });
+  });
+
+  it('repairs incomplete records and skips ones without a term', () => {
+    const content = JSON.stringify([
+      { term: 'perro', examples: [{ text: 'Un perro.' }, null, 'bad'], sourceLang: 'Klingon', targetLang: 'Spanish' },
+      { term: '  ' },
+      null,
+      'gato',
+    ]);
+    const { entries, skipped } = parseNotebookImport(content, 'backup.json', { sourceLang: Language.French, targetLang: Language.Spanish });
+    expect(skipped).toBe(3);
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({
+      term: 'perro', targetTerm: 'perro', phonetic: '', nativeDefinition: '', usageNote: '',
+      examples: [{ text: 'Un perro.' }],
+      sourceLang: Language.French, targetLang: Language.Spanish,
+    });
+    expect(entries[0].id).toBeTruthy();
+    expect(Number.isFinite(entries[0].createdAt)).toBe(true);
+  });
+
+  it('drops optional fields with the wrong shape', () => {
+    const content = JSON.stringify([{
+      term: 'perro',
+      tags: 'pets',
+      review: {},
+      imageUrl: 42,
+      revisions: 'none',
+      level: 'Z9',
+      type: 'sentence',
+      origin: { kind: 'scenario' },
+      examples: [{ text: 'Un perro.', phonetic: 3, translation: null }],
+      extra: 'ignored',
+    }]);
+    const [imported] = parseNotebookImport(content, 'backup.json', pair).entries;
+    expect(imported).toEqual({
+      id: imported.id, term: 'perro', targetTerm: 'perro', phonetic: '', nativeDefinition: '', usageNote: '',
+      examples: [{ text: 'Un perro.', phonetic: '', translation: '' }],
+      createdAt: imported.createdAt, ...pair,
+    });
+  });
+
+  it('keeps tags only when they are all strings, normalised', () => {
+    const parse = (tags: unknown) => parseNotebookImport(JSON.stringify([{ term: 'perro', tags }]), 'backup.json', pair).entries[0].tags;
+    expect(parse([' pets ', 'Pets', 'animals'])).toEqual(['pets', 'animals']);
+    expect(parse(['pets', 3])).toBeUndefined();
+    expect(parse({ 0: 'pets' })).toBeUndefined();
+  });
+
+  it('keeps review state only when its numbers are all finite', () => {
+    const parse = (review: unknown) => parseNotebookImport(JSON.stringify([{ term: 'perro', review }]), 'backup.json', pair).entries[0].review;
+    expect(parse({ ease: 2.5, interval: 3, due: 1000, reps: 2 })).toEqual({ ease: 2.5, interval: 3, due: 1000, reps: 2, lapses: 0 });
+    expect(parse({ ease: 2.5, interval: 3, due: '1000', reps: 2 })).toBeUndefined();
+    expect(parse({ ease: 2.5, interval: null, due: 1000, reps: 2 })).toBeUndefined();
+  });
+
+  it('keeps only revisions that could be undone', () => {
+    const revisions = [
+      { at: 5, source: 'edit', previous: { phonetic: 'old', usageNote: 7 } },
+      { at: 6, source: 'edit', previous: { usageNote: 7 } },
+      { at: '7', source: 'regenerate', previous: { phonetic: 'x' } },
+      { at: 8, source: 'delete', previous: { phonetic: 'x' } },
+      null,
+    ];
+    const [imported] = parseNotebookImport(JSON.stringify([{ term: 'perro', revisions }]), 'backup.json', pair).entries;
+    expect(imported.revisions).toEqual([{ at: 5, source: 'edit', previous: { phonetic: 'old' } }]);
+  });
+
+  it('keeps a string image and a complete scenario origin', () => {
+    const origin = { kind: 'scenario', scenarioId: 's1', scenarioTitle: 'Café', original: 'un gato', explanation: 'Gender' };
+    const [imported] = parseNotebookImport(JSON.stringify([{ term: 'perro', imageUrl: 'data:image/png;base64,AA', origin, level: 'B1', type: 'word' }]), 'backup.json', pair).entries;
+    expect(imported).toMatchObject({ imageUrl: 'data:image/png;base64,AA', origin, level: 'B1', type: 'word' });
+  });
+
+  it('rejects JSON that is not a backup', () => {
+    expect(() => parseNotebookImport('{"notes": []}', 'backup.json', pair)).toThrow();
+  });
+
+  it('round-trips an exported CSV file, assigning the current pair', () => {
+    const original = entry('darse cuenta', {
+      term: 'realise', phonetic: 'ˈdar.se', nativeDefinition: 'To notice, "suddenly"',
+      examples: [{ text: 'Me di cuenta, al final.', phonetic: 'me di', translation: 'I realised, in the end.' }],
+      usageNote: 'Reflexive <always>', tags: ['verbs', 'phrasal verb'],
+    });
+    const { entries, skipped } = parseNotebookImport(exportNotebookDelimited([original], 'csv'), 'notes.csv', pair);
+    expect(skipped).toBe(0);
+    const { id, createdAt, ...rest } = entries[0];
+    const { id: _id, createdAt: _createdAt, ...expected } = original;
+    expect(rest).toEqual(expected);
+  });
+});
+
+describe('mergeEntries', () => {
+  it('skips terms already in the notebook, ignoring case and surrounding space', () => {
+    const existing = [entry('1', { term: 'Gato', review: { ease: 2.5, interval: 3, due: 5, lapses: 0, reps: 2 } })];
+    const incoming = [entry('2', { term: ' gato ' }), entry('3', { term: 'perro' }), entry('4', { term: 'PERRO' })];
+    const result = mergeEntries(existing, incoming);
+    expect(result.added).toBe(1);
+    expect(result.duplicates).toBe(2);
+    expect(result.entries.map(e => e.term)).toEqual(['perro', 'Gato']);
+    expect(result.entries[1].review?.reps).toBe(2);
+  });
+
+  it('renames incoming entries whose id is taken', () => {
+    const result = mergeEntries([entry('1', { term: 'gato' })], [entry('1', { term: 'perro' })]);
+    expect(result.entries.map(e => e.id)).toEqual(['1-0', '1']);
+  });
+});
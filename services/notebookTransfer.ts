@@ -0,0 +1,311 @@
+import { DictEntry, EntryOrigin, EntryRevision, Example, Language, LanguagePair, ReviewState } from "../types";
+import { termKey } from "./notebookStorage";
+import { ENTRY_TYPES, normalizeTags } from "./notebookFilter";
+import { LEVELS } from "./levels";
+
+const BACKUP_FORMAT = 'lingopop-notebook';
+const BACKUP_VERSION = 1;
+
+interface NotebookBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: number;
+  entries: DictEntry[];
+}
+
+export type DelimitedFormat = 'tsv' | 'csv';
+
+export interface ImportResult {
+  entries: DictEntry[];
+  skipped: number; // Records that couldn't be read as entries
+}
+
+export interface MergeResult {
+  entries: DictEntry[];
+  added: number;
+  duplicates: number;
+}
+
+// Column order shared by export and import; Anki maps these onto note fields
+const COLUMNS = ['term', 'phonetic', 'definition', 'examples', 'usageNote', 'original', 'tags'] as const;
+
+// Anki tags are space-separated, so spaces inside a tag travel as underscores
+const formatTags = (tags: string[] = []) => tags.map(tag => tag.replace(/ /g, '_')).join(' ');
+const parseTags = (field: string) => field.split(/\s+/).filter(Boolean).map(tag => tag.replace(/_/g, ' '));
+
+// --- Export ---
+
+// Undoing an image regeneration only works on the device: a backup carrying
+// every replaced image would dwarf the notebook itself
+const withoutRevisionImages = (entry: DictEntry): DictEntry => entry.revisions
+  ? { ...entry, revisions: entry.revisions.filter(r => !r.previous.imageUrl?.startsWith('data:')) }
+  : entry;
+
+/**
+ * Full-fidelity backup, including images, examples and review state.
+ */
+export const exportNotebookJSON = (entries: DictEntry[]): string => {
+  const backup: NotebookBackup = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: Date.now(),
+    entries: entries.map(withoutRevisionImages),
+  };
+  return JSON.stringify(backup, null, 2);
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const formatExamples = (examples: Example[]) =>
+  examples
+    .map(ex => [ex.text, ex.phonetic, ex.translation].filter(Boolean).map(escapeHtml).join('<br>'))
+    .join('<br><br>');
+
+const toHtmlField = (text: string) => escapeHtml(text).replace(/\r?\n/g, '<br>');
+
+const quoteField = (value: string, separator: string) =>
+  value.includes(separator) || value.includes('"')
+    ? `"${value.replace(/"/g, '""')}"`
+    : value;
+
+/**
+ * Anki-importable text file. The header lines tell Anki the separator and that
+ * fields contain HTML, so the examples keep their line breaks.
+ */
+export const exportNotebookDelimited = (entries: DictEntry[], format: DelimitedFormat): string => {
+  const separator = format === 'tsv' ? '\t' : ',';
+  const header = [
+    `#separator:${format === 'tsv' ? 'tab' : 'comma'}`,
+    '#html:true',
+    `#columns:${COLUMNS.join(separator)}`,
+    `#tags column:${COLUMNS.indexOf('tags') + 1}`,
+  ];
+  const rows = entries.map(e => [
+    toHtmlField(e.targetTerm || e.term),
+    toHtmlField(e.phonetic || ''),
+    toHtmlField(e.nativeDefinition || ''),
+    formatExamples(e.examples),
+    toHtmlField(e.usageNote || ''),
+    toHtmlField(e.term),
+    formatTags(e.tags),
+  ].map(v => quoteField(v, separator)).join(separator));
+  return [...header, ...rows].join('\n');
+};
+
+export const downloadFile = (filename: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const exportFilename = (pair: LanguagePair, extension: string) => {
+  const slug = (lang: Language) => lang.toLowerCase().replace(/[^a-z]+/g, '-').replace(/-$/, '');
+  const date = new Date().toISOString().slice(0, 10);
+  return `lingopop-${slug(pair.sourceLang)}-${slug(pair.targetLang)}-${date}.${extension}`;
+};
+
+// --- Import ---
+
+const parseDelimitedLine = (line: string, separator: string): string[] => {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"' && field === '') {
+      quoted = true;
+    } else if (ch === separator) {
+      fields.push(field);
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  fields.push(field);
+  return fields;
+};
+
+const unescapeHtml = (text: string) =>
+  text.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+
+const fromHtmlField = (html: string) => unescapeHtml(html.replace(/<br>/g, '\n'));
+
+const parseExamples = (html: string): Example[] =>
+  html.split('<br><br>').filter(Boolean).map(block => {
+    const [text = '', phonetic = '', translation = ''] = block.split('<br>').map(unescapeHtml);
+    return { text, phonetic, translation };
+  });
+
+const parseDelimited = (content: string, pair: LanguagePair): ImportResult => {
+  const lines = content.split(/\r?\n/).filter(l => l.trim());
+  const separatorLine = lines.find(l => l.startsWith('#separator:'));
+  const separator = separatorLine
+    ? (separatorLine.includes('comma') ? ',' : '\t')
+    : (lines[0]?.includes('\t') ? '\t' : ',');
+  const now = Date.now();
+
+  const entries = lines
+    .filter(l => !l.startsWith('#'))
+    .map((line, i): DictEntry => {
+      const [targetTerm, phonetic, definition, examples = '', usageNote, original, tags = ''] =
+        parseDelimitedLine(line, separator).map((field, col) => col === 3 ? field : fromHtmlField(field));
+      return {
+        id: `${now}-${i}`,
+        term: original || targetTerm || '',
+        targetTerm: targetTerm || '',
+        phonetic: phonetic || '',
+        nativeDefinition: definition || '',
+        examples: parseExamples(examples),
+        usageNote: usageNote || '',
+        tags: parseTags(tags),
+        createdAt: now,
+        ...pair,
+      };
+    });
+  const readable = entries.filter(e => e.targetTerm);
+  return { entries: readable, skipped: entries.length - readable.length };
+};
+
+const LANGUAGES = Object.values(Language) as string[];
+const REVISION_SOURCES: unknown[] = ['edit', 'regenerate'];
+
+const isText = (value: unknown): value is string => typeof value === 'string';
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isRecord = (value: unknown): value is Record<string, any> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const toExamples = (value: unknown): Example[] =>
+  Array.isArray(value)
+    ? value.filter(ex => isRecord(ex) && isText(ex.text)).map(ex => ({
+        text: ex.text,
+        phonetic: isText(ex.phonetic) ? ex.phonetic : '',
+        translation: isText(ex.translation) ? ex.translation : '',
+      }))
+    : [];
+
+const toReview = (value: unknown): ReviewState | undefined => {
+  if (!isRecord(value) || ![value.due, value.interval, value.ease, value.reps].every(isNumber)) return undefined;
+  return {
+    ease: value.ease,
+    interval: value.interval,
+    due: value.due,
+    lapses: isNumber(value.lapses) ? value.lapses : 0,
+    reps: value.reps,
+    ...(isNumber(value.lastReviewed) && { lastReviewed: value.lastReviewed }),
+  };
+};
+
+const toOrigin = (value: unknown): EntryOrigin | undefined =>
+  isRecord(value) && value.kind === 'scenario' && ['scenarioId', 'scenarioTitle', 'original', 'explanation'].every(k => isText(value[k]))
+    ? { kind: 'scenario', scenarioId: value.scenarioId, scenarioTitle: value.scenarioTitle, original: value.original, explanation: value.explanation }
+    : undefined;
+
+// Only the previous values that could be restored onto the entry are kept
+const toRevision = (value: unknown): EntryRevision | null => {
+  if (!isRecord(value) || !isNumber(value.at) || !REVISION_SOURCES.includes(value.source) || !isRecord(value.previous)) return null;
+  const { phonetic, nativeDefinition, usageNote, imageUrl, examples } = value.previous;
+  const previous: EntryRevision['previous'] = {
+    ...(isText(phonetic) && { phonetic }),
+    ...(isText(nativeDefinition) && { nativeDefinition }),
+    ...(isText(usageNote) && { usageNote }),
+    ...(isText(imageUrl) && { imageUrl }),
+    ...(Array.isArray(examples) && { examples: toExamples(examples) }),
+  };
+  return Object.keys(previous).length > 0 ? { at: value.at, source: value.source, previous } : null;
+};
+
+/**
+ * A backup record as an entry that can be stored, or null if it has no term.
+ * Only known fields are copied, and only when they have the right shape:
+ * missing ids, dates and text fields are filled in, malformed optional fields
+ * are dropped, and a record without a valid language pair goes to `pair`, like
+ * entries from before pairs were recorded.
+ */
+const toEntry = (record: unknown, index: number, pair: LanguagePair, now: number): DictEntry | null => {
+  if (!isRecord(record) || !isText(record.term) || !record.term.trim()) return null;
+  const hasPair = LANGUAGES.includes(record.sourceLang) && LANGUAGES.includes(record.targetLang);
+  const review = toReview(record.review);
+  const origin = toOrigin(record.origin);
+  const tags = Array.isArray(record.tags) && record.tags.every(isText) ? normalizeTags(record.tags) : [];
+  const revisions = Array.isArray(record.revisions)
+    ? record.revisions.map(toRevision).filter((r): r is EntryRevision => r !== null)
+    : [];
+  return {
+    id: isText(record.id) && record.id ? record.id : `${now}-${index}`,
+    term: record.term,
+    targetTerm: isText(record.targetTerm) ? record.targetTerm : record.term,
+    phonetic: isText(record.phonetic) ? record.phonetic : '',
+    nativeDefinition: isText(record.nativeDefinition) ? record.nativeDefinition : '',
+    examples: toExamples(record.examples),
+    usageNote: isText(record.usageNote) ? record.usageNote : '',
+    createdAt: isNumber(record.createdAt) ? record.createdAt : now,
+    sourceLang: hasPair ? record.sourceLang : pair.sourceLang,
+    targetLang: hasPair ? record.targetLang : pair.targetLang,
+    ...(isText(record.imageUrl) && { imageUrl: record.imageUrl }),
+    ...(review && { review }),
+    ...(origin && { origin }),
+    ...(LEVELS.includes(record.level) && { level: record.level }),
+    ...(ENTRY_TYPES.includes(record.type) && { type: record.type }),
+    ...(tags.length > 0 && { tags }),
+    ...(revisions.length > 0 && { revisions }),
+  };
+};
+
+const parseBackup = (content: string, pair: LanguagePair): ImportResult => {
+  const data = JSON.parse(content);
+  // Accept a bare entry array as well as the wrapped backup format
+  const records: unknown[] = Array.isArray(data) ? data : data?.entries;
+  if (!Array.isArray(records)) throw new Error('Not a LingoPop notebook backup');
+  const now = Date.now();
+  const entries = records
+    .map((record, i) => toEntry(record, i, pair, now))
+    .filter((e): e is DictEntry => e !== null);
+  return { entries, skipped: records.length - entries.length };
+};
+
+/**
+ * Parses a JSON backup or an exported TSV/CSV file. Entries without a language
+ * pair (delimited files, old backups) are assigned to `pair`; records that
+ * aren't entries at all are skipped and counted.
+ */
+export const parseNotebookImport = (content: string, filename: string, pair: LanguagePair): ImportResult => {
+  const trimmed = content.trim();
+  if (filename.toLowerCase().endsWith('.json') || trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    return parseBackup(trimmed, pair);
+  }
+  return parseDelimited(content, pair);
+};
+
+/**
+ * Adds incoming entries whose term is not already in the notebook. Duplicates
+ * (by termKey, as for lookups) keep the existing entry and its review history.
+ */
+export const mergeEntries = (existing: DictEntry[], incoming: DictEntry[]): MergeResult => {
+  const seenTerms = new Set(existing.map(e => termKey(e.term)));
+  const seenIds = new Set(existing.map(e => e.id));
+  const added: DictEntry[] = [];
+  let duplicates = 0;
+
+  for (const entry of incoming) {
+    const key = termKey(entry.term);
+    if (seenTerms.has(key)) {
+      duplicates++;
+      continue;
+    }
+    seenTerms.add(key);
+    const id = seenIds.has(entry.id) ? `${entry.id}-${added.length}` : entry.id;
+    seenIds.add(id);
+    added.push({ ...entry, id });
+  }
+
+  return { entries: [...added, ...existing], added: added.length, duplicates };
+};
@@ -0,0 +1,38 @@
+import { LanguagePair } from "../types";
+import { isSamePair } from "./notebookStorage";
+
+// Lookups made without a connection, resolved once the browser is back online
+const STORAGE_KEY = 'lingopop-offline-lookups';
+
+export interface QueuedLookup extends LanguagePair {
+  id: string;
+  term: string;
+  queuedAt: number;
+}
+
+/**
+ * Queued lookups for every language pair, oldest first.
+ */
+export const loadQueuedLookups = (): QueuedLookup[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    console.error('Failed to read offline lookups:', e);
+    return [];
+  }
+};
+
+export const saveQueuedLookups = (lookups: QueuedLookup[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(lookups));
+};
+
+/**
+ * Adds `term` to the queue unless the same lookup is already waiting, and
+ * returns the updated queue.
+ */
+export const enqueueLookup = (lookups: QueuedLookup[], term: string, pair: LanguagePair): QueuedLookup[] => {
+  const duplicate = lookups.some(l => isSamePair(l, pair) && l.term.toLowerCase() === term.toLowerCase());
+  if (duplicate) return lookups;
+  return [...lookups, { id: crypto.randomUUID(), term, sourceLang: pair.sourceLang, targetLang: pair.targetLang, queuedAt: Date.now() }];
+};
@@ -0,0 +1,63 @@
+/**
+ * Microphone capture for pronunciation practice.
+ */
+
+export interface Recording {
+  audio: string;    // base64, without the data URL prefix
+  mimeType: string;
+}
+
+export interface ActiveRecording {
+  stop: () => Promise<Recording>;
+  cancel: () => void;
+}
+
+// Gemini accepts all of these; the first one the browser can produce wins
+const PREFERRED_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/ogg;codecs=opus', 'audio/mp4'];
+
+export const isRecordingSupported = () =>
+  typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia && typeof MediaRecorder !== 'undefined';
+
+const blobToBase64 = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(',')[1] || '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+/**
+ * Starts recording from the default microphone. Rejects if permission is denied.
+ */
+export const startRecording = async (): Promise<ActiveRecording> => {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  const mimeType = PREFERRED_TYPES.find(t => MediaRecorder.isTypeSupported(t));
+  const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+  const chunks: Blob[] = [];
+
+  recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+  recorder.start();
+
+  const release = () => stream.getTracks().forEach(track => track.stop());
+
+  return {
+    stop: () => new Promise<Recording>((resolve, reject) => {
+      recorder.onstop = async () => {
+        release();
+        try {
+          const type = recorder.mimeType || mimeType || 'audio/webm';
+          const blob = new Blob(chunks, { type });
+          resolve({ audio: await blobToBase64(blob), mimeType: type });
+        } catch (e) {
+          reject(e);
+        }
+      };
+      recorder.stop();
+    }),
+    cancel: () => {
+      recorder.onstop = null;
+      if (recorder.state !== 'inactive') recorder.stop();
+      release();
+    },
+  };
+};
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { routeToPath, parsePath, Route } from './router';
+import { Language } from '../types';
+
+describe('router', () => {
+  const routes: [Route, string][] = [
+    [{ view: 'onboarding' }, '/'],
+    [{ view: 'search' }, '/search'],
+    [{ view: 'result', pair: { sourceLang: Language.English, targetLang: Language.Spanish }, term: 'gato' }, '/lookup/en-es/gato'],
+    [{ view: 'result', pair: { sourceLang: Language.Chinese, targetLang: Language.Japanese }, term: 'お茶 です?' }, '/lookup/zh-ja/%E3%81%8A%E8%8C%B6%20%E3%81%A7%E3%81%99%3F'],
+    [{ view: 'notebook' }, '/notebook'],
+    [{ view: 'flashcards' }, '/review'],
+    [{ view: 'scenario-menu' }, '/roleplay'],
+    [{ view: 'scenario-chat', scenarioId: 'cafe/1' }, '/roleplay/cafe%2F1'],
+    [{ view: 'scenario-report', scenarioId: 'cafe' }, '/roleplay/cafe/report'],
+    [{ view: 'scenario-history' }, '/history'],
+    [{ view: 'scenario-session', sessionId: 's1' }, '/history/s1'],
+    [{ view: 'settings' }, '/settings'],
+  ];
+
+  it.each(routes)('maps %j to %s and back', (route, path) => {
+    expect(routeToPath(route)).toBe(path);
+    expect(parsePath(path)).toEqual(route);
+  });
+
+  it('falls back for routes missing their parameters', () => {
+    expect(routeToPath({ view: 'result' })).toBe('/search');
+    expect(routeToPath({ view: 'scenario-chat' })).toBe('/roleplay');
+    expect(routeToPath({ view: 'story' })).toBe('/notebook');
+  });
+
+  it('falls back for unknown or malformed paths', () => {
+    expect(parsePath('/nowhere')).toEqual({ view: 'onboarding' });
+    expect(parsePath('/lookup/en-xx/gato')).toEqual({ view: 'search' });
+    expect(parsePath('/lookup/en-es')).toEqual({ view: 'search' });
+    expect(parsePath('/history/%E0%A4%A')).toEqual({ view: 'scenario-session', sessionId: '%E0%A4%A' });
+  });
+});
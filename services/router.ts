@@ -0,0 +1,122 @@
+import { Language, LanguagePair, ViewState } from "../types";
+
+/**
+ * Client-side routing over the History API. Each ViewState has a URL:
+ *
+ *   /                                  onboarding
+ *   /search                            search
+ *   /lookup/:pair/:term                result, e.g. /lookup/en-es/gato
+ *   /notebook                          notebook
+ *   /review                            flashcards
+ *   /roleplay                          scenario-menu
+ *   /roleplay/:scenarioId              scenario-chat
+ *   /roleplay/:scenarioId/report       scenario-report
+ *   /history                           scenario-history
+ *   /history/:sessionId                scenario-session
+ *   /settings                          settings
+ */
+export interface Route {
+  view: ViewState;
+  pair?: LanguagePair;
+  term?: string;
+  scenarioId?: string;
+  sessionId?: string;
+}
+
+const LANGUAGE_CODES: Record<Language, string> = {
+  [Language.English]: 'en',
+  [Language.Chinese]: 'zh',
+  [Language.Spanish]: 'es',
+  [Language.French]: 'fr',
+  [Language.German]: 'de',
+  [Language.Japanese]: 'ja',
+  [Language.Korean]: 'ko',
+  [Language.Portuguese]: 'pt',
+  [Language.Russian]: 'ru',
+  [Language.Arabic]: 'ar',
+};
+
+const languageFromCode = (code: string): Language | undefined =>
+  (Object.keys(LANGUAGE_CODES) as Language[]).find(lang => LANGUAGE_CODES[lang] === code);
+
+const pairToSegment = (pair: LanguagePair) =>
+  `${LANGUAGE_CODES[pair.sourceLang]}-${LANGUAGE_CODES[pair.targetLang]}`;
+
+const segmentToPair = (segment: string): LanguagePair | undefined => {
+  const [source, target] = segment.split('-');
+  const sourceLang = languageFromCode(source);
+  const targetLang = languageFromCode(target);
+  return sourceLang && targetLang ? { sourceLang, targetLang } : undefined;
+};
+
+export const routeToPath = (route: Route): string => {
+  switch (route.view) {
+    case 'onboarding': return '/';
+    case 'search': return '/search';
+    case 'result':
+      return route.pair && route.term
+        ? `/lookup/${pairToSegment(route.pair)}/${encodeURIComponent(route.term)}`
+        : '/search';
+    case 'notebook': return '/notebook';
+    case 'flashcards': return '/review';
+    case 'scenario-menu': return '/roleplay';
+    case 'scenario-chat':
+      return route.scenarioId ? `/roleplay/${encodeURIComponent(route.scenarioId)}` : '/roleplay';
+    case 'scenario-report':
+      return route.scenarioId ? `/roleplay/${encodeURIComponent(route.scenarioId)}/report` : '/roleplay';
+    case 'scenario-history': return '/history';
+    case 'scenario-session':
+      return route.sessionId ? `/history/${encodeURIComponent(route.sessionId)}` : '/history';
+    case 'settings': return '/settings';
+    case 'story': return '/notebook';
+  }
+};
+
+/**
+ * Unknown or malformed paths fall back to onboarding.
+ */
+export const parsePath = (pathname: string): Route => {
+  const segments = pathname.split('/').filter(Boolean).map(s => {
+    try { return decodeURIComponent(s); } catch (e) { return s; }
+  });
+  const [first, second, third] = segments;
+
+  switch (first) {
+    case 'search': return { view: 'search' };
+    case 'lookup': {
+      const pair = second ? segmentToPair(second) : undefined;
+      return pair && third ? { view: 'result', pair, term: third } : { view: 'search' };
+    }
+    case 'notebook': return { view: 'notebook' };
+    case 'review': return { view: 'flashcards' };
+    case 'roleplay':
+      if (!second) return { view: 'scenario-menu' };
+      return { view: third === 'report' ? 'scenario-report' : 'scenario-chat', scenarioId: second };
+    case 'history':
+      return second ? { view: 'scenario-session', sessionId: second } : { view: 'scenario-history' };
+    case 'settings': return { view: 'settings' };
+    default: return { view: 'onboarding' };
+  }
+};
+
+export const getCurrentRoute = (): Route => parsePath(window.location.pathname);
+
+/**
+ * Updates the address bar to `route`. No-op if it's already there, so syncing
+ * state back to the URL after a back/forward navigation adds no entries.
+ */
+export const pushRoute = (route: Route, { replace = false }: { replace?: boolean } = {}) => {
+  const path = routeToPath(route);
+  if (path === window.location.pathname) return;
+  if (replace) window.history.replaceState(null, '', path);
+  else window.history.pushState(null, '', path);
+};
+
+/**
+ * Calls `listener` on browser back/forward. Returns an unsubscribe function.
+ */
+export const onRouteChange = (listener: (route: Route) => void) => {
+  const handler = () => listener(getCurrentRoute());
+  window.addEventListener('popstate', handler);
+  return () => window.removeEventListener('popstate', handler);
+};
@@ -0,0 +1,47 @@
+import { LanguagePair, ProficiencyLevel, Scenario } from "../types";
+
+// Saved scenarios are per language pair: titles are in the native language, lines in the target
+const LIBRARY_PREFIX = 'lingopop-scenarios:';
+// Last generated batch, kept for the tab's lifetime so the menu doesn't re-roll on every visit
+const GENERATED_KEY = 'lingopop-generated-scenarios';
+
+const libraryKey = (pair: LanguagePair) =>
+  `${LIBRARY_PREFIX}${pair.sourceLang}|${pair.targetLang}`;
+
+export const loadScenarioLibrary = (pair: LanguagePair): Scenario[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(libraryKey(pair)) || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    console.error('Failed to read scenario library:', e);
+    return [];
+  }
+};
+
+export const saveScenarioLibrary = (pair: LanguagePair, scenarios: Scenario[]) => {
+  localStorage.setItem(libraryKey(pair), JSON.stringify(scenarios));
+};
+
+interface GeneratedBatch {
+  key: string;
+  scenarios: Scenario[];
+}
+
+const batchKey = (pair: LanguagePair, level: ProficiencyLevel) => `${libraryKey(pair)}|${level}`;
+
+/**
+ * The last generated scenarios for this pair and level, or null if there are none yet.
+ */
+export const loadGeneratedScenarios = (pair: LanguagePair, level: ProficiencyLevel): Scenario[] | null => {
+  try {
+    const batch: GeneratedBatch | null = JSON.parse(sessionStorage.getItem(GENERATED_KEY) || 'null');
+    return batch && batch.key === batchKey(pair, level) ? batch.scenarios : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+export const saveGeneratedScenarios = (pair: LanguagePair, level: ProficiencyLevel, scenarios: Scenario[]) => {
+  const batch: GeneratedBatch = { key: batchKey(pair, level), scenarios };
+  sessionStorage.setItem(GENERATED_KEY, JSON.stringify(batch));
+};
@@ -0,0 +1,11 @@
+/**
+ * Registers public/sw.js, which keeps the app shell and recent lookup, image
+ * and TTS responses available offline. Skipped in development so Vite's
+ * module server is never shadowed by a cache.
+ */
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(e => console.error("Service worker registration failed:", e));
+  });
+};
@@ -0,0 +1,36 @@
+import { LanguagePair, ScenarioSession } from "../types";
+
+const KEY_PREFIX = 'lingopop-sessions:';
+// Transcripts add up; the oldest sessions are dropped past this
+const MAX_SESSIONS = 100;
+
+const sessionsKey = (pair: LanguagePair) =>
+  `${KEY_PREFIX}${pair.sourceLang}|${pair.targetLang}`;
+
+/**
+ * Completed roleplay sessions for a language pair, newest first.
+ */
+export const loadSessions = (pair: LanguagePair): ScenarioSession[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(sessionsKey(pair)) || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    console.error('Failed to read session history:', e);
+    return [];
+  }
+};
+
+/**
+ * Records a finished session and returns the updated history.
+ */
+export const addSession = (session: ScenarioSession): ScenarioSession[] => {
+  const sessions = [session, ...loadSessions(session)].slice(0, MAX_SESSIONS);
+  localStorage.setItem(sessionsKey(session), JSON.stringify(sessions));
+  return sessions;
+};
+
+export const deleteSession = (pair: LanguagePair, id: string): ScenarioSession[] => {
+  const sessions = loadSessions(pair).filter(s => s.id !== id);
+  localStorage.setItem(sessionsKey(pair), JSON.stringify(sessions));
+  return sessions;
+};
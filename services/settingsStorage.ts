@@ -0,0 +1,31 @@
+import { Language, UserSettings } from "../types";
+
+const SETTINGS_KEY = 'lingopop-settings';
+
+export const DEFAULT_SETTINGS: UserSettings = {
+  sourceLang: Language.English,
+  targetLang: Language.Spanish,
+  voiceName: 'Kore',
+  imageGeneration: true,
+  storyLength: 'medium',
+  level: 'A2',
+  inlineCorrections: false,
+};
+
+/**
+ * Stored settings, or null before onboarding has been completed.
+ * Missing fields (from older versions) take their defaults.
+ */
+export const loadSettings = (): UserSettings | null => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    return raw ? { ...DEFAULT_SETTINGS, ...JSON.parse(raw) } : null;
+  } catch (e) {
+    console.error('Failed to read settings:', e);
+    return null;
+  }
+};
+
+export const saveSettings = (settings: UserSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { createReviewState, scheduleReview, getDueEntries, getNextDueDate, formatInterval, isDue } from './srs';
+import { DictEntry, Language } from '../types';
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+const NOW = Date.UTC(2024, 0, 1);
+
+const entry = (id: string, extra: Partial<DictEntry> = {}): DictEntry => ({
+  id, term: id, targetTerm: id, phonetic: '', nativeDefinition: '', examples: [], usageNote: '',
+  createdAt: NOW, sourceLang: Language.English, targetLang: Language.Spanish, ...extra,
+});
+
+describe('scheduleReview', () => {
+  it('schedules a first recall one day out, or four when easy', () => {
+    expect(scheduleReview(undefined, 'good', NOW)).toMatchObject({ interval: 1, due: NOW + DAY, reps: 1 });
+    expect(scheduleReview(undefined, 'easy', NOW)).toMatchObject({ interval: 4, due: NOW + 4 * DAY, ease: 2.65 });
+  });
+
+  it('grows the interval by the ease factor', () => {
+    const first = scheduleReview(undefined, 'good', NOW);
+    const second = scheduleReview(first, 'good', NOW + DAY);
+    const third = scheduleReview(second, 'good', NOW + 3 * DAY);
+    expect([second.interval, third.interval]).toEqual([3, 8]);
+  });
+
+  it('brings a forgotten card back in ten minutes and counts the lapse', () => {
+    const learned = scheduleReview(scheduleReview(undefined, 'good', NOW), 'good', NOW + DAY);
+    const forgotten = scheduleReview(learned, 'again', NOW + 4 * DAY);
+    expect(forgotten).toMatchObject({ interval: 0, due: NOW + 4 * DAY + 10 * MINUTE, lapses: 1, reps: 0 });
+    expect(forgotten.ease).toBeCloseTo(2.3);
+    expect(scheduleReview(forgotten, 'good', NOW + 5 * DAY).interval).toBe(1);
+  });
+
+  it('never lowers the ease below 1.3', () => {
+    let state = createReviewState(NOW);
+    for (let i = 0; i < 10; i++) state = scheduleReview(state, 'again', NOW);
+    expect(state.ease).toBe(1.3);
+    expect(state.lapses).toBe(0);
+  });
+});
+
+describe('due entries', () => {
+  const overdue = entry('overdue', { review: { ...createReviewState(NOW - 2 * DAY) } });
+  const dueNow = entry('due', { review: { ...createReviewState(NOW - DAY) } });
+  const later = entry('later', { review: { ...createReviewState(NOW + DAY) } });
+  const unseen = entry('new');
+
+  it('lists the most overdue first and unreviewed cards last', () => {
+    expect(getDueEntries([unseen, later, dueNow, overdue], NOW).map(e => e.id)).toEqual(['overdue', 'due', 'new']);
+    expect(isDue(later, NOW)).toBe(false);
+  });
+
+  it('finds the next due date among reviewed cards', () => {
+    expect(getNextDueDate([unseen, later, dueNow])).toBe(NOW - DAY);
+    expect(getNextDueDate([unseen])).toBeNull();
+  });
+});
+
+describe('formatInterval', () => {
+  it('picks a short unit', () => {
+    expect(formatInterval(NOW, NOW + 10 * MINUTE)).toBe('10m');
+    expect(formatInterval(NOW, NOW)).toBe('1m');
+    expect(formatInterval(NOW, NOW + 3 * DAY)).toBe('3d');
+    expect(formatInterval(NOW, NOW + 60 * DAY)).toBe('2mo');
+    expect(formatInterval(NOW, NOW + 548 * DAY)).toBe('1.5y');
+  });
+});
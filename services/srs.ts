@@ -0,0 +1,97 @@
+import { DictEntry, ReviewGrade, ReviewState } from "../types";
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+// Failed cards come back within the same study session
+const RELEARN_DELAY = 10 * MINUTE;
+
+export const createReviewState = (now: number = Date.now()): ReviewState => ({
+  ease: DEFAULT_EASE,
+  interval: 0,
+  due: now,
+  lapses: 0,
+  reps: 0,
+});
+
+/**
+ * SM-2 style scheduling. Intervals are in days; `due` is a timestamp.
+ */
+export const scheduleReview = (
+  state: ReviewState | undefined,
+  grade: ReviewGrade,
+  now: number = Date.now()
+): ReviewState => {
+  const prev = state || createReviewState(now);
+  let { ease, interval, lapses, reps } = prev;
+
+  if (grade === 'again') {
+    return {
+      ease: Math.max(MIN_EASE, ease - 0.2),
+      interval: 0,
+      due: now + RELEARN_DELAY,
+      lapses: reps > 0 ? lapses + 1 : lapses,
+      reps: 0,
+      lastReviewed: now,
+    };
+  }
+
+  if (reps === 0) {
+    // First successful recall (or relearning after a lapse)
+    interval = grade === 'easy' ? 4 : 1;
+  } else if (grade === 'hard') {
+    interval = Math.max(interval + 1, interval * 1.2);
+  } else if (grade === 'good') {
+    interval = Math.max(interval + 1, interval * ease);
+  } else {
+    interval = Math.max(interval + 1, interval * ease * 1.3);
+  }
+
+  if (grade === 'hard') ease = Math.max(MIN_EASE, ease - 0.15);
+  if (grade === 'easy') ease = ease + 0.15;
+
+  interval = Math.round(interval);
+
+  return {
+    ease,
+    interval,
+    due: now + interval * DAY,
+    lapses,
+    reps: reps + 1,
+    lastReviewed: now,
+  };
+};
+
+export const isDue = (entry: DictEntry, now: number = Date.now()): boolean =>
+  !entry.review || entry.review.due <= now;
+
+/**
+ * Entries that need review, most overdue first. Unreviewed cards go last.
+ */
+export const getDueEntries = (entries: DictEntry[], now: number = Date.now()): DictEntry[] =>
+  entries
+    .filter(e => isDue(e, now))
+    .sort((a, b) => {
+      if (!a.review) return b.review ? 1 : a.createdAt - b.createdAt;
+      if (!b.review) return -1;
+      return a.review.due - b.review.due;
+    });
+
+export const getNextDueDate = (entries: DictEntry[]): number | null => {
+  const dues = entries.filter(e => e.review).map(e => e.review!.due);
+  return dues.length > 0 ? Math.min(...dues) : null;
+};
+
+/**
+ * Short label for the interval a grade would produce, e.g. "10m", "3d", "2mo".
+ */
+export const formatInterval = (from: number, to: number): string => {
+  const ms = Math.max(0, to - from);
+  if (ms < DAY) return `${Math.max(1, Math.round(ms / MINUTE))}m`;
+  const days = Math.round(ms / DAY);
+  if (days < 30) return `${days}d`;
+  if (days < 365) return `${Math.round(days / 30)}mo`;
+  return `${(days / 365).toFixed(1)}y`;
+};
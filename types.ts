@@ -27,11 +27,84 @@ export interface DictEntry {
   usageNote: string;
   imageUrl?: string;
   createdAt: number;
+  sourceLang: Language; // Native language the entry was looked up from
+  targetLang: Language; // Language being learned
+  review?: ReviewState; // Spaced-repetition state, absent until first review
+  origin?: EntryOrigin; // Set when the entry wasn't a plain lookup
+  level?: ProficiencyLevel; // CEFR level of the term, as judged at lookup
+  type?: EntryType; // As classified at lookup
+  tags?: string[]; // User-defined labels for filtering the notebook
+  revisions?: EntryRevision[]; // Edits and regenerations, oldest first, so they can be undone
+}
+
+export type EntryType = 'word' | 'phrase' | 'grammar';
+
+// Parts of an entry the learner can edit or regenerate
+export type EditableField = 'phonetic' | 'nativeDefinition' | 'examples' | 'usageNote' | 'imageUrl';
+
+export interface EntryRevision {
+  at: number;
+  source: 'edit' | 'regenerate';
+  previous: Partial<Pick<DictEntry, EditableField>>; // Values the change replaced
+}
+
+// A roleplay correction the entry was created from
+export interface EntryOrigin {
+  kind: 'scenario';
+  scenarioId: string;
+  scenarioTitle: string;
+  original: string;     // What the learner actually said
+  explanation: string;
+}
+
+export interface LanguagePair {
+  sourceLang: Language;
+  targetLang: Language;
+}
+
+export type VoiceName = 'Kore' | 'Puck' | 'Charon';
+
+export type StoryLength = 'short' | 'medium' | 'long';
+
+// CEFR; shown as JLPT/HSK levels for Japanese and Chinese
+export type ProficiencyLevel = 'A1' | 'A2' | 'B1' | 'B2' | 'C1' | 'C2';
+
+export interface UserSettings {
+  sourceLang: Language;
+  targetLang: Language;
+  voiceName: VoiceName;        // Voice used for all text-to-speech
+  imageGeneration: boolean;    // Generate a concept image on each lookup
+  storyLength: StoryLength;
+  level: ProficiencyLevel;     // Constrains vocabulary and grammar in generated content
+  inlineCorrections: boolean;  // Correct each message during roleplay, not just in the report
+}
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+export interface ReviewState {
+  ease: number;      // SM-2 ease factor (min 1.3)
+  interval: number;  // Current interval in days
+  due: number;       // Timestamp when the card is next due
+  lapses: number;    // Times the card was forgotten after being learned
+  reps: number;      // Consecutive successful reviews
+  lastReviewed?: number;
 }
 
 export interface ChatMessage {
   role: 'user' | 'model';
   text: string;
+  correction?: TurnCorrection; // Inline feedback on a user message, in roleplay
+}
+
+export interface ReplySuggestion {
+  text: string;        // In the target language
+  translation: string; // In the learner's native language
+}
+
+export interface TurnCorrection {
+  isCorrect: boolean;
+  corrected: string;
+  explanation: string;
 }
 
 export interface FlashcardProps {
@@ -44,6 +117,15 @@ export interface Scenario {
   title: string;
   description: string;
   openingLine: string;
+  persona?: string;  // Who the AI plays, e.g. "a grumpy ticket inspector"
+  setting?: string;  // Where and when the scene takes place
+  custom?: boolean;  // Authored by the user rather than generated
+  objectives?: string[]; // Concrete goals, e.g. "order a drink"
+}
+
+export interface ObjectiveResult {
+  text: string;
+  completed: boolean;
 }
 
 export interface ScenarioReport {
@@ -54,6 +136,33 @@ export interface ScenarioReport {
     correction: string;
     explanation: string;
   }[];
+  objectives?: ObjectiveResult[];
+}
+
+// A finished roleplay, kept so learners can revisit it and track progress
+export interface ScenarioSession {
+  id: string;
+  scenario: Scenario;
+  sourceLang: Language;
+  targetLang: Language;
+  transcript: ChatMessage[];
+  report: ScenarioReport;
+  completedAt: number;
+}
+
+export interface WordScore {
+  word: string;          // Word (or character, for CJK) from the expected text
+  heard: string | null;  // What the learner said in its place, if anything
+  accuracy: number;      // 0-1
+  status: 'correct' | 'close' | 'wrong' | 'missing';
+}
+
+export interface PronunciationResult {
+  transcript: string;
+  feedback: string;
+  score: number; // 0-100
+  words: WordScore[];
+  extra: string[]; // Words said that aren't in the expected text
 }
 
-export type ViewState = 'onboarding' | 'search' | 'result' | 'notebook' | 'flashcards' | 'story' | 'scenario-menu' | 'scenario-chat' | 'scenario-report';
\ No newline at end of file
+export type ViewState = 'onboarding' | 'search' | 'result' | 'notebook' | 'flashcards' | 'story' | 'scenario-menu' | 'scenario-chat' | 'scenario-report' | 'scenario-history' | 'scenario-session' | 'settings';
\ No newline at end of file
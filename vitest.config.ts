@@ -0,0 +1,14 @@
+import { defineConfig } from 'vitest/config';
+
+// Tests call the api/ handlers against the mock provider, with caching and rate
+// limiting off so they need no API key and can't leak state into each other
+export default defineConfig({
+  test: {
+    environment: 'node',
+    env: {
+      LLM_PROVIDER: 'mock',
+      CACHE_STORE: 'none',
+      RATE_LIMIT: 'off',
+    },
+  },
+});